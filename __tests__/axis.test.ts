@@ -0,0 +1,74 @@
+import {
+  formatAxisLabel,
+  calculateYAxisLabelWidth,
+  buildYAxisLabels,
+  buildXAxisLabelLine,
+} from '../src/core/axis';
+
+describe('axis utilities', () => {
+  describe('formatAxisLabel', () => {
+    it('should format integers, decimals and large numbers', () => {
+      expect(formatAxisLabel(42, 1)).toBe('42');
+      expect(formatAxisLabel(2.345, 1)).toBe('2.35');
+      expect(formatAxisLabel(5000, 1)).toBe('5000');
+    });
+
+    it('should keep decimal ticks and abbreviate ten thousands and above', () => {
+      expect(formatAxisLabel(0.25, 1)).toBe('0.25');
+      expect(formatAxisLabel(15000, 1)).toBe('15k');
+      expect(formatAxisLabel(-2500000, 1)).toBe('-2.5M');
+    });
+
+    it('should pad to the requested width', () => {
+      expect(formatAxisLabel(7, 4)).toBe('   7');
+    });
+  });
+
+  describe('calculateYAxisLabelWidth', () => {
+    it('should use min/max when no labels are given', () => {
+      expect(calculateYAxisLabelWidth(0, 100)).toBe(3);
+    });
+
+    it('should use the widest provided label', () => {
+      expect(calculateYAxisLabelWidth(0, 1, ['Low', 'Medium'])).toBe(6);
+    });
+  });
+
+  describe('buildYAxisLabels', () => {
+    it('should place max on top and min at the bottom by default', () => {
+      expect(buildYAxisLabels(3, 3, 0, 100)).toEqual(['100', '   ', '  0']);
+    });
+
+    it('should position numeric labels by value and skip out-of-range ones', () => {
+      expect(buildYAxisLabels(3, 3, 0, 100, [50, 200])).toEqual(['   ', ' 50', '   ']);
+    });
+
+    it('should distribute string labels evenly', () => {
+      expect(buildYAxisLabels(3, 4, 0, 1, ['Hi', 'Lo'])).toEqual(['  Hi', '    ', '  Lo']);
+    });
+
+    it('should pad labels on the right when left-aligned', () => {
+      expect(buildYAxisLabels(3, 3, 0, 100, undefined, undefined, 'left')).toEqual(['100', '   ', '0  ']);
+      expect(buildYAxisLabels(3, 4, 0, 100, [50], undefined, 'left')).toEqual(['    ', '50  ', '    ']);
+      expect(buildYAxisLabels(2, 4, 0, 1, ['Hi', 'Lo'], undefined, 'left')).toEqual(['Hi  ', 'Lo  ']);
+    });
+  });
+
+  describe('buildXAxisLabelLine', () => {
+    it('should distribute string labels evenly', () => {
+      expect(buildXAxisLabelLine(['A', 'B', 'C'], 5)).toBe('A B C');
+    });
+
+    it('should place numeric labels relative to their own extent', () => {
+      expect(buildXAxisLabelLine([10, 20], 6)).toBe('10  20');
+    });
+
+    it('should place numeric labels within a given domain', () => {
+      expect(buildXAxisLabelLine([50], 11, [0, 100])).toBe('    50     ');
+    });
+
+    it('should skip numeric labels outside the domain', () => {
+      expect(buildXAxisLabelLine([50, 150], 11, [0, 100])).toBe('    50     ');
+    });
+  });
+});
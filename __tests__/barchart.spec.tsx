@@ -6,12 +6,19 @@ jest.mock('ink', () => ({
   Box: ({ children }: any) => React.createElement('div', {}, children),
 }));
 
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
 // Mock useAutoWidth hook
 jest.mock('../src/core/useAutoWidth.js', () => ({
   useAutoWidth: () => ({ width: 80, isAutoWidth: true }),
 }));
 
 import { BarChart, BarChartData } from '../src/components/BarChart.js';
+import { highContrastTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
 
 describe('BarChart Component', () => {
   // Execute the component function directly to trigger internal logic
@@ -143,4 +150,381 @@ describe('BarChart Component', () => {
     
     expect(result).not.toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should take the default bar character and label style from the active theme', () => {
+    const result = withChartTheme(highContrastTheme, () =>
+      executeComponent({ data: [{ label: 'A', value: 4 }], width: 10, orientation: 'vertical', height: 1 })
+    );
+
+    expect(result.props.children[0][0].props.children[0]).toContain('█');
+    expect(result.props.children[1].props.color).toBe('whiteBright');
+  });
+
+  describe('Vertical orientation', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const getLines = (result: any): string[] => [
+      ...result.props.children[0].map(collect),
+      collect(result.props.children[1]),
+    ];
+
+    it('should draw columns upward with values on top and labels below', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 4 }, { label: 'B', value: 8 }],
+        orientation: 'vertical',
+        height: 2,
+        showValue: 'right',
+      });
+
+      expect(getLines(result)).toEqual([
+        '  8',
+        '4 █',
+        '█ █',
+        'A B',
+      ]);
+    });
+
+    it('should use eighth blocks for sub-cell precision', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 3 }, { label: 'B', value: 8 }],
+        orientation: 'vertical',
+        height: 1,
+      });
+
+      // 3/8 of 8 levels → floor(0.375 * 7) + 1 = 3 eighths
+      expect(getLines(result)[0]).toBe('▃ █');
+    });
+
+    it('should omit the value row when showValue is none', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 1 }],
+        orientation: 'vertical',
+        height: 3,
+      });
+
+      expect(result.props.children[0]).toHaveLength(3);
+    });
+
+    it('should leave non-positive values without a column', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 0 }, { label: 'B', value: 5 }],
+        orientation: 'vertical',
+        height: 1,
+        showValue: 'right',
+      });
+
+      expect(getLines(result)).toEqual(['  5', '0 █', 'A B']);
+    });
+
+    it('should clamp negative values to 0 with their value on the bottom row', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -3 }, { label: 'B', value: 5 }],
+        orientation: 'vertical',
+        height: 1,
+        showValue: 'right',
+      });
+
+      // Both columns are as wide as the '-3' value
+      expect(getLines(result)).toEqual(['   5 ', '-3 ██', 'A  B ']);
+    });
+
+    it('should still render labels and values when every value is negative', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -3 }, { label: 'B', value: -5 }],
+        orientation: 'vertical',
+        height: 2,
+        showValue: 'right',
+      });
+
+      expect(getLines(result)).toEqual(['     ', '     ', '-3 -5', 'A  B ']);
+    });
+
+    it('should split a fixed width between columns', () => {
+      const result = executeComponent({
+        data: [{ label: 'Mon', value: 5 }, { label: 'Tue', value: 10 }],
+        orientation: 'vertical',
+        height: 1,
+        width: 9,
+      });
+
+      // (9 - 1 gap) / 2 columns = 4 characters each
+      const lines = getLines(result);
+      expect(lines[0]).toBe('▄▄▄▄ ████');
+      expect(lines[1]).toBe('Mon  Tue ');
+    });
+
+    it('should truncate labels to the column width', () => {
+      const result = executeComponent({
+        data: [{ label: 'January', value: 5 }, { label: 'February', value: 10 }],
+        orientation: 'vertical',
+        height: 1,
+        width: 9,
+      });
+
+      expect(getLines(result)[1]).toBe('Jan… Feb…');
+    });
+
+    it('should size auto-width columns to the widest label or value', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 1000 }, { label: 'B', value: 10 }],
+        orientation: 'vertical',
+        height: 1,
+        showValue: 'right',
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toBe('1000  10 ');
+      expect(lines[2]).toBe(' A    B  ');
+    });
+
+    it('should color each column individually', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 1, color: 'red' }, { label: 'B', value: 2 }],
+        orientation: 'vertical',
+        height: 1,
+        color: 'blue',
+      });
+
+      const segments = result.props.children[0][0].props.children;
+      expect(segments[0].props.color).toBe('red');
+      expect(segments[1].props.color).toBe('blue');
+    });
+  });
+
+  describe('Negative values', () => {
+    const getRows = (result: any): string[] =>
+      result.props.children.map((row: any) => row.props.children);
+
+    it('should grow negative bars left and positive bars right of a zero baseline', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -4 }, { label: 'B', value: 8 }],
+      });
+
+      // Auto width: 20 character bar area → 9 characters per side plus the baseline
+      expect(getRows(result)).toEqual([
+        'A      ▆▆▆▆│',
+        'B          │▆▆▆▆▆▆▆▆▆',
+      ]);
+    });
+
+    it('should keep the baseline aligned for labels of different widths', () => {
+      const result = executeComponent({
+        data: [{ label: 'Up', value: 1 }, { label: 'Down', value: -1 }],
+      });
+
+      const rows = getRows(result);
+      expect(rows[0]!.indexOf('│')).toBe(rows[1]!.indexOf('│'));
+    });
+
+    it('should render if every value is negative', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -2 }, { label: 'B', value: -1 }],
+      });
+
+      expect(result).not.toBeNull();
+      expect(getRows(result)[0]).toBe('A ▆▆▆▆▆▆▆▆▆│');
+    });
+
+    it('should scale both sides against a fixed max and clamp overflowing bars', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -20 }, { label: 'B', value: 5 }],
+        max: 10,
+      });
+
+      const rows = getRows(result);
+      expect(rows[0]).toBe('A ▆▆▆▆▆▆▆▆▆│');
+      expect(rows[1]).toBe('B          │▆▆▆▆');
+    });
+
+    it('should draw only the baseline for zero values', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 0 }, { label: 'B', value: -3 }],
+      });
+
+      expect(getRows(result)[0]).toBe('A          │');
+    });
+
+    it('should fit the diverging bar area within a fixed width', () => {
+      const result = executeComponent({
+        data: [{ label: 'Gain', value: 5 }, { label: 'Loss', value: -5 }],
+        width: 30,
+        showValue: 'right',
+      });
+
+      const rows = getRows(result);
+      expect(rows[0]).toBe('Gain           │▆▆▆▆▆▆▆▆▆▆   5');
+      expect(rows[1]).toBe('Loss ▆▆▆▆▆▆▆▆▆▆│            -5');
+      rows.forEach(row => expect(row.length).toBeLessThanOrEqual(30));
+    });
+
+    it('should apply separate colors to each side', () => {
+      const result = executeComponent({
+        data: [
+          { label: 'A', value: 3 },
+          { label: 'B', value: -3 },
+          { label: 'C', value: -1, color: 'yellow' },
+        ],
+        positiveColor: 'green',
+        negativeColor: 'red',
+      });
+
+      const colors = result.props.children.map((row: any) => row.props.color);
+      expect(colors).toEqual(['green', 'red', 'yellow']);
+    });
+
+    it('should fall back to the default color when side colors are not set', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 3 }, { label: 'B', value: -3 }],
+        negativeColor: 'red',
+        color: 'blue',
+      });
+
+      const colors = result.props.children.map((row: any) => row.props.color);
+      expect(colors).toEqual(['blue', 'red']);
+    });
+
+    it('should ignore side colors when no value is negative', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 3 }, { label: 'B', value: 0 }],
+        positiveColor: 'green',
+        negativeColor: 'red',
+        color: 'blue',
+      });
+
+      const colors = result.props.children.map((row: any) => row.props.color);
+      expect(colors).toEqual(['blue', 'blue']);
+    });
+  });
+
+  describe('Scale', () => {
+    const barLengths = (result: any): number[] =>
+      result.props.children.map((row: any) => (row.props.children.match(/▆/g) || []).length);
+
+    it('should scale bars linearly by default', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 10 }, { label: 'B', value: 100 }],
+      });
+
+      expect(barLengths(result)).toEqual([2, 20]);
+    });
+
+    it('should space orders of magnitude evenly on a log scale', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 1 }, { label: 'B', value: 10 }, { label: 'C', value: 100 }],
+        scale: 'log',
+      });
+
+      // Domain starts at 1: the smallest bar keeps its minimum length of 1
+      expect(barLengths(result)).toEqual([1, 10, 20]);
+    });
+
+    it('should expand small values on a sqrt scale', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 25 }, { label: 'B', value: 100 }],
+        scale: 'sqrt',
+      });
+
+      expect(barLengths(result)).toEqual([10, 20]);
+    });
+
+    it('should keep the sign of diverging bars on a symlog scale', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: -1000 }, { label: 'B', value: 1000 }],
+        scale: 'symlog',
+      });
+
+      const rows = result.props.children.map((row: any) => row.props.children);
+      expect(rows[0]).toBe('A ▆▆▆▆▆▆▆▆▆│');
+      expect(rows[1]).toBe('B          │▆▆▆▆▆▆▆▆▆');
+    });
+
+    it('should apply the scale to vertical columns', () => {
+      const collect = (node: any): string => {
+        if (node === null || node === undefined || typeof node === 'boolean') return '';
+        if (typeof node === 'string' || typeof node === 'number') return String(node);
+        if (Array.isArray(node)) return node.map(collect).join('');
+        return collect(node.props?.children);
+      };
+      const columnRows = (scale: 'linear' | 'log') => executeComponent({
+        data: [{ label: 'A', value: 30 }, { label: 'B', value: 1000 }],
+        orientation: 'vertical',
+        height: 2,
+        scale,
+      }).props.children[0].map(collect);
+
+      expect(columnRows('linear')).toEqual(['  █', '▁ █']);
+      // log10(30 / 10) / log10(1000 / 10) ≈ 0.24 of the height
+      expect(columnRows('log')).toEqual(['  █', '▄ █']);
+    });
+  });
+
+  describe('Missing values', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+
+    it('should render an n/a row for missing values', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 10 }, { label: 'B', value: null }, { label: 'C', value: NaN }],
+        showValue: 'right',
+      });
+
+      const rows = result.props.children;
+      expect(collect(rows[1])).toBe('B n/a');
+      expect(collect(rows[2])).toBe('C n/a');
+      expect(rows[1].props.dimColor).toBe(true);
+    });
+
+    it('should scale bars from present values only', () => {
+      const withMissing = executeComponent({ data: [{ label: 'A', value: 10 }, { label: 'B', value: null }] });
+      const without = executeComponent({ data: [{ label: 'A', value: 10 }] });
+      expect(collect(withMissing.props.children[0])).toBe(collect(without.props.children[0]));
+    });
+
+    it('should sort missing values last', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: null }, { label: 'B', value: 5 }, { label: 'C', value: 8 }],
+        sort: 'asc',
+      });
+      expect(result.props.children.map((row: any) => collect(row)[0])).toEqual(['B', 'C', 'A']);
+    });
+
+    it('should use a custom missing label within a fixed width', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 10 }, { label: 'B', value: null }],
+        width: 20,
+        missingLabel: 'no data',
+      });
+      expect(collect(result.props.children[1])).toBe('B no data');
+    });
+
+    it('should show the missing label below an empty vertical column', () => {
+      const result = executeComponent({
+        data: [{ label: 'A', value: 8 }, { label: 'B', value: null }],
+        orientation: 'vertical',
+        height: 2,
+      });
+
+      // Columns are wide enough for the missing label
+      expect(result.props.children[0].map(collect)).toEqual(['███    ', '███ n/a']);
+    });
+
+    it('should list missing labels when every value is missing', () => {
+      const result = executeComponent({ data: [{ label: 'A', value: null }, { label: 'B', value: NaN }] });
+      expect(result.props.children.map(collect)).toEqual(['A n/a', 'B n/a']);
+
+      const fixed = executeComponent({ data: [{ label: 'A', value: null }], width: 20 });
+      expect(collect(fixed.props.children[0])).toBe('A n/a');
+
+      const vertical = executeComponent({ data: [{ label: 'A', value: null }], orientation: 'vertical', height: 1 });
+      expect([...vertical.props.children[0].map(collect), collect(vertical.props.children[1])]).toEqual(['n/a', ' A ']);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { computeBins, MAX_BINS } from '../src/binning';
+
+describe('computeBins', () => {
+  it('should return an empty array for empty or non-finite input', () => {
+    expect(computeBins([])).toEqual([]);
+    expect(computeBins([NaN, Infinity])).toEqual([]);
+  });
+
+  it('should return a single bin when all values are equal', () => {
+    expect(computeBins([3, 3, 3])).toEqual([{ x0: 3, x1: 3, count: 3 }]);
+  });
+
+  it('should split the range into a fixed number of bins', () => {
+    expect(computeBins([1, 2, 2, 3, 9], { bins: 2 })).toEqual([
+      { x0: 1, x1: 5, count: 4 },
+      { x0: 5, x1: 9, count: 1 },
+    ]);
+  });
+
+  it('should include the maximum value in the last bin', () => {
+    const bins = computeBins([0, 10], { bins: 5 });
+    expect(bins).toHaveLength(5);
+    expect(bins[4]).toEqual({ x0: 8, x1: 10, count: 1 });
+  });
+
+  it('should align fixed bin widths to multiples of the width', () => {
+    expect(computeBins([1, 2, 12], { binWidth: 5 })).toEqual([
+      { x0: 0, x1: 5, count: 2 },
+      { x0: 5, x1: 10, count: 0 },
+      { x0: 10, x1: 15, count: 1 },
+    ]);
+  });
+
+  it('should prefer binWidth over bins', () => {
+    expect(computeBins([0, 4, 8], { bins: 10, binWidth: 4 })).toHaveLength(3);
+  });
+
+  it('should use Sturges rule by default', () => {
+    // 16 samples: ceil(log2(16)) + 1 = 5 bins
+    const values = Array.from({ length: 16 }, (_, i) => i);
+    expect(computeBins(values)).toHaveLength(5);
+  });
+
+  it('should use Freedman-Diaconis rule when requested', () => {
+    // IQR = 3.5, n = 8, width = 2 * 3.5 / 2 = 3.5, range = 7 → 2 bins
+    const values = [0, 1, 2, 3, 4, 5, 6, 7];
+    const bins = computeBins(values, { bins: 'freedman-diaconis' });
+    expect(bins).toHaveLength(2);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(8);
+  });
+
+  it('should fall back to Sturges when the IQR is zero', () => {
+    const values = [5, 5, 5, 5, 5, 5, 5, 100];
+    expect(computeBins(values, { bins: 'freedman-diaconis' })).toHaveLength(4);
+  });
+
+  it('should cap the Freedman-Diaconis bin count for extreme outliers', () => {
+    const latencies = Array.from({ length: 1000 }, (_, i) => 100 + (i % 50));
+    const bins = computeBins([...latencies, 1e7], { bins: 'freedman-diaconis' });
+    expect(bins).toHaveLength(MAX_BINS);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(1001);
+    expect(bins[bins.length - 1]!.count).toBe(1);
+  });
+
+  it('should cap explicit bin counts', () => {
+    expect(computeBins([0, 1], { bins: 1e9 })).toHaveLength(MAX_BINS);
+    expect(computeBins([0, 1], { bins: Infinity })).toHaveLength(MAX_BINS);
+  });
+
+  it('should widen a tiny fixed bin width to a multiple of itself', () => {
+    const bins = computeBins([0, 1e6], { binWidth: 1 });
+    expect(bins.length).toBeLessThanOrEqual(MAX_BINS);
+    expect(bins[0]).toMatchObject({ x0: 0, x1: 1001 });
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(2);
+  });
+
+  it('should count every finite sample exactly once', () => {
+    const values = [0.5, 1.5, 2.5, NaN, 3.5, 100];
+    const total = computeBins(values, { bins: 7 }).reduce((sum, bin) => sum + bin.count, 0);
+    expect(total).toBe(5);
+  });
+});
@@ -0,0 +1,182 @@
+import React from 'react';
+
+// Mock Ink components
+jest.mock('ink', () => ({
+  Text: ({ children, color }: any) => React.createElement('span', { 'data-color': color }, children),
+  Box: ({ children }: any) => React.createElement('div', {}, children),
+}));
+
+import { Canvas, BrailleCanvas } from '../src/core/canvas.js';
+
+describe('Canvas', () => {
+  describe('cells and pixels', () => {
+    it('should start with empty cells', () => {
+      const canvas = new Canvas(3, 2);
+      expect(canvas.toStrings()).toEqual(['   ', '   ']);
+      expect(canvas.pixelWidth).toBe(3);
+      expect(canvas.pixelHeight).toBe(2);
+    });
+
+    it('should set pixels with the pixel character and color', () => {
+      const canvas = new Canvas(3, 1);
+      canvas.setPixel(1, 0, 'red');
+      expect(canvas.toStrings()).toEqual([' █ ']);
+      expect(canvas.getCell(1, 0)).toEqual({ char: '█', color: 'red' });
+    });
+
+    it('should support a custom pixel character', () => {
+      const canvas = new Canvas(2, 1, '•');
+      canvas.setPixel(0, 0);
+      expect(canvas.toStrings()).toEqual(['• ']);
+    });
+
+    it('should ignore drawing outside the bounds', () => {
+      const canvas = new Canvas(2, 2);
+      expect(() => {
+        canvas.setPixel(-1, 0);
+        canvas.setPixel(5, 5);
+        canvas.setCell(2, 0, 'x');
+      }).not.toThrow();
+      expect(canvas.toStrings()).toEqual(['  ', '  ']);
+    });
+
+    it('should round fractional coordinates', () => {
+      const canvas = new Canvas(4, 2, '#');
+      canvas.setPixel(0.6, 0.4);
+      canvas.setCell(2.4, 1.4, 'x');
+      canvas.text(1.6, 0.2, 'ab');
+      expect(canvas.toStrings()).toEqual([' #ab', '  x ']);
+    });
+
+    it('should ignore non-finite and far out-of-range coordinates', () => {
+      const canvas = new Canvas(2, 2);
+      expect(() => {
+        canvas.setPixel(NaN, 0);
+        canvas.setCell(0, Infinity, 'x');
+        canvas.text(-Infinity, 0, 'ab');
+        canvas.rect(-1e9, -1e9, 2e9 + 1, 2e9 + 1, { fill: true });
+      }).not.toThrow();
+      expect(canvas.toStrings()).toEqual(['██', '██']);
+    });
+
+    it('should overwrite earlier drawing', () => {
+      const canvas = new Canvas(1, 1);
+      canvas.setCell(0, 0, 'a', 'red');
+      canvas.setCell(0, 0, 'b', 'blue');
+      expect(canvas.getCell(0, 0)).toEqual({ char: 'b', color: 'blue' });
+    });
+  });
+
+  describe('shapes and text', () => {
+    it('should draw horizontal, vertical and diagonal lines', () => {
+      const canvas = new Canvas(4, 4, '#');
+      canvas.line(0, 0, 3, 3);
+      expect(canvas.toStrings()).toEqual(['#   ', ' #  ', '  # ', '   #']);
+    });
+
+    it('should draw outlined rectangles', () => {
+      const canvas = new Canvas(4, 3, '#');
+      canvas.rect(0, 0, 4, 3);
+      expect(canvas.toStrings()).toEqual(['####', '#  #', '####']);
+    });
+
+    it('should draw filled rectangles', () => {
+      const canvas = new Canvas(4, 3, '#');
+      canvas.rect(1, 1, 2, 2, { fill: true });
+      expect(canvas.toStrings()).toEqual(['    ', ' ## ', ' ## ']);
+    });
+
+    it('should write clipped text', () => {
+      const canvas = new Canvas(5, 1);
+      canvas.text(2, 0, 'hello', 'green');
+      expect(canvas.toStrings()).toEqual(['  hel']);
+      expect(canvas.getCell(2, 0)?.color).toBe('green');
+    });
+
+    it('should clear all cells', () => {
+      const canvas = new Canvas(2, 1);
+      canvas.text(0, 0, 'ab', 'red');
+      canvas.clear();
+      expect(canvas.toStrings()).toEqual(['  ']);
+      expect(canvas.getCell(0, 0)?.color).toBeUndefined();
+    });
+  });
+
+  describe('rendering', () => {
+    it('should merge adjacent cells with the same color into segments', () => {
+      const canvas = new Canvas(4, 1);
+      canvas.text(0, 0, 'ab', 'red');
+      canvas.text(2, 0, 'cd', 'blue');
+      const segments = canvas.renderRow(0);
+      expect(segments).toHaveLength(2);
+      expect(segments[0]!.props).toMatchObject({ color: 'red', children: 'ab' });
+      expect(segments[1]!.props).toMatchObject({ color: 'blue', children: 'cd' });
+    });
+
+    it('should render one Text element per row', () => {
+      const canvas = new Canvas(2, 3);
+      expect(canvas.render()).toHaveLength(3);
+    });
+  });
+});
+
+describe('BrailleCanvas', () => {
+  it('should have 2x4 pixels per cell', () => {
+    const canvas = new BrailleCanvas(3, 2);
+    expect(canvas.pixelWidth).toBe(6);
+    expect(canvas.pixelHeight).toBe(8);
+  });
+
+  it('should merge dots within a cell', () => {
+    const canvas = new BrailleCanvas(1, 1);
+    canvas.setPixel(0, 0);
+    canvas.setPixel(1, 3);
+    expect(canvas.toStrings()).toEqual([String.fromCharCode(0x2800 + 0x01 + 0x80)]);
+  });
+
+  it('should fill a cell completely', () => {
+    const canvas = new BrailleCanvas(1, 1);
+    canvas.rect(0, 0, 2, 4, { fill: true });
+    expect(canvas.toStrings()).toEqual(['⣿']);
+  });
+
+  it('should round fractional dot coordinates', () => {
+    const canvas = new BrailleCanvas(2, 1);
+    expect(() => canvas.setPixel(1.5, 2)).not.toThrow();
+    canvas.rect(0.4, 0.4, 1.2, 3.6, { fill: true });
+    expect(canvas.toStrings()).toEqual(['⡇⠄']);
+  });
+
+  it('should ignore dots outside the bounds', () => {
+    const canvas = new BrailleCanvas(1, 1);
+    expect(() => {
+      canvas.setPixel(NaN, NaN);
+      canvas.setPixel(-0.6, 0);
+      canvas.setPixel(2, 0);
+      canvas.setPixel(0, 3.6);
+      canvas.setCell(0.6, 0, 'x');
+    }).not.toThrow();
+    expect(canvas.toStrings()).toEqual([' ']);
+  });
+
+  it('should take the color of the latest drawing operation', () => {
+    const canvas = new BrailleCanvas(1, 1);
+    canvas.setPixel(0, 0, 'red');
+    canvas.setPixel(1, 0, 'blue');
+    expect(canvas.getCell(0, 0)?.color).toBe('blue');
+  });
+
+  it('should draw lines across cells', () => {
+    const canvas = new BrailleCanvas(2, 1);
+    canvas.line(0, 3, 3, 3);
+    expect(canvas.toStrings()).toEqual(['⣀⣀']);
+  });
+
+  it('should replace dots when writing text', () => {
+    const canvas = new BrailleCanvas(2, 1);
+    canvas.rect(0, 0, 4, 4, { fill: true });
+    canvas.text(0, 0, 'x');
+    canvas.setPixel(0, 0);
+    expect(canvas.toStrings()).toEqual(['⠁⣿']);
+  });
+});
@@ -0,0 +1,130 @@
+import { GRADIENT_LEVELS, resetColorDepthCache } from '../src/core/ansi';
+import {
+  createGradientRamp,
+  interpolateColor,
+  parseColor,
+  PERCEPTUAL_RAMPS,
+  rgbToAnsi16,
+  rgbToAnsi256,
+  scaleColorCode,
+} from '../src/core/colorScale';
+
+describe('color scales', () => {
+  describe('parseColor', () => {
+    it('should parse long and short hex codes', () => {
+      expect(parseColor('#ff8800')).toEqual([255, 136, 0]);
+      expect(parseColor('#0F8')).toEqual([0, 255, 136]);
+    });
+
+    it('should parse color names case-insensitively', () => {
+      expect(parseColor('orange')).toEqual([255, 165, 0]);
+      expect(parseColor('cyanBright')).toEqual([0, 255, 255]);
+    });
+
+    it('should reject unknown colors', () => {
+      expect(() => parseColor('#12345')).toThrow(TypeError);
+      expect(() => parseColor('sunset')).toThrow('Unknown color "sunset"');
+    });
+  });
+
+  describe('interpolateColor', () => {
+    it('should interpolate between evenly spaced stops', () => {
+      const stops = [[0, 0, 0], [100, 200, 50], [200, 0, 250]] as const;
+      expect(interpolateColor(stops, 0)).toEqual([0, 0, 0]);
+      expect(interpolateColor(stops, 0.25)).toEqual([50, 100, 25]);
+      expect(interpolateColor(stops, 0.5)).toEqual([100, 200, 50]);
+      expect(interpolateColor(stops, 1)).toEqual([200, 0, 250]);
+    });
+
+    it('should clamp positions and handle a single stop', () => {
+      expect(interpolateColor([[1, 2, 3], [5, 6, 7]], 2)).toEqual([5, 6, 7]);
+      expect(interpolateColor([[1, 2, 3]], 0.7)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('quantization', () => {
+    it('should map colors to the 256-color cube', () => {
+      expect(rgbToAnsi256([255, 0, 0])).toBe(196);
+      expect(rgbToAnsi256([0, 95, 135])).toBe(24);
+    });
+
+    it('should prefer the grayscale ramp for grays', () => {
+      expect(rgbToAnsi256([128, 128, 128])).toBe(244);
+      expect(rgbToAnsi256([8, 8, 8])).toBe(232);
+    });
+
+    it('should map colors to the nearest of 16 colors', () => {
+      expect(rgbToAnsi16([250, 10, 10])).toBe(91);
+      expect(rgbToAnsi16([20, 20, 20])).toBe(30);
+      expect(rgbToAnsi16([0, 190, 200])).toBe(36);
+    });
+  });
+
+  describe('createGradientRamp', () => {
+    it('should sample every level from the stops', () => {
+      const ramp = createGradientRamp(['black', '#ffffff']);
+      expect(ramp.rgb).toHaveLength(GRADIENT_LEVELS);
+      expect(ramp.rgb[0]).toEqual([0, 0, 0]);
+      expect(ramp.rgb[GRADIENT_LEVELS - 1]).toEqual([255, 255, 255]);
+      expect(ramp.ansi256[0]).toBe(16);
+      expect(ramp.ansi256[GRADIENT_LEVELS - 1]).toBe(231);
+      expect(ramp.ansi16).toEqual([90, 37]);
+      expect(ramp.stops).toEqual([[0, 0, 0], [255, 255, 255]]);
+    });
+
+    it('should require at least one stop', () => {
+      expect(() => createGradientRamp([])).toThrow(TypeError);
+    });
+
+    it('should provide the perceptual palettes from dark to light', () => {
+      expect(PERCEPTUAL_RAMPS.viridis.rgb[0]).toEqual([68, 1, 84]);
+      expect(PERCEPTUAL_RAMPS.viridis.rgb[GRADIENT_LEVELS - 1]).toEqual([253, 231, 37]);
+      expect(PERCEPTUAL_RAMPS.magma.rgb[0]).toEqual([0, 0, 4]);
+      expect(PERCEPTUAL_RAMPS.cividis.rgb[GRADIENT_LEVELS - 1]).toEqual([254, 232, 56]);
+    });
+  });
+
+  describe('scaleColorCode', () => {
+    const originalEnv = process.env;
+    const ramp = createGradientRamp(['#000000', '#c8c8c8']);
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      resetColorDepthCache();
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      resetColorDepthCache();
+    });
+
+    it('should interpolate continuously in truecolor', () => {
+      process.env.FORCE_COLOR_DEPTH = '8';
+      expect(scaleColorCode(ramp, 0.5)).toBe('\u001b[38;2;100;100;100m');
+      expect(scaleColorCode(ramp, 0.51, 'background')).toBe('\u001b[48;2;102;102;102m');
+    });
+
+    it('should quantize the interpolated color on 256-color terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '4';
+      expect(scaleColorCode(ramp, 0.5)).toBe('\u001b[38;5;241m');
+    });
+
+    it('should use the 16-color halves on basic terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '1';
+      expect(scaleColorCode(ramp, 0.2)).toBe(`\u001b[${ramp.ansi16[0]}m`);
+      expect(scaleColorCode(ramp, 0.9)).toBe(`\u001b[${ramp.ansi16[1]}m`);
+    });
+
+    it('should return no code when colors are disabled', () => {
+      process.env.FORCE_COLOR_DEPTH = '0';
+      expect(scaleColorCode(ramp, 0.5)).toBe('');
+    });
+
+    it('should use discrete levels for ramps without stops', () => {
+      process.env.FORCE_COLOR_DEPTH = '8';
+      const { stops, ...discrete } = ramp;
+      expect(stops).toBeDefined();
+      expect(scaleColorCode(discrete, 0.5)).toBe(`\u001b[38;2;${discrete.rgb[4]!.join(';')}m`);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { downsample, downsampleLTTB, downsampleMinMax, downsampleMean, type SamplePoint } from '../src/downsample';
+
+describe('downsample functions', () => {
+  const series = (values: number[]): SamplePoint[] => values.map((value, index) => [index, value]);
+
+  describe('downsampleLTTB', () => {
+    it('should keep the first and last points and the threshold count', () => {
+      const points = series(Array.from({ length: 50 }, (_, i) => Math.sin(i / 5)));
+      const result = downsampleLTTB(points, 10);
+
+      expect(result).toHaveLength(10);
+      expect(result[0]).toBe(points[0]);
+      expect(result[9]).toBe(points[49]);
+    });
+
+    it('should select spikes', () => {
+      const points = series(Array.from({ length: 30 }, (_, i) => (i === 17 ? 100 : 1)));
+      expect(downsampleLTTB(points, 5)).toContainEqual([17, 100]);
+    });
+
+    it('should return points in x order', () => {
+      const result = downsampleLTTB(series([3, 1, 4, 1, 5, 9, 2, 6, 5, 3]), 5);
+      const xs = result.map(([x]) => x);
+      expect(xs).toEqual([...xs].sort((a, b) => a - b));
+    });
+
+    it('should return a copy when the points fit or the threshold is invalid', () => {
+      const points = series([1, 2, 3]);
+      expect(downsampleLTTB(points, 5)).toEqual(points);
+      expect(downsampleLTTB(points, 0)).toEqual(points);
+      expect(downsampleLTTB(points, 5)).not.toBe(points);
+    });
+
+    it('should handle thresholds of one and two', () => {
+      const points = series([1, 2, 3, 4]);
+      expect(downsampleLTTB(points, 1)).toEqual([[0, 1]]);
+      expect(downsampleLTTB(points, 2)).toEqual([[0, 1], [3, 4]]);
+    });
+  });
+
+  describe('downsampleMinMax', () => {
+    it('should keep the minimum and maximum of each bucket in order', () => {
+      expect(downsampleMinMax(series([5, 9, 1, 3, 7, 2, 8, 4]), 2)).toEqual([
+        [1, 9],
+        [2, 1],
+        [5, 2],
+        [6, 8],
+      ]);
+    });
+
+    it('should keep a single point for flat buckets', () => {
+      expect(downsampleMinMax(series([2, 2, 2, 2, 2, 2]), 2)).toEqual([[0, 2], [3, 2]]);
+    });
+
+    it('should bucket by x range for irregular x values', () => {
+      const points: SamplePoint[] = [[0, 1], [1, 5], [2, 3], [3, 2], [10, 7]];
+      // The last point alone fills the second bucket
+      expect(downsampleMinMax(points, 2)).toEqual([[0, 1], [1, 5], [10, 7]]);
+    });
+
+    it('should return a copy when the points fit', () => {
+      const points = series([1, 2, 3, 4]);
+      expect(downsampleMinMax(points, 2)).toEqual(points);
+    });
+  });
+
+  describe('downsampleMean', () => {
+    it('should average each bucket', () => {
+      expect(downsampleMean(series([1, 3, 5, 7, 9, 11]), 3)).toEqual([
+        [0.5, 2],
+        [2.5, 6],
+        [4.5, 10],
+      ]);
+    });
+
+    it('should return a copy when the points fit', () => {
+      const points = series([1, 2]);
+      expect(downsampleMean(points, 2)).toEqual(points);
+    });
+  });
+
+  describe('downsample', () => {
+    it('should dispatch to the strategy', () => {
+      const points = series(Array.from({ length: 20 }, (_, i) => (i * 7) % 5));
+      expect(downsample(points, 6, 'lttb')).toEqual(downsampleLTTB(points, 6));
+      expect(downsample(points, 6, 'minmax')).toEqual(downsampleMinMax(points, 6));
+      expect(downsample(points, 6, 'mean')).toEqual(downsampleMean(points, 6));
+    });
+  });
+});
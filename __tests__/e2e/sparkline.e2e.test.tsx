@@ -7,7 +7,7 @@
 import React from 'react';
 import { render } from 'ink-testing-library';
 import { Sparkline } from '../../src/components/Sparkline.js';
-import { hasAnsi, stripAnsi } from '../../src/core/ansi.js';
+import { hasAnsi, resetColorDepthCache, stripAnsi } from '../../src/core/ansi.js';
 
 describe('E2E: Sparkline', () => {
   describe('Block mode output', () => {
@@ -146,6 +146,34 @@ describe('E2E: Sparkline', () => {
     });
   });
 
+  describe('Without colors', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NO_COLOR: '1' };
+      delete process.env.FORCE_COLOR_DEPTH;
+      delete process.env.FORCE_COLOR;
+      resetColorDepthCache();
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      resetColorDepthCache();
+    });
+
+    it('renders plain glyphs for a single threshold when NO_COLOR is set', () => {
+      const { lastFrame } = render(<Sparkline data={[10, 50, 90]} width={3} threshold={50} />);
+      expect(lastFrame()).toBe('▁▄█');
+    });
+
+    it('renders plain glyphs for gradient thresholds when NO_COLOR is set', () => {
+      const { lastFrame } = render(
+        <Sparkline data={[10, 30, 50, 70, 90]} width={5} threshold={[20, 40, 60, 80]} colorScheme="viridis" />
+      );
+      expect(hasAnsi(lastFrame() || '')).toBe(false);
+    });
+  });
+
   describe('Width handling', () => {
     it('respects explicit width setting', () => {
       const { lastFrame } = render(
@@ -0,0 +1,105 @@
+/**
+ * E2E Tests for ChartThemeProvider
+ *
+ * These tests render charts inside a provider with ink-testing-library
+ * and verify that theme glyphs and gradients reach the output.
+ */
+import React from 'react';
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { ChartThemeProvider } from '../../src/components/ChartThemeProvider.js';
+import { BarChart } from '../../src/components/BarChart.js';
+import { LineGraph } from '../../src/components/LineGraph.js';
+import { Sparkline } from '../../src/components/Sparkline.js';
+import { MultiStackedBarChart } from '../../src/components/StackedBarChart.js';
+import { resetColorDepthCache, stripAnsi } from '../../src/core/ansi.js';
+import { useChartTheme } from '../../src/core/useChartTheme.js';
+import { createChartTheme, type ChartTheme } from '../../src/theme.js';
+
+describe('E2E: ChartThemeProvider', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, FORCE_COLOR_DEPTH: '8' };
+    resetColorDepthCache();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    resetColorDepthCache();
+  });
+
+  it('renders with the default glyphs outside a provider', () => {
+    const { lastFrame } = render(<BarChart data={[{ label: 'A', value: 2 }]} width={10} />);
+    expect(lastFrame()).toContain('▆');
+  });
+
+  it('uses the bar glyph of a named theme', () => {
+    const { lastFrame } = render(
+      <ChartThemeProvider theme="highContrast">
+        <BarChart data={[{ label: 'A', value: 2 }]} width={10} />
+      </ChartThemeProvider>
+    );
+    expect(lastFrame()).toContain('█');
+    expect(lastFrame()).not.toContain('▆');
+  });
+
+  it('lets explicit props override the theme', () => {
+    const { lastFrame } = render(
+      <ChartThemeProvider theme="highContrast">
+        <BarChart data={[{ label: 'A', value: 2 }]} width={10} barChar="░" />
+      </ChartThemeProvider>
+    );
+    expect(lastFrame()).toContain('░');
+  });
+
+  it('uses the theme gradients for sparkline thresholds', () => {
+    const { lastFrame } = render(
+      <ChartThemeProvider theme="monochrome">
+        <Sparkline data={[1, 9]} width={2} threshold={[5]} />
+      </ChartThemeProvider>
+    );
+    const output = lastFrame() ?? '';
+    expect(output).toContain('\u001b[38;2;88;88;88m');
+    expect(stripAnsi(output)).toBe('▁█');
+  });
+
+  it('tells segments apart by pattern in the monochrome theme', () => {
+    const { lastFrame } = render(
+      <ChartThemeProvider theme="monochrome">
+        <MultiStackedBarChart
+          data={[{ label: 'api', segments: [{ label: 'pass', value: 1 }, { label: 'fail', value: 1 }] }]}
+          width={12}
+        />
+      </ChartThemeProvider>
+    );
+    const output = lastFrame() ?? '';
+    expect(output).toContain('api ████▓▓▓▓');
+    expect(output).toContain('▓ fail');
+  });
+
+  it('uses the overlay glyphs of a custom theme', () => {
+    const theme = createChartTheme({ glyphs: { referenceLine: '=' } });
+    const { lastFrame } = render(
+      <ChartThemeProvider theme={theme}>
+        <LineGraph data={[{ values: [0, 10] }]} width={6} height={3} referenceLines={[{ y: 5 }]} />
+      </ChartThemeProvider>
+    );
+    expect(lastFrame()).toContain('=');
+  });
+
+  it('returns the same plain theme across renders without colors', () => {
+    process.env = { ...originalEnv, FORCE_COLOR_DEPTH: '0' };
+    resetColorDepthCache();
+    const themes: ChartTheme[] = [];
+    const Probe = ({ frame }: { frame: number }) => {
+      themes.push(useChartTheme());
+      return <Text>{frame}</Text>;
+    };
+    const { rerender } = render(<Probe frame={1} />);
+    rerender(<Probe frame={2} />);
+    expect(themes).toHaveLength(2);
+    expect(themes[0]!.palette).toEqual([]);
+    expect(themes[1]).toBe(themes[0]);
+  });
+});
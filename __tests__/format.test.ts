@@ -0,0 +1,150 @@
+import {
+  formatCompact,
+  formatSI,
+  formatBytes,
+  formatDuration,
+  formatPercent,
+  formatSignificant,
+  formatGrouped
+} from '../src/format';
+
+describe('format functions', () => {
+  describe('formatSignificant', () => {
+    it('should round to significant digits without trailing zeros', () => {
+      expect(formatSignificant(2.345)).toBe('2.35');
+      expect(formatSignificant(0.25)).toBe('0.25');
+      expect(formatSignificant(1.5, 4)).toBe('1.5');
+      expect(formatSignificant(0.1 + 0.2)).toBe('0.3');
+    });
+
+    it('should not use exponent notation for large values', () => {
+      expect(formatSignificant(123456)).toBe('123000');
+    });
+
+    it('should not use exponent notation for small values', () => {
+      expect(formatSignificant(0.000001234)).toBe('0.00000123');
+      expect(formatSignificant(1.5e-7)).toBe('0.00000015');
+      expect(formatSignificant(-2e-9, 2)).toBe('-0.000000002');
+    });
+
+    it('should pass through non-finite values', () => {
+      expect(formatSignificant(NaN)).toBe('NaN');
+      expect(formatSignificant(Infinity)).toBe('Infinity');
+    });
+  });
+
+  describe('formatSI', () => {
+    it('should add SI suffixes from thousands upward', () => {
+      expect(formatSI(1500)).toBe('1.5k');
+      expect(formatSI(2300000)).toBe('2.3M');
+      expect(formatSI(7e9)).toBe('7G');
+      expect(formatSI(-42000)).toBe('-42k');
+    });
+
+    it('should keep values below 1000 without a suffix', () => {
+      expect(formatSI(950)).toBe('950');
+      expect(formatSI(0.125)).toBe('0.125');
+    });
+
+    it('should move to the next suffix when rounding reaches 1000', () => {
+      expect(formatSI(999999)).toBe('1M');
+    });
+
+    it('should honor the number of significant digits', () => {
+      expect(formatSI(1234567, 2)).toBe('1.2M');
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('should use binary units', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KiB');
+      expect(formatBytes(3 * 1024 * 1024)).toBe('3 MiB');
+      expect(formatBytes(5.5 * 1024 ** 3)).toBe('5.5 GiB');
+    });
+
+    it('should move to the next unit when rounding reaches 1024', () => {
+      expect(formatBytes(1023.99, 4)).toBe('1 KiB');
+    });
+  });
+
+  describe('formatDuration', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it('should format milliseconds and seconds', () => {
+      expect(formatDuration(850)).toBe('850ms');
+      expect(formatDuration(0.25)).toBe('0.25ms');
+      expect(formatDuration(1500)).toBe('1.5s');
+    });
+
+    it('should combine two units above a minute', () => {
+      expect(formatDuration(150000)).toBe('2m 30s');
+      expect(formatDuration(120000)).toBe('2m');
+      expect(formatDuration(3900000)).toBe('1h 5m');
+      expect(formatDuration(183600000)).toBe('2d 3h');
+    });
+
+    it('should carry rounding into the larger unit', () => {
+      expect(formatDuration(119999)).toBe('2m');
+    });
+
+    it('should move on to the next unit when rounding reaches it', () => {
+      expect(formatDuration(999.7)).toBe('1s');
+      expect(formatDuration(59960)).toBe('1m');
+      expect(formatDuration(55000, 1)).toBe('1m');
+      expect(formatDuration(3599400)).toBe('59m 59s');
+      expect(formatDuration(3599600)).toBe('1h');
+      expect(formatDuration(DAY_MS - 20000)).toBe('1d');
+    });
+
+    it('should format negative durations', () => {
+      expect(formatDuration(-1500)).toBe('-1.5s');
+    });
+  });
+
+  describe('formatPercent', () => {
+    it('should format ratios as percentages', () => {
+      expect(formatPercent(0.125)).toBe('12.5%');
+      expect(formatPercent(1)).toBe('100.0%');
+      expect(formatPercent(0.5, 0)).toBe('50%');
+    });
+  });
+
+  describe('formatGrouped', () => {
+    it('should group digits for the locale', () => {
+      expect(formatGrouped(12345.678, 'en-US')).toBe('12,345.68');
+      expect(formatGrouped(1234567, 'de-DE')).toBe('1.234.567');
+    });
+
+    it('should honor the maximum number of decimals', () => {
+      expect(formatGrouped(1234.5678, 'en-US', 0)).toBe('1,235');
+    });
+  });
+
+  describe('formatCompact', () => {
+    it('should keep small integers as-is', () => {
+      expect(formatCompact(42)).toBe('42');
+      expect(formatCompact(-7)).toBe('-7');
+      expect(formatCompact(0)).toBe('0');
+    });
+
+    it('should keep three significant digits for decimals', () => {
+      expect(formatCompact(0.25)).toBe('0.25');
+      expect(formatCompact(12.345)).toBe('12.3');
+    });
+
+    it('should keep every integer digit below ten thousand', () => {
+      expect(formatCompact(1234)).toBe('1234');
+      expect(formatCompact(-9999)).toBe('-9999');
+      expect(formatCompact(1234.5)).toBe('1235');
+      expect(formatCompact(999.99)).toBe('1000');
+    });
+
+    it('should abbreviate ten thousands and above', () => {
+      expect(formatCompact(15000)).toBe('15k');
+      expect(formatCompact(10000)).toBe('10k');
+      expect(formatCompact(9999.99)).toBe('10k');
+      expect(formatCompact(2500000)).toBe('2.5M');
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import React from 'react';
+
+// Mock Ink components
+jest.mock('ink', () => ({
+  Text: ({ children, color }: any) => React.createElement('span', { 'data-color': color }, children),
+  Box: ({ children }: any) => React.createElement('div', {}, children),
+}));
+
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
+// Mock useAutoWidth hook
+jest.mock('../src/core/useAutoWidth.js', () => ({
+  useAutoWidth: () => ({ width: 80, isAutoWidth: true }),
+}));
+
+import { GroupedBarChart, GroupedBarChartProps } from '../src/components/GroupedBarChart.js';
+import { Legend } from '../src/components/Legend.js';
+import { lightTheme, monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
+
+describe('GroupedBarChart Component', () => {
+  // Execute the component function directly to trigger internal logic
+  const executeComponent = (props: GroupedBarChartProps) => {
+    const GroupedBarChartFunc = (GroupedBarChart as any).type || GroupedBarChart;
+    return GroupedBarChartFunc(props);
+  };
+
+  const collect = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(collect).join('');
+    return collect(node.props?.children);
+  };
+  const getLines = (result: any): string[] => result.props.children[0].map(collect);
+
+  const series = [{ name: 'main' }, { name: 'PR' }];
+
+  describe('Basic component structure', () => {
+    it('should be a memoized component', () => {
+      expect(GroupedBarChart).toBeDefined();
+      expect(typeof GroupedBarChart).toBe('object');
+    });
+
+    it('should return null for empty data or series', () => {
+      expect(executeComponent({ data: [], series })).toBeNull();
+      expect(executeComponent({ data: [{ label: 'a', values: [1] }], series: [] })).toBeNull();
+    });
+
+    it('should return null when no value is positive', () => {
+      expect(executeComponent({ data: [{ label: 'a', values: [0, 0] }], series })).toBeNull();
+      expect(executeComponent({ data: [{ label: 'a', values: [NaN] }], series })).toBeNull();
+      expect(executeComponent({ data: [{ label: 'a', values: [-3, -1] }], series })).toBeNull();
+    });
+  });
+
+  describe('Bars', () => {
+    it('should draw one bar per series with the group label on the first bar', () => {
+      const result = executeComponent({
+        data: [{ label: 'parse', values: [10, 5] }],
+        series,
+        legend: false,
+      });
+
+      expect(getLines(result)).toEqual([
+        'parse ' + '▆'.repeat(20),
+        '      ' + '▆'.repeat(10),
+      ]);
+    });
+
+    it('should share one scale across groups', () => {
+      const result = executeComponent({
+        data: [
+          { label: 'a', values: [4, 2] },
+          { label: 'b', values: [8, 1] },
+        ],
+        series,
+        groupGap: 0,
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toBe('a ' + '▆'.repeat(10));
+      expect(lines[2]).toBe('b ' + '▆'.repeat(20));
+    });
+
+    it('should separate groups with blank lines', () => {
+      const result = executeComponent({
+        data: [
+          { label: 'a', values: [1, 1] },
+          { label: 'b', values: [1, 1] },
+        ],
+        series,
+        groupGap: 2,
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      expect(lines).toHaveLength(6);
+      expect(lines[2]!.trim()).toBe('');
+      expect(lines[3]!.trim()).toBe('');
+    });
+
+    it('should align values in a single column', () => {
+      const result = executeComponent({
+        data: [
+          { label: 'short', values: [100, 50] },
+          { label: 'a longer label', values: [7, 25] },
+        ],
+        series,
+        showValue: 'right',
+        width: 40,
+        groupGap: 0,
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      lines.forEach(line => expect(line).toHaveLength(40));
+      expect(lines[0]!.endsWith(' 100')).toBe(true);
+      expect(lines[3]!.endsWith('  25')).toBe(true);
+    });
+
+    it('should leave missing values without a bar', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [4] }],
+        series,
+        showValue: 'right',
+        legend: false,
+      });
+
+      expect(getLines(result)[1]!.trim()).toBe('');
+    });
+
+    it('should show negative values without a bar', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [4, -2] }],
+        series,
+        showValue: 'right',
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toContain('▆');
+      expect(lines[1]).not.toContain('▆');
+      expect(lines[1]!.endsWith('-2')).toBe(true);
+    });
+
+    it('should clamp bars to a fixed max', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [20, 5] }],
+        series,
+        max: 10,
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toBe('a ' + '▆'.repeat(20));
+      expect(lines[1]).toBe('  ' + '▆'.repeat(10));
+    });
+
+    it('should use per-series characters', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [1, 1] }],
+        series: [{ name: 'main', char: '░' }, { name: 'PR' }],
+        barChar: '█',
+        legend: false,
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toContain('░');
+      expect(lines[1]).toContain('█');
+    });
+
+    it('should tell series apart by fill pattern when patterns are enabled', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [1, 1, 1] }],
+        series: [{ name: 'main' }, { name: 'PR' }, { name: 'base', char: '▪' }],
+        patterns: true,
+      });
+
+      const lines = getLines(result);
+      expect(lines[0]).toBe('a ' + '█'.repeat(20));
+      expect(lines[1]).toBe('  ' + '▓'.repeat(20));
+      expect(lines[2]).toBe('  ' + '▪'.repeat(20));
+      expect(result.props.children[1].props.items.map((item: any) => item.marker)).toEqual(['█', '▓', '▪']);
+    });
+  });
+
+  describe('Colors and legend', () => {
+    it('should keep series colors consistent across groups', () => {
+      const result = executeComponent({
+        data: [
+          { label: 'a', values: [1, 2] },
+          { label: 'b', values: [3, 4] },
+        ],
+        series: [{ name: 'main', color: 'gray' }, { name: 'PR' }],
+        groupGap: 0,
+      });
+
+      const barColors = result.props.children[0].map((line: any) => line.props.children[2].props.color);
+      expect(barColors).toEqual(['gray', '#56B4E9', 'gray', '#56B4E9']);
+    });
+
+    it('should take default series colors from the active theme palette', () => {
+      const result = withChartTheme(lightTheme, () =>
+        executeComponent({ data: [{ label: 'a', values: [1, 2] }], series })
+      );
+
+      const barColors = result.props.children[0].map((line: any) => line.props.children[2].props.color);
+      expect(barColors).toEqual(['#0072B2', '#D55E00']);
+    });
+
+    it('should use fill patterns and no colors under the monochrome theme', () => {
+      const result = withChartTheme(monochromeTheme, () =>
+        executeComponent({ data: [{ label: 'a', values: [1, 1] }], series, legend: false })
+      );
+
+      const lines = getLines(result);
+      expect(lines[0]).toBe('a ' + '█'.repeat(20));
+      expect(lines[1]).toBe('  ' + '▓'.repeat(20));
+      expect(result.props.children[0][0].props.children[2].props.color).toBeUndefined();
+    });
+
+    it('should render a legend with each series name and color', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [1, 2] }],
+        series: [{ name: 'main', color: 'gray' }, { name: 'PR', color: 'cyan' }],
+      });
+
+      const legend = result.props.children[1];
+      expect(legend.type).toBe(Legend);
+      expect(legend.props.layout).toBe('horizontal');
+      expect(legend.props.items).toEqual([
+        { name: 'main', color: 'gray', marker: '▆' },
+        { name: 'PR', color: 'cyan', marker: '▆' },
+      ]);
+    });
+
+    it('should render a vertical legend', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [1, 2] }],
+        series,
+        legend: 'vertical',
+      });
+
+      expect(result.props.children[1].props.layout).toBe('vertical');
+    });
+
+    it('should hide the legend when legend is false', () => {
+      const result = executeComponent({
+        data: [{ label: 'a', values: [1, 2] }],
+        series,
+        legend: false,
+      });
+
+      expect(result.props.children[1]).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import React from 'react';
+
+// Mock Ink components
+jest.mock('ink', () => ({
+  Text: ({ children, color }: any) => React.createElement('span', { 'data-color': color }, children),
+  Box: ({ children }: any) => React.createElement('div', {}, children),
+}));
+
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
+import { Heatmap, HeatmapProps } from '../src/components/Heatmap.js';
+import { resetColorDepthCache, stripAnsi } from '../src/core/ansi.js';
+import { monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
+
+describe('Heatmap Component', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, FORCE_COLOR_DEPTH: '8' };
+    resetColorDepthCache();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    resetColorDepthCache();
+  });
+
+  // Execute the component function directly to trigger internal logic
+  const executeComponent = (props: HeatmapProps) => {
+    const HeatmapFunc = (Heatmap as any).type || Heatmap;
+    return HeatmapFunc(props);
+  };
+
+  // Collect the raw text (including ANSI codes) of a rendered node
+  const collect = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(collect).join('');
+    return collect(node.props?.children);
+  };
+  const getRows = (result: any): string[] => result.props.children[0].map(collect);
+
+  describe('Basic component structure', () => {
+    it('should return a React element for valid data', () => {
+      expect(executeComponent({ data: [[1, 2], [3, 4]] })).not.toBeNull();
+    });
+
+    it('should return null for empty or invalid data', () => {
+      expect(executeComponent({ data: [] })).toBeNull();
+      expect(executeComponent({ data: [[]] })).toBeNull();
+      expect(executeComponent({ data: [[NaN, Infinity]] })).toBeNull();
+    });
+  });
+
+  describe('Block mode', () => {
+    it('should render one line per row with cellWidth blocks', () => {
+      const rows = getRows(executeComponent({ data: [[1, 2], [3, 4]], cellWidth: 3 }));
+      expect(rows).toHaveLength(2);
+      expect(stripAnsi(rows[0]!)).toBe('██████');
+    });
+
+    it('should map min and max onto the lightest and darkest colors', () => {
+      const rows = getRows(executeComponent({ data: [[0, 100]], colorScheme: 'red', cellWidth: 1 }));
+      expect(rows[0]).toContain('\u001b[38;2;255;200;200m█');
+      expect(rows[0]).toContain('\u001b[38;2;220;50;50m█');
+    });
+
+    it('should leave missing values blank', () => {
+      const rows = getRows(executeComponent({ data: [[1, NaN, 3], [4]], cellWidth: 1 }));
+      expect(stripAnsi(rows[0]!)).toBe('█ █');
+      expect(stripAnsi(rows[1]!)).toBe('█  ');
+    });
+
+    it('should pad row labels to a common width', () => {
+      const rows = getRows(executeComponent({ data: [[1], [2]], rowLabels: ['A', 'Long'], cellWidth: 1 }));
+      expect(stripAnsi(rows[0]!)).toBe('A    █');
+      expect(stripAnsi(rows[1]!)).toBe('Long █');
+    });
+  });
+
+  describe('Half mode', () => {
+    it('should pack two data rows into each line', () => {
+      const rows = getRows(executeComponent({ data: [[1], [2], [3]], mode: 'half', cellWidth: 1 }));
+      expect(rows).toHaveLength(2);
+      expect(stripAnsi(rows[0]!)).toBe('▀');
+      expect(stripAnsi(rows[1]!)).toBe('▀');
+    });
+
+    it('should use foreground for the upper row and background for the lower row', () => {
+      const rows = getRows(executeComponent({ data: [[0], [100]], mode: 'half', cellWidth: 1, colorScheme: 'green' }));
+      expect(rows[0]).toBe('\u001b[38;2;200;255;200m\u001b[48;2;50;180;50m▀\u001b[0m');
+    });
+
+    it('should join the labels of both rows in each line', () => {
+      const rows = getRows(executeComponent({
+        data: [[1], [2], [3]],
+        rowLabels: ['Mon', 'Tue', 'Wed'],
+        mode: 'half',
+        cellWidth: 1,
+      }));
+      expect(rows.map(row => stripAnsi(row))).toEqual(['Mon/Tue ▀', 'Wed     ▀']);
+    });
+
+    it('should use the lower half block when only the lower value exists', () => {
+      const rows = getRows(executeComponent({ data: [[NaN, 1], [5, 2]], mode: 'half', cellWidth: 1 }));
+      expect(stripAnsi(rows[0]!)).toBe('▄▀');
+    });
+  });
+
+  describe('Continuous color schemes', () => {
+    it('should interpolate a color for every value with a perceptual palette', () => {
+      const rows = getRows(executeComponent({ data: [[0, 50, 100]], colorScheme: 'viridis', cellWidth: 1 }));
+      expect(rows[0]).toBe(
+        '\u001b[38;2;68;1;84m█\u001b[0m\u001b[38;2;33;145;140m█\u001b[0m\u001b[38;2;253;231;37m█\u001b[0m'
+      );
+    });
+
+    it('should accept custom stops as hex codes or color names', () => {
+      const rows = getRows(executeComponent({ data: [[0, 1, 4]], colorScheme: ['#000000', 'white'], cellWidth: 1 }));
+      expect(rows[0]).toContain('\u001b[38;2;0;0;0m█');
+      expect(rows[0]).toContain('\u001b[38;2;57;57;57m█');
+      expect(rows[0]).toContain('\u001b[38;2;229;229;229m█');
+    });
+
+    it('should quantize to the 256-color palette', () => {
+      process.env.FORCE_COLOR_DEPTH = '4';
+      resetColorDepthCache();
+      const rows = getRows(executeComponent({ data: [[0, 100]], colorScheme: 'magma', cellWidth: 1 }));
+      expect(rows[0]).toContain('\u001b[38;5;16m');
+      expect(rows[0]).toContain('\u001b[38;5;229m');
+    });
+  });
+
+  describe('Themes', () => {
+    it('should take the gradient from the active theme', () => {
+      const rows = withChartTheme(monochromeTheme, () =>
+        getRows(executeComponent({ data: [[0, 100]], colorScheme: 'red', cellWidth: 1 }))
+      );
+      expect(rows[0]).toBe('\u001b[38;2;88;88;88m█\u001b[0m\u001b[38;2;255;255;255m█\u001b[0m');
+    });
+  });
+
+  describe('Color depth degradation', () => {
+    it('should use 256-color codes on 256-color terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '4';
+      resetColorDepthCache();
+      const rows = getRows(executeComponent({ data: [[0, 100]], colorScheme: 'blue', cellWidth: 1 }));
+      expect(rows[0]).toContain('\u001b[38;5;189m');
+      expect(rows[0]).toContain('\u001b[38;5;57m');
+    });
+
+    it('should use basic background colors on 16-color terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '1';
+      resetColorDepthCache();
+      const rows = getRows(executeComponent({ data: [[0], [100]], mode: 'half', colorScheme: 'red', cellWidth: 1 }));
+      expect(rows[0]).toBe('\u001b[91m\u001b[41m▀\u001b[0m');
+    });
+
+    it('should shade cells without escape codes when colors are disabled', () => {
+      process.env.FORCE_COLOR_DEPTH = '0';
+      resetColorDepthCache();
+      const result = executeComponent({ data: [[0, 40, 60, 100]], cellWidth: 1 });
+      expect(getRows(result)).toEqual(['░▒▓█']);
+      expect(collect(result)).toContain('0 ░░▒▒▓▓██ 100');
+
+      const half = executeComponent({ data: [[0, 100], [100, NaN]], mode: 'half', cellWidth: 1, showLegend: false });
+      expect(getRows(half)).toEqual(['▓█']);
+    });
+  });
+
+  describe('Labels and legend', () => {
+    it('should render truncated column labels aligned with cells', () => {
+      const result = executeComponent({
+        data: [[1, 2]],
+        rowLabels: ['R'],
+        columnLabels: ['AB', 'Long label'],
+        cellWidth: 3,
+      });
+      expect(collect(result.props.children[1])).toBe('  AB Lo…');
+    });
+
+    it('should render a legend with every gradient level', () => {
+      const result = executeComponent({ data: [[0, 10]], format: v => `${v}ms` });
+      expect(stripAnsi(collect(result.props.children[2]))).toBe('0ms ████████ 10ms');
+    });
+
+    it('should hide the legend when showLegend is false', () => {
+      const result = executeComponent({ data: [[0, 10]], showLegend: false });
+      expect(result.props.children[2]).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { darkTheme, type ChartTheme } from '../../src/theme.js';
+
+let activeTheme: ChartTheme = darkTheme;
+
+/**
+ * Stand-in for useChartTheme in specs that call components directly, where
+ * no ChartThemeProvider is rendered. Returns darkTheme unless a spec is
+ * running inside withChartTheme.
+ */
+export function mockUseChartTheme(): ChartTheme {
+  return activeTheme;
+}
+
+/**
+ * Run a spec body with the given theme returned by the useChartTheme mock
+ */
+export function withChartTheme<T>(theme: ChartTheme, render: () => T): T {
+  activeTheme = theme;
+  try {
+    return render();
+  } finally {
+    activeTheme = darkTheme;
+  }
+}
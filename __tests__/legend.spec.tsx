@@ -0,0 +1,127 @@
+import React from 'react';
+
+// Mock Ink components
+jest.mock('ink', () => ({
+  Text: ({ children, color }: any) => React.createElement('span', { 'data-color': color }, children),
+  Box: ({ children }: any) => React.createElement('div', {}, children),
+}));
+
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
+// Mock useAutoWidth hook
+jest.mock('../src/core/useAutoWidth.js', () => ({
+  useAutoWidth: () => ({ width: 40, isAutoWidth: true }),
+}));
+
+import { Legend, LegendProps, resolveLegendLayout } from '../src/components/Legend.js';
+import { highContrastTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
+
+describe('Legend Component', () => {
+  // Execute the component function directly to trigger internal logic
+  const executeComponent = (props: LegendProps) => {
+    const LegendFunc = (Legend as any).type || Legend;
+    return LegendFunc(props);
+  };
+
+  const collect = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(collect).join('');
+    return collect(node.props?.children);
+  };
+  const getLines = (result: any): string[] => result.props.children.map(collect);
+
+  describe('Basic component structure', () => {
+    it('should be a memoized component', () => {
+      expect(Legend).toBeDefined();
+      expect(typeof Legend).toBe('object');
+    });
+
+    it('should return null for no items', () => {
+      expect(executeComponent({ items: [] })).toBeNull();
+    });
+  });
+
+  describe('Horizontal layout', () => {
+    it('should place entries side by side with the default swatch', () => {
+      const result = executeComponent({ items: [{ name: 'main' }, { name: 'PR' }] });
+
+      expect(getLines(result)).toEqual(['■ main  ■ PR']);
+    });
+
+    it('should color swatches but not names', () => {
+      const result = executeComponent({ items: [{ name: 'main', color: 'cyan' }] });
+
+      const entry = result.props.children[0].props.children[0];
+      const swatch = entry.props.children[1];
+      expect(swatch.props.color).toBe('cyan');
+      expect(collect(swatch)).toBe('■');
+      expect(entry.props.color).toBeUndefined();
+    });
+
+    it('should style names with the active theme label style', () => {
+      const result = withChartTheme(highContrastTheme, () =>
+        executeComponent({ items: [{ name: 'main', color: 'cyan' }] })
+      );
+
+      const name = result.props.children[0].props.children[0].props.children[2];
+      expect(name.props.color).toBe('whiteBright');
+      expect(collect(name)).toBe(' main');
+    });
+
+    it('should use per-item markers over the legend marker', () => {
+      const result = executeComponent({
+        items: [{ name: 'a', marker: '●' }, { name: 'b' }],
+        marker: '─',
+      });
+
+      expect(getLines(result)).toEqual(['● a  ─ b']);
+    });
+
+    it('should wrap entries to the terminal width', () => {
+      const items = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot'].map(name => ({ name }));
+      const result = executeComponent({ items });
+
+      const lines = getLines(result);
+      expect(lines).toEqual(['■ alpha  ■ bravo  ■ charlie  ■ delta', '■ echo  ■ foxtrot']);
+      lines.forEach(line => expect(line.length).toBeLessThanOrEqual(40));
+    });
+
+    it('should wrap entries to a fixed width', () => {
+      const result = executeComponent({ items: [{ name: 'one' }, { name: 'two' }], width: 8 });
+
+      expect(getLines(result)).toEqual(['■ one', '■ two']);
+    });
+
+    it('should keep an entry wider than the width on its own line', () => {
+      const result = executeComponent({ items: [{ name: 'a very long name' }, { name: 'b' }], width: 5 });
+
+      expect(getLines(result)).toEqual(['■ a very long name', '■ b']);
+    });
+  });
+
+  describe('Vertical layout', () => {
+    it('should place one entry per line', () => {
+      const result = executeComponent({
+        items: [{ name: 'p50', color: 'green' }, { name: 'p99', color: 'red' }],
+        layout: 'vertical',
+      });
+
+      expect(getLines(result)).toEqual(['■ p50', '■ p99']);
+    });
+  });
+
+  describe('resolveLegendLayout', () => {
+    it('should map the legend prop to a layout', () => {
+      expect(resolveLegendLayout(undefined)).toBeNull();
+      expect(resolveLegendLayout(false)).toBeNull();
+      expect(resolveLegendLayout(true)).toBe('horizontal');
+      expect(resolveLegendLayout('horizontal')).toBe('horizontal');
+      expect(resolveLegendLayout('vertical')).toBe('vertical');
+    });
+  });
+});
@@ -6,12 +6,20 @@ jest.mock('ink', () => ({
   Box: ({ children }: any) => React.createElement('div', {}, children),
 }));
 
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
 // Mock useAutoWidth hook
 jest.mock('../src/core/useAutoWidth.js', () => ({
   useAutoWidth: () => ({ width: 80, isAutoWidth: true }),
 }));
 
 import { LineGraph, LineGraphProps, LineGraphSeries } from '../src/components/LineGraph.js';
+import { Legend } from '../src/components/Legend.js';
+import { highContrastTheme, monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
 
 describe('LineGraph Component', () => {
   // Execute the component function directly to trigger internal logic
@@ -278,6 +286,22 @@ describe('LineGraph Component', () => {
       const result = executeComponent({ data, yLabels: ['Only'] });
       expect(result).not.toBeNull();
     });
+
+    it('should label the Y-axis with round ticks over a nice domain', () => {
+      const data: LineGraphSeries[] = [{ values: [3.7, 50, 96.2] }];
+      const result = executeComponent({ data, showYAxis: true, height: 5, width: 10 });
+
+      const axisLabels = result.props.children[0].map((row: any) => row.props.children[0].props.children[0]);
+      expect(axisLabels).toEqual(['100', '   ', ' 50', '   ', '  0']);
+    });
+
+    it('should keep a fixed yDomain when generating ticks', () => {
+      const data: LineGraphSeries[] = [{ values: [10, 20] }];
+      const result = executeComponent({ data, showYAxis: true, yDomain: [5, 25], height: 5, width: 10 });
+
+      const axisLabels = result.props.children[0].map((row: any) => row.props.children[0].props.children[0]);
+      expect(axisLabels).toEqual(['  ', '20', '  ', '10', '  ']);
+    });
   });
 
   describe('X-axis labels', () => {
@@ -346,6 +370,516 @@ describe('LineGraph Component', () => {
     });
   });
 
+  describe('Scale', () => {
+    const axisLabels = (result: any): string[] =>
+      result.props.children[0].map((row: any) => row.props.children[0].props.children[0]);
+
+    it('should label a log axis with powers of ten', () => {
+      const data: LineGraphSeries[] = [{ values: [0.3, 4, 80] }];
+      const result = executeComponent({ data, scale: 'log', showYAxis: true, height: 8, width: 10 });
+
+      // Domain [0.1, 100]: each decade spans 7/3 rows
+      expect(axisLabels(result).map(label => label.trim())).toEqual(['100', '', '10', '', '', '1', '', '0.1']);
+    });
+
+    it('should place values by their logarithm', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 10, 100, 1000] }];
+      const linear = executeComponent({ data, height: 4, width: 4 });
+      const log = executeComponent({ data, scale: 'log', height: 4, width: 4 });
+
+      expect(log).not.toEqual(linear);
+      // Every sample sits on its own row on a log scale
+      const rowsWithLine = log.props.children[0].filter((row: any) =>
+        JSON.stringify(row.props.children).match(/[⎺⎻─⎼⎽]/)
+      );
+      expect(rowsWithLine).toHaveLength(4);
+    });
+
+    it('should label a symlog axis through zero', () => {
+      const data: LineGraphSeries[] = [{ values: [-100, 0, 100] }];
+      const result = executeComponent({ data, scale: 'symlog', showYAxis: true, height: 5, width: 10 });
+
+      expect(axisLabels(result).map(label => label.trim())).toEqual(['100', '', '0', '', '-100']);
+    });
+
+    it('should render every scale in braille mode', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 5, 25, 125] }];
+      for (const scale of ['log', 'symlog', 'sqrt', { type: 'pow', exponent: 2 }] as const) {
+        expect(executeComponent({ data, scale, mode: 'braille', height: 3 })).not.toBeNull();
+      }
+    });
+  });
+
+  describe('Area fill', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+    const rowColors = (result: any): Array<string | undefined> =>
+      result.props.children[0].map((row: any) => row.props.children[1][0]?.props.color);
+
+    it('should fill below the line down to the bottom', () => {
+      const result = executeComponent({ data: [{ values: [5, 5, 5], fill: 'below' }], height: 3, yDomain: [0, 10] });
+      expect(rowTexts(result)).toEqual(['   ', '───', '███']);
+    });
+
+    it('should not fill by default', () => {
+      const result = executeComponent({ data: [{ values: [5, 5, 5] }], height: 3, yDomain: [0, 10] });
+      expect(rowTexts(result)).toEqual(['   ', '───', '   ']);
+    });
+
+    it('should fill between a series and the previous one', () => {
+      const result = executeComponent({
+        data: [
+          { values: [2, 2, 2], color: 'red' },
+          { values: [8, 8, 8], color: 'blue', fill: 'between' },
+        ],
+        height: 4,
+        yDomain: [0, 10],
+      });
+      expect(rowTexts(result)).toEqual(['⎽⎽⎽', '███', '███', '⎺⎺⎺']);
+      expect(rowColors(result).slice(1, 3)).toEqual(['blue', 'blue']);
+    });
+
+    it('should stack series into areas', () => {
+      const result = executeComponent({
+        data: [
+          { values: [2, 2, 2], color: 'red', fill: 'below' },
+          { values: [2, 2, 2], color: 'blue', fill: 'between' },
+        ],
+        stacked: true,
+        height: 6,
+      });
+
+      // The second series is drawn at the total of 4; the domain starts at zero
+      expect(rowTexts(result)).toEqual(['⎺⎺⎺', '███', '⎽⎽⎽', '███', '███', '███']);
+      expect(rowColors(result)).toEqual(['blue', 'blue', 'red', 'red', 'red', 'red']);
+    });
+
+    it('should fill areas in braille mode', () => {
+      const result = executeComponent({
+        data: [{ values: [5, 5], fill: 'below' }],
+        mode: 'braille',
+        width: 1,
+        height: 2,
+        yDomain: [0, 10],
+      });
+      // Line on the fourth of eight dot rows, every dot below it set
+      expect(rowTexts(result)).toEqual(['⣀', '⣿']);
+    });
+
+    it('should fill each area with its own pattern when patterns are enabled', () => {
+      const result = executeComponent({
+        data: [
+          { values: [2, 2, 2], color: 'red', fill: 'below' },
+          { values: [2, 2, 2], color: 'blue', fill: 'between' },
+        ],
+        stacked: true,
+        height: 6,
+        patterns: true,
+        legend: true,
+      });
+
+      // Pattern markers sit on the lines, staggered per series
+      expect(rowTexts(result)).toEqual(['⎺⎺■', '▓▓▓', '●⎽⎽', '███', '███', '███']);
+      const legend = result.props.children.find((child: any) => child?.type === Legend);
+      expect(legend.props.items.map((item: any) => item.marker)).toEqual(['█', '▓']);
+    });
+
+    it('should show filled series with a block marker in the legend', () => {
+      const result = executeComponent({ data: [{ values: [1, 2], name: 'heap', fill: 'below' }], legend: true });
+      const legend = result.props.children.find((child: any) => child?.type === Legend);
+      expect(legend.props.items[0].marker).toBe('█');
+    });
+  });
+
+  describe('Right Y-axis', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+    const data: LineGraphSeries[] = [
+      { values: [0, 0, 0] },
+      { values: [1000, 1000, 1000], axis: 'right' },
+    ];
+
+    it('should scale right-axis series with their own domain', () => {
+      const result = executeComponent({ data, height: 2, yDomain: [0, 10], rightYDomain: [0, 1000] });
+      expect(rowTexts(result)).toEqual(['⎺⎺⎺', '⎽⎽⎽']);
+    });
+
+    it('should auto-scale each axis independently', () => {
+      const result = executeComponent({
+        data: [{ values: [0, 10, 0] }, { values: [0, 1000, 0], axis: 'right' }],
+        height: 2,
+      });
+      // Both series peak at the top of their own axis
+      expect(rowTexts(result)).toEqual([' ⎺ ', '⎽ ⎽']);
+    });
+
+    it('should render right-axis labels mirroring the left axis', () => {
+      const result = executeComponent({
+        data,
+        height: 3,
+        width: 12,
+        showYAxis: true,
+        yDomain: [0, 10],
+        rightYDomain: [0, 1000],
+        yLabels: [0, 10],
+        rightYLabels: [0, 1000],
+      });
+      const rows = rowTexts(result);
+      expect(rows[0]).toBe('10│⎺⎺⎺⎺│1000');
+      expect(rows[2]).toBe(' 0│⎽⎽⎽⎽│0   ');
+    });
+
+    it('should close the x-axis line under the right axis', () => {
+      const result = executeComponent({ data, height: 2, width: 10, showYAxis: true, xLabels: ['a', 'b'] });
+      expect(collect(result.props.children[1][0])).toMatch(/└─+┘$/);
+    });
+
+    it('should not draw a right axis without right-axis series', () => {
+      const result = executeComponent({ data: [data[0]!], height: 2, showYAxis: true, rightYLabels: [0, 1] });
+      expect(rowTexts(result).every(row => row.split('│').length === 2)).toBe(true);
+    });
+
+    it('should mark right-axis series in the legend', () => {
+      const result = executeComponent({ data, legend: true });
+      const legend = result.props.children.find((child: any) => child?.type === Legend);
+      expect(legend.props.items.map((item: any) => item.name)).toEqual(['Series 1', 'Series 2 (right)']);
+    });
+  });
+
+  describe('Overlays', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+    const flat: LineGraphSeries[] = [{ values: [0, 0, 0, 0, 0] }];
+
+    it('should draw a reference line with a label and the default color', () => {
+      const result = executeComponent({
+        data: flat,
+        height: 3,
+        yDomain: [0, 10],
+        referenceLines: [{ y: 10, label: 'SLO' }],
+      });
+      expect(rowTexts(result)).toEqual(['┄┄SLO', '     ', '⎽⎽⎽⎽⎽']);
+      expect(result.props.children[0][0].props.children[1][0].props.color).toBe('gray');
+    });
+
+    it('should extend an auto domain to include reference lines', () => {
+      const result = executeComponent({ data: flat, height: 2, referenceLines: [{ y: 10, char: '-', color: 'red' }] });
+      expect(rowTexts(result)).toEqual(['-----', '⎽⎽⎽⎽⎽']);
+    });
+
+    it('should draw series lines over overlays', () => {
+      const result = executeComponent({
+        data: [{ values: [10, 10, 10] }],
+        height: 2,
+        yDomain: [0, 10],
+        referenceLines: [{ y: 10 }],
+      });
+      expect(rowTexts(result)[0]).toBe('⎺⎺⎺');
+    });
+
+    it('should shade bands across their rows', () => {
+      const result = executeComponent({
+        data: [{ values: [10, 10, 10, 10] }],
+        height: 5,
+        yDomain: [0, 10],
+        bands: [{ from: 6, to: 2 }],
+      });
+      expect(rowTexts(result)).toEqual(['⎺⎺⎺⎺', '    ', '░░░░', '░░░░', '    ']);
+    });
+
+    it('should draw vertical markers at sample indices', () => {
+      const result = executeComponent({
+        data: flat,
+        height: 3,
+        yDomain: [0, 10],
+        markers: [{ x: 2, label: 'v2' }],
+      });
+      expect(rowTexts(result)).toEqual(['  ┆v2', '  ┆  ', '⎽⎽⎽⎽⎽']);
+    });
+
+    it('should place markers by time for time series', () => {
+      const at = (minutes: number) => new Date(2024, 0, 15, 10, minutes);
+      const result = executeComponent({
+        data: [{ values: [0, 0], timestamps: [at(0), at(40)] }],
+        width: 5,
+        height: 2,
+        yDomain: [0, 10],
+        markers: [{ x: at(30), char: '|' }],
+      });
+      expect(rowTexts(result)[0]).toBe('   | ');
+    });
+
+    it('should write annotations above their point, kept inside the graph', () => {
+      const result = executeComponent({
+        data: flat,
+        height: 3,
+        yDomain: [0, 10],
+        annotations: [{ x: 4, y: 0, text: 'low' }],
+      });
+      expect(rowTexts(result)).toEqual(['     ', '  low', '⎽⎽⎽⎽⎽']);
+    });
+
+    it('should skip reference lines and their labels outside a fixed yDomain', () => {
+      const result = executeComponent({
+        data: flat,
+        height: 3,
+        yDomain: [0, 10],
+        referenceLines: [{ y: 20, label: 'max' }, { y: -5, label: 'min' }],
+      });
+      expect(rowTexts(result)).toEqual(['     ', '     ', '⎽⎽⎽⎽⎽']);
+    });
+
+    it('should clip bands to a fixed yDomain and skip bands outside it', () => {
+      const result = executeComponent({
+        data: [{ values: [0, 0, 0, 0] }],
+        height: 5,
+        yDomain: [0, 10],
+        bands: [{ from: 6, to: 50 }, { from: 20, to: 30, char: '▒' }],
+      });
+      expect(rowTexts(result)).toEqual(['░░░░', '░░░░', '░░░░', '    ', '⎽⎽⎽⎽']);
+    });
+
+    it('should skip markers and annotations outside the X range', () => {
+      const result = executeComponent({
+        data: flat,
+        height: 3,
+        yDomain: [0, 10],
+        markers: [{ x: 9, label: 'late' }, { x: -1 }],
+        annotations: [{ x: 7, y: 5, text: 'off' }, { x: 1, y: 50, text: 'high' }],
+      });
+      expect(rowTexts(result)).toEqual(['     ', '     ', '⎽⎽⎽⎽⎽']);
+    });
+
+    it('should draw overlays in braille mode', () => {
+      const result = executeComponent({
+        data: [{ values: [0, 0, 0, 0] }],
+        mode: 'braille',
+        height: 2,
+        yDomain: [0, 10],
+        referenceLines: [{ y: 10 }],
+      });
+      expect(rowTexts(result)).toEqual(['┄┄', '⣀⣀']);
+    });
+  });
+
+  describe('Missing values', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+    const data: LineGraphSeries[] = [{ values: [5, 5, null, NaN, 5, 5] }];
+
+    it('should break the line at missing values', () => {
+      const rows = rowTexts(executeComponent({ data, height: 1, yDomain: [0, 10] }));
+      expect(rows).toEqual(['──  ──']);
+    });
+
+    it('should keep gaps at their position when stretched', () => {
+      const rows = rowTexts(executeComponent({ data, width: 11, height: 1, yDomain: [0, 10] }));
+      expect(rows[0]).toMatch(/^─+ +─+$/);
+      expect(rows[0]).toHaveLength(11);
+    });
+
+    it('should connect the gap with interpolate', () => {
+      const rows = rowTexts(executeComponent({
+        data: [{ values: [0, null, null, 9] }],
+        height: 2,
+        yDomain: [0, 9],
+        missing: 'interpolate',
+      }));
+      expect(rows).toEqual(['  ⎼⎺', '⎽⎻  ']);
+    });
+
+    it('should repeat the last value with hold', () => {
+      const rows = rowTexts(executeComponent({
+        data: [{ values: [0, null, null, 9] }],
+        height: 2,
+        yDomain: [0, 9],
+        missing: 'hold',
+      }));
+      expect(rows).toEqual(['   ⎺', '⎽⎽⎽ ']);
+    });
+
+    it('should draw isolated values between gaps', () => {
+      const rows = rowTexts(executeComponent({ data: [{ values: [null, 5, null] }], height: 1, yDomain: [0, 10] }));
+      expect(rows).toEqual([' ─ ']);
+    });
+
+    it('should leave gaps in braille mode and time series', () => {
+      const braille = rowTexts(executeComponent({ data, mode: 'braille', height: 1, yDomain: [0, 10] }));
+      expect(braille[0]).toContain(' ');
+
+      const timestamps = [0, 1, 2, 3, 4, 5].map(minute => minute * 60_000);
+      const timed = rowTexts(executeComponent({ data: [{ values: data[0]!.values, timestamps }], height: 1, yDomain: [0, 10] }));
+      expect(timed).toEqual(['──  ──']);
+    });
+  });
+
+  describe('Downsampling', () => {
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+    // A single spike between the positions picked by interpolated sampling
+    const values = Array.from({ length: 100 }, (_, i) => (i === 51 ? 10 : 0));
+    const data: LineGraphSeries[] = [{ values }];
+
+    it('should lose a narrow spike without downsampling', () => {
+      const rows = rowTexts(executeComponent({ data, width: 10, height: 2, yDomain: [0, 10] }));
+      expect(rows[0]!.trim()).toBe('');
+    });
+
+    it('should keep the spike with every strategy that preserves extremes', () => {
+      for (const downsample of ['lttb', 'minmax'] as const) {
+        const rows = rowTexts(executeComponent({ data, width: 10, height: 2, yDomain: [0, 10], downsample }));
+        expect(rows[0]).toContain('⎺');
+      }
+    });
+
+    it('should average the spike into its column with mean', () => {
+      const rows = rowTexts(executeComponent({ data, width: 10, height: 2, yDomain: [0, 10], downsample: 'mean' }));
+      expect(rows[0]!.trim()).toBe('');
+      expect(rows[1]).not.toBe('⎽'.repeat(10));
+    });
+
+    it('should downsample timed series and braille mode', () => {
+      const timestamps = values.map((_, i) => i * 1000);
+      const result = executeComponent({
+        data: [{ values, timestamps }],
+        width: 10,
+        height: 2,
+        yDomain: [0, 10],
+        mode: 'braille',
+        downsample: 'minmax',
+      });
+      expect(rowTexts(result)[0]!.trim()).not.toBe('');
+    });
+
+    it('should render series too long to spread into Math.min/Math.max', () => {
+      const long = Array.from({ length: 150_000 }, (_, i) => (i === 75_000 ? 10 : i % 2));
+      const timestamps = long.map((_, i) => i * 1000);
+      for (const series of [{ values: long }, { values: long, timestamps }]) {
+        const rows = rowTexts(executeComponent({ data: [series], width: 10, height: 2, downsample: 'lttb' }));
+        expect(rows[0]).toContain('⎺');
+      }
+    });
+
+    it('should not change series that fit the width', () => {
+      const short: LineGraphSeries[] = [{ values: [1, 5, 2, 8] }];
+      expect(executeComponent({ data: short, width: 10, downsample: 'lttb' }))
+        .toEqual(executeComponent({ data: short, width: 10 }));
+    });
+  });
+
+  describe('Time scale', () => {
+    const at = (hours: number, minutes: number = 0) => new Date(2024, 0, 15, hours, minutes);
+    const collect = (node: any): string => {
+      if (node === null || node === undefined || typeof node === 'boolean') return '';
+      if (typeof node === 'string' || typeof node === 'number') return String(node);
+      if (Array.isArray(node)) return node.map(collect).join('');
+      return collect(node.props?.children);
+    };
+    const rowTexts = (result: any): string[] => result.props.children[0].map(collect);
+
+    it('should position irregularly sampled points by time', () => {
+      // The middle sample is close to the first one, so the rise happens early
+      const data: LineGraphSeries[] = [{
+        values: [0, 10, 10],
+        timestamps: [at(10), at(10, 6), at(11)],
+      }];
+      const result = executeComponent({ data, width: 11, height: 1 });
+
+      expect(rowTexts(result)[0]).toBe('⎽⎺⎺⎺⎺⎺⎺⎺⎺⎺⎺');
+    });
+
+    it('should leave columns outside a series time span empty', () => {
+      const data: LineGraphSeries[] = [
+        { values: [0, 0], timestamps: [at(10), at(11)] },
+        { values: [10, 10], timestamps: [at(10, 30), at(11)] },
+      ];
+      const result = executeComponent({ data, width: 11, height: 2 });
+
+      expect(rowTexts(result)).toEqual(['     ⎺⎺⎺⎺⎺⎺', '⎽⎽⎽⎽⎽⎽⎽⎽⎽⎽⎽']);
+    });
+
+    it('should sort samples by time', () => {
+      const sorted = executeComponent({ data: [{ values: [1, 5, 2], timestamps: [at(10), at(11), at(12)] }], width: 10 });
+      const shuffled = executeComponent({ data: [{ values: [2, 1, 5], timestamps: [at(12), at(10), at(11)] }], width: 10 });
+      expect(rowTexts(shuffled)).toEqual(rowTexts(sorted));
+    });
+
+    it('should generate calendar tick labels below the graph', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2, 3], timestamps: [at(9, 50), at(10, 30), at(11, 10)] }];
+      const result = executeComponent({ data, width: 33, height: 2 });
+
+      const [, xAxis] = result.props.children;
+      expect(collect(xAxis[0])).toBe('─'.repeat(33));
+      expect(collect(xAxis[1]).trim().split(/ +/)).toEqual(['10:00', '10:30', '11:00']);
+    });
+
+    it('should reduce the number of ticks until labels fit', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2], timestamps: [at(0), at(23)] }];
+      const result = executeComponent({ data, width: 20, height: 2 });
+
+      const labels = collect(result.props.children[1][1]).trim().split(/ +/);
+      expect(labels.length).toBeGreaterThan(1);
+      expect(labels.every(label => /^\d\d:\d\d$/.test(label))).toBe(true);
+    });
+
+    it('should format ticks with a custom function', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2], timestamps: [at(10), at(11)] }];
+      const result = executeComponent({ data, width: 30, height: 2, timeFormat: date => `${date.getHours()}h` });
+
+      expect(collect(result.props.children[1][1])).toContain('10h');
+    });
+
+    it('should format ticks with an Intl.DateTimeFormat', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2], timestamps: [at(0), at(0).getTime() + 3 * 86400000] }];
+      const format = new Intl.DateTimeFormat('en-US', { weekday: 'short' });
+      const result = executeComponent({ data, width: 40, height: 2, timeFormat: format });
+
+      // 2024-01-15 is a Monday
+      const labels = collect(result.props.children[1][1]).trim().split(/ +/);
+      expect(labels[0]).toBe('Mon');
+      expect(labels.every(label => /^(Mon|Tue|Wed|Thu)$/.test(label))).toBe(true);
+    });
+
+    it('should prefer explicit xLabels over generated ticks', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2], timestamps: [at(10), at(11)] }];
+      const result = executeComponent({ data, width: 20, height: 2, xLabels: ['start', 'end'] });
+
+      expect(collect(result.props.children[1][1])).toBe('start            end');
+    });
+
+    it('should draw time series in braille mode', () => {
+      const data: LineGraphSeries[] = [{ values: [0, 10, 10], timestamps: [at(10), at(10, 6), at(11)] }];
+      const result = executeComponent({ data, width: 10, height: 1, mode: 'braille', timeFormat: () => '' });
+
+      expect(rowTexts(result)[0]).toHaveLength(10);
+    });
+  });
+
   describe('Rendering consistency', () => {
     it('should produce consistent output for same input', () => {
       const data: LineGraphSeries[] = [{ values: [1, 2, 3, 4, 5] }];
@@ -435,4 +969,140 @@ describe('LineGraph Component', () => {
       expect(result).not.toBeNull();
     });
   });
+
+  describe('Braille mode', () => {
+    // Collect the plain text of each graph row from the rendered element tree
+    const getRowTexts = (result: any): string[] => {
+      const collect = (node: any): string => {
+        if (node === null || node === undefined || typeof node === 'boolean') return '';
+        if (typeof node === 'string' || typeof node === 'number') return String(node);
+        if (Array.isArray(node)) return node.map(collect).join('');
+        return collect(node.props?.children);
+      };
+      return result.props.children[0].map(collect);
+    };
+
+    it('should render braille characters', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 3, 2, 5, 4, 6] }];
+      const rows = getRowTexts(executeComponent({ data, height: 3, mode: 'braille' }));
+      expect(rows).toHaveLength(3);
+      const chars = rows.join('').replace(/ /g, '');
+      expect(chars.length).toBeGreaterThan(0);
+      for (const char of chars) {
+        const code = char.codePointAt(0)!;
+        expect(code).toBeGreaterThanOrEqual(0x2800);
+        expect(code).toBeLessThanOrEqual(0x28ff);
+      }
+    });
+
+    it('should fit two samples per column in auto width', () => {
+      const data: LineGraphSeries[] = [{ values: [1, 2, 3, 4, 5, 6, 7, 8] }];
+      const rows = getRowTexts(executeComponent({ data, height: 2, mode: 'braille' }));
+      expect(rows[0]).toHaveLength(4);
+    });
+
+    it('should draw a flat line as a single dot row', () => {
+      const data: LineGraphSeries[] = [{ values: [0, 0, 0, 0] }];
+      const rows = getRowTexts(executeComponent({ data, height: 1, mode: 'braille', yDomain: [0, 3] }));
+      // Bottom dot row only: left (0x40) + right (0x80)
+      expect(rows[0]).toBe('⣀⣀');
+    });
+
+    it('should connect samples with vertical segments', () => {
+      const data: LineGraphSeries[] = [{ values: [0, 3] }];
+      const rows = getRowTexts(executeComponent({ data, width: 1, height: 1, mode: 'braille', yDomain: [0, 3] }));
+      // Left column bottom two dots and right column top two dots
+      expect(rows[0]).toBe(String.fromCharCode(0x2800 + 0x04 + 0x40 + 0x08 + 0x10));
+    });
+
+    it('should merge dots from multiple series with first series color', () => {
+      const data: LineGraphSeries[] = [
+        { values: [0, 0], color: 'red' },
+        { values: [3, 3], color: 'blue' },
+      ];
+      const result = executeComponent({ data, width: 1, height: 1, mode: 'braille', yDomain: [0, 3] });
+      const rows = getRowTexts(result);
+      expect(rows[0]).toBe(String.fromCharCode(0x2800 + 0x40 + 0x80 + 0x01 + 0x08));
+      const segment = result.props.children[0][0].props.children[1][0];
+      expect(segment.props.color).toBe('red');
+    });
+
+    it('should support Y-axis and X-axis labels', () => {
+      const data: LineGraphSeries[] = [{ values: [10, 20, 30, 40] }];
+      const result = executeComponent({ data, mode: 'braille', height: 4, showYAxis: true, xLabels: ['A', 'B'] });
+      expect(result).not.toBeNull();
+    });
+  });
+
+  describe('Legend', () => {
+    const data: LineGraphSeries[] = [
+      { values: [1, 2, 3], color: 'red', name: 'errors' },
+      { values: [3, 2, 1] },
+    ];
+
+    it('should not render a legend by default', () => {
+      const result = executeComponent({ data });
+      expect(result.props.children[2]).toBeFalsy();
+    });
+
+    it('should list series names and colors when legend is enabled', () => {
+      const result = executeComponent({ data, legend: true });
+      const legend = result.props.children[2];
+
+      expect(legend.type).toBe(Legend);
+      expect(legend.props.layout).toBe('horizontal');
+      expect(legend.props.items).toEqual([
+        { name: 'errors', marker: '─', color: 'red' },
+        { name: 'Series 2', marker: '─', color: '#56B4E9' },
+      ]);
+    });
+
+    it('should draw series without a color in the theme palette colors', () => {
+      const result = executeComponent({ data: [{ values: [5, 5] }, { values: [1, 1] }], height: 2, yDomain: [0, 10] });
+      const colors = result.props.children[0].map((row: any) => row.props.children[1][0]?.props.color);
+      expect(colors).toEqual(['#E69F00', '#56B4E9']);
+    });
+
+    it('should take default series colors from the active theme palette', () => {
+      const result = withChartTheme(highContrastTheme, () =>
+        executeComponent({ data: [{ values: [5, 5] }, { values: [1, 1] }], height: 2, yDomain: [0, 10], legend: true })
+      );
+      const colors = result.props.children[0].map((row: any) => row.props.children[1][0]?.props.color);
+
+      expect(colors).toEqual(['cyanBright', 'magentaBright']);
+      expect(result.props.children[2].props.items.map((item: any) => item.color)).toEqual(['cyanBright', 'magentaBright']);
+    });
+
+    it('should place point markers without colors under the monochrome theme', () => {
+      const result = withChartTheme(monochromeTheme, () =>
+        executeComponent({ data: [{ values: Array(8).fill(5) }, { values: Array(8).fill(1) }], height: 3, yDomain: [0, 10] })
+      );
+      const segments = result.props.children[0].flatMap((row: any) => row.props.children[1]);
+
+      expect(segments.map((segment: any) => segment.props.children).join('')).toContain('■');
+      segments.forEach((segment: any) => expect(segment.props.color).toBeUndefined());
+    });
+
+    it('should place point markers along lines and in the legend when patterns are enabled', () => {
+      const result = executeComponent({
+        data: [{ values: Array(8).fill(5) }, { values: Array(8).fill(1) }],
+        height: 3,
+        yDomain: [0, 10],
+        patterns: true,
+        legend: true,
+      });
+      const rows = result.props.children[0].map((row: any) => row.props.children[1].map((segment: any) => segment.props.children).join(''));
+
+      expect(rows).toEqual(['        ', '●─────●─', '⎼⎼■⎼⎼⎼⎼⎼']);
+      expect(result.props.children[2].props.items.map((item: any) => item.marker)).toEqual(['●', '■']);
+    });
+
+    it('should use a braille swatch in braille mode', () => {
+      const result = executeComponent({ data, legend: 'vertical', mode: 'braille' });
+      const legend = result.props.children[2];
+
+      expect(legend.props.layout).toBe('vertical');
+      expect(legend.props.items[0].marker).toBe('⣀');
+    });
+  });
 });
@@ -0,0 +1,43 @@
+import { fillMissing, isMissing, presentRuns } from '../src/missing';
+
+describe('missing value functions', () => {
+  describe('isMissing', () => {
+    it('should treat null, undefined and non-finite numbers as missing', () => {
+      expect([null, undefined, NaN, Infinity, -Infinity].every(isMissing)).toBe(true);
+      expect([0, -1, 2.5].some(isMissing)).toBe(false);
+    });
+  });
+
+  describe('fillMissing', () => {
+    it('should normalize missing values to null for gaps', () => {
+      expect(fillMissing([1, NaN, undefined, 4], 'gap')).toEqual([1, null, null, 4]);
+    });
+
+    it('should interpolate between present values', () => {
+      expect(fillMissing([0, null, null, 6], 'interpolate')).toEqual([0, 2, 4, 6]);
+    });
+
+    it('should interpolate by position when given', () => {
+      expect(fillMissing([0, null, 10], 'interpolate', [0, 8, 10])).toEqual([0, 8, 10]);
+    });
+
+    it('should leave leading and trailing gaps when interpolating', () => {
+      expect(fillMissing([null, 1, null, 3, null], 'interpolate')).toEqual([null, 1, 2, 3, null]);
+    });
+
+    it('should hold the last value through gaps and to the end', () => {
+      expect(fillMissing([null, 1, null, 3, NaN], 'hold')).toEqual([null, 1, 1, 3, 3]);
+    });
+
+    it('should keep all-missing data missing', () => {
+      expect(fillMissing([null, NaN], 'hold')).toEqual([null, null]);
+    });
+  });
+
+  describe('presentRuns', () => {
+    it('should return index ranges of consecutive present values', () => {
+      expect(presentRuns([1, 2, null, 3, null, null, 4])).toEqual([[0, 2], [3, 4], [6, 7]]);
+      expect(presentRuns([null, null])).toEqual([]);
+    });
+  });
+});
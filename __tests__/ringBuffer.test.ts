@@ -0,0 +1,54 @@
+import { RingBuffer } from '../src/core/ringBuffer';
+
+describe('RingBuffer', () => {
+  it('should keep items in insertion order until full', () => {
+    const buffer = new RingBuffer<number>(3);
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  it('should drop the oldest items when full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(value => buffer.push(value));
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+  });
+
+  it('should access items relative to the oldest or newest item', () => {
+    const buffer = new RingBuffer<string>(2);
+    ['a', 'b', 'c'].forEach(value => buffer.push(value));
+
+    expect(buffer.at(0)).toBe('b');
+    expect(buffer.at(-1)).toBe('c');
+    expect(buffer.at(2)).toBeUndefined();
+    expect(buffer.at(-3)).toBeUndefined();
+  });
+
+  it('should return a new array on every snapshot', () => {
+    const buffer = new RingBuffer<number>(2);
+    buffer.push(1);
+    const snapshot = buffer.toArray();
+    buffer.push(2);
+
+    expect(snapshot).toEqual([1]);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  it('should clear all items', () => {
+    const buffer = new RingBuffer<number>(2);
+    [1, 2, 3].forEach(value => buffer.push(value));
+    buffer.clear();
+    buffer.push(4);
+
+    expect(buffer.toArray()).toEqual([4]);
+  });
+
+  it('should reject invalid capacities', () => {
+    expect(() => new RingBuffer(0)).toThrow(RangeError);
+    expect(() => new RingBuffer(1.5)).toThrow(RangeError);
+  });
+});
@@ -1,4 +1,17 @@
-import { normalize, quantize } from '../src/scale';
+import {
+  normalize,
+  quantize,
+  ticks,
+  nice,
+  scaleLog,
+  scaleSymlog,
+  scalePow,
+  createScale,
+  extent,
+  logDomainMin,
+  scaleTicks,
+  scaleNice
+} from '../src/scale';
 
 describe('scale functions', () => {
   describe('normalize', () => {
@@ -88,4 +101,197 @@ describe('scale functions', () => {
       expect(quantizer(10)).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('ticks', () => {
+    it('should generate 1-2-5 multiples within the domain', () => {
+      expect(ticks([0, 100], 4)).toEqual([0, 20, 40, 60, 80, 100]);
+      expect(ticks([0, 100], 2)).toEqual([0, 50, 100]);
+      expect(ticks([0, 10], 10)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should only include ticks inside the domain', () => {
+      expect(ticks([3.7, 96.2], 4)).toEqual([20, 40, 60, 80]);
+    });
+
+    it('should produce exact decimal ticks', () => {
+      expect(ticks([0, 1], 5)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+      expect(ticks([0.1, 0.3], 2)).toEqual([0.1, 0.2, 0.3]);
+    });
+
+    it('should handle negative and reversed domains', () => {
+      expect(ticks([-1, 1], 4)).toEqual([-1, -0.5, 0, 0.5, 1]);
+      expect(ticks([100, 0], 2)).toEqual([0, 50, 100]);
+    });
+
+    it('should default to about 5 ticks', () => {
+      expect(ticks([0, 10])).toEqual([0, 2, 4, 6, 8, 10]);
+    });
+
+    it('should handle degenerate domains', () => {
+      expect(ticks([], 5)).toEqual([]);
+      expect(ticks([5, 5], 5)).toEqual([5]);
+      expect(ticks([0, Infinity], 5)).toEqual([]);
+      expect(ticks([0, 10], 0)).toEqual([]);
+    });
+  });
+
+  describe('nice', () => {
+    it('should extend the domain to round values', () => {
+      expect(nice([3.7, 96.2], 4)).toEqual([0, 100]);
+      expect(nice([0.13, 0.87])).toEqual([0.1, 0.9]);
+      expect(nice([-12, 47], 5)).toEqual([-20, 50]);
+    });
+
+    it('should keep domains that are already round', () => {
+      expect(nice([0, 100], 4)).toEqual([0, 100]);
+    });
+
+    it('should make ticks start and end at the domain bounds', () => {
+      const domain = nice([13, 87], 5);
+      const domainTicks = ticks(domain, 5);
+      expect(domainTicks[0]).toBe(domain[0]);
+      expect(domainTicks[domainTicks.length - 1]).toBe(domain[1]);
+    });
+
+    it('should return degenerate domains unchanged', () => {
+      expect(nice([], 5)).toEqual([0, 0]);
+      expect(nice([5, 5], 5)).toEqual([5, 5]);
+    });
+  });
+
+  describe('scaleLog', () => {
+    it('should space powers of ten evenly', () => {
+      const scale = scaleLog([1, 1000]);
+      expect(scale(1)).toBe(0);
+      expect(scale(10)).toBeCloseTo(1 / 3);
+      expect(scale(100)).toBeCloseTo(2 / 3);
+      expect(scale(1000)).toBe(1);
+    });
+
+    it('should map non-positive values to -Infinity', () => {
+      const scale = scaleLog([1, 100]);
+      expect(scale(0)).toBe(-Infinity);
+      expect(scale(-5)).toBe(-Infinity);
+    });
+
+    it('should map everything to 0 for invalid domains', () => {
+      expect(scaleLog([0, 100])(10)).toBe(0);
+      expect(scaleLog([10, 10])(10)).toBe(0);
+      expect(scaleLog([])(10)).toBe(0);
+    });
+  });
+
+  describe('scaleSymlog', () => {
+    it('should handle zero and negative values symmetrically', () => {
+      const scale = scaleSymlog([-100, 100]);
+      expect(scale(0)).toBeCloseTo(0.5);
+      expect(scale(-100)).toBe(0);
+      expect(scale(100)).toBe(1);
+      expect(scale(10) - 0.5).toBeCloseTo(0.5 - scale(-10));
+    });
+
+    it('should expand values close to zero', () => {
+      const scale = scaleSymlog([0, 1000]);
+      expect(scale(10)).toBeGreaterThan(0.3);
+    });
+
+    it('should widen the linear region with a larger constant', () => {
+      expect(scaleSymlog([0, 1000], 100)(10)).toBeLessThan(scaleSymlog([0, 1000])(10));
+    });
+  });
+
+  describe('scalePow', () => {
+    it('should apply the exponent before normalizing', () => {
+      expect(scalePow([0, 100], 0.5)(25)).toBeCloseTo(0.5);
+      expect(scalePow([0, 10], 2)(5)).toBeCloseTo(0.25);
+    });
+
+    it('should behave like normalize with exponent 1', () => {
+      const scale = scalePow([10, 20]);
+      expect(scale(15)).toBe(normalize([10, 20])(15));
+    });
+
+    it('should keep the sign of negative values', () => {
+      expect(scalePow([-4, 4], 0.5)(-1)).toBeCloseTo(0.25);
+    });
+  });
+
+  describe('createScale', () => {
+    it('should create the normalizer for each scale type', () => {
+      expect(createScale('linear', [0, 100])(25)).toBe(0.25);
+      expect(createScale('log', [1, 100])(10)).toBeCloseTo(0.5);
+      expect(createScale('symlog', [-10, 10])(0)).toBeCloseTo(0.5);
+      expect(createScale('sqrt', [0, 100])(25)).toBeCloseTo(0.5);
+      expect(createScale({ type: 'pow', exponent: 3 }, [0, 2])(1)).toBeCloseTo(0.125);
+    });
+  });
+
+  describe('extent', () => {
+    it('should return the smallest and largest value', () => {
+      expect(extent([3, -2, 8, 0])).toEqual([-2, 8]);
+      expect(extent([5])).toEqual([5, 5]);
+    });
+
+    it('should handle arrays too long to spread into Math.min', () => {
+      const values = Array.from({ length: 200_000 }, (_, i) => i);
+      expect(extent(values)).toEqual([0, 199_999]);
+    });
+  });
+
+  describe('logDomainMin', () => {
+    it('should return the largest power of ten not above the smallest positive value', () => {
+      expect(logDomainMin([0, 35, 2000])).toBe(10);
+      expect(logDomainMin([100, 5000])).toBe(100);
+      expect(logDomainMin([0.05, 1])).toBeCloseTo(0.01);
+    });
+
+    it('should return 1 without positive values', () => {
+      expect(logDomainMin([0, -5])).toBe(1);
+      expect(logDomainMin([])).toBe(1);
+    });
+  });
+
+  describe('scaleTicks', () => {
+    it('should use powers of ten for log scales', () => {
+      expect(scaleTicks('log', [1, 5000])).toEqual([1, 10, 100, 1000]);
+      expect(scaleTicks('log', [3, 800])).toEqual([10, 100]);
+    });
+
+    it('should thin out powers of ten for wide log domains', () => {
+      const result = scaleTicks('log', [1, 1e12], 3);
+      expect(result).toEqual([100, 1e7, 1e12]);
+    });
+
+    it('should include zero and signed powers of ten for symlog scales', () => {
+      expect(scaleTicks('symlog', [-100, 100], 7)).toEqual([-100, -10, -1, 0, 1, 10, 100]);
+      expect(scaleTicks('symlog', [-100, 100])).toEqual([-100, -1, 0, 1, 100]);
+      expect(scaleTicks('symlog', [0, 50])).toEqual([0, 1, 10]);
+    });
+
+    it('should fall back to linear ticks for other scales', () => {
+      expect(scaleTicks('sqrt', [0, 100], 4)).toEqual(ticks([0, 100], 4));
+      expect(scaleTicks('linear', [0, 10])).toEqual(ticks([0, 10]));
+    });
+
+    it('should handle degenerate domains', () => {
+      expect(scaleTicks('log', [])).toEqual([]);
+      expect(scaleTicks('log', [-10, 0])).toEqual([]);
+    });
+  });
+
+  describe('scaleNice', () => {
+    it('should round log domains outward to powers of ten', () => {
+      expect(scaleNice('log', [3, 800])).toEqual([1, 1000]);
+      expect(scaleNice('log', [10, 100])).toEqual([10, 100]);
+    });
+
+    it('should round symlog bounds beyond ±1', () => {
+      expect(scaleNice('symlog', [-35, 420])).toEqual([-100, 1000]);
+      expect(scaleNice('symlog', [0, 0.5])).toEqual([0, 0.5]);
+    });
+
+    it('should fall back to nice for other scales', () => {
+      expect(scaleNice('sqrt', [3.7, 96.2], 4)).toEqual([0, 100]);
+    });
+  });
+});
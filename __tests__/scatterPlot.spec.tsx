@@ -0,0 +1,228 @@
+import React from 'react';
+
+// Mock Ink components
+jest.mock('ink', () => ({
+  Text: ({ children, color }: any) => React.createElement('span', { 'data-color': color }, children),
+  Box: ({ children }: any) => React.createElement('div', {}, children),
+}));
+
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
+// Mock useAutoWidth hook
+jest.mock('../src/core/useAutoWidth.js', () => ({
+  useAutoWidth: () => ({ width: 80, isAutoWidth: true }),
+}));
+
+import { ScatterPlot, ScatterPlotProps, ScatterPlotSeries } from '../src/components/ScatterPlot.js';
+import { Legend } from '../src/components/Legend.js';
+import { lightTheme, monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
+
+describe('ScatterPlot Component', () => {
+  // Execute the component function directly to trigger internal logic
+  const executeComponent = (props: ScatterPlotProps) => {
+    const ScatterPlotFunc = (ScatterPlot as any).type || ScatterPlot;
+    return ScatterPlotFunc(props);
+  };
+
+  // Collect the plain text of each rendered line
+  const collect = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(collect).join('');
+    return collect(node.props?.children);
+  };
+  const getRowTexts = (result: any): string[] => result.props.children[0].map(collect);
+
+  describe('Basic component structure', () => {
+    it('should return a React element for valid data', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 1, y: 2 }] }];
+      expect(executeComponent({ data })).not.toBeNull();
+    });
+
+    it('should return null for empty data', () => {
+      expect(executeComponent({ data: [] })).toBeNull();
+      expect(executeComponent({ data: [{ points: [] }] })).toBeNull();
+    });
+
+    it('should skip non-finite points', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: NaN, y: 1 }, { x: 1, y: Infinity }] }];
+      expect(executeComponent({ data })).toBeNull();
+    });
+  });
+
+  describe('Point placement', () => {
+    it('should place points at the corners of the domain', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 0, y: 0 }, { x: 10, y: 10 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 5, height: 3 }));
+      expect(rows).toEqual(['    ●', '     ', '●    ']);
+    });
+
+    it('should use independent x and y domains', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 50, y: 5 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 5, height: 3, xDomain: [0, 100], yDomain: [0, 10] }));
+      expect(rows).toEqual(['     ', '  ●  ', '     ']);
+    });
+
+    it('should not draw points outside a fixed domain', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 200, y: 5 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 5, height: 3, xDomain: [0, 100], yDomain: [0, 10] }));
+      expect(rows.join('').trim()).toBe('');
+    });
+
+    it('should use per-point marker and color overrides', () => {
+      const data: ScatterPlotSeries[] = [
+        { points: [{ x: 0, y: 0 }, { x: 1, y: 1, marker: 'x', color: 'red' }], color: 'cyan', marker: 'o' },
+      ];
+      const result = executeComponent({ data, width: 2, height: 2 });
+      expect(getRowTexts(result)).toEqual([' x', 'o ']);
+      const topSegments = result.props.children[0][0].props.children[1];
+      expect(topSegments[1].props.color).toBe('red');
+    });
+  });
+
+  describe('Overlap handling', () => {
+    const data: ScatterPlotSeries[] = [
+      { points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], color: 'red', marker: 'a' },
+      { points: [{ x: 0, y: 0 }, { x: 0, y: 0 }], color: 'blue', marker: 'b' },
+    ];
+
+    it('should show point counts by default', () => {
+      const rows = getRowTexts(executeComponent({ data, width: 3, height: 2 }));
+      expect(rows[1]).toBe('3  ');
+    });
+
+    it('should keep the first point with overlap="first"', () => {
+      const rows = getRowTexts(executeComponent({ data, width: 3, height: 2, overlap: 'first' }));
+      expect(rows[1]).toBe('a  ');
+    });
+
+    it('should keep the last point with overlap="last"', () => {
+      const rows = getRowTexts(executeComponent({ data, width: 3, height: 2, overlap: 'last' }));
+      expect(rows[1]).toBe('b  ');
+    });
+
+    it('should use an overflow marker above 9 points', () => {
+      const crowded: ScatterPlotSeries[] = [
+        { points: Array.from({ length: 12 }, () => ({ x: 1, y: 1 })) },
+      ];
+      const rows = getRowTexts(executeComponent({ data: crowded, width: 3, height: 3 }));
+      expect(rows[1]).toBe(' + ');
+    });
+  });
+
+  describe('Axes', () => {
+    it('should render Y-axis labels for the y domain', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 0, y: 0 }, { x: 5, y: 100 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 10, height: 3, showYAxis: true }));
+      expect(rows[0]!.startsWith('100│')).toBe(true);
+      expect(rows[2]!.startsWith('  0│')).toBe(true);
+    });
+
+    it('should extend an auto y domain to round tick labels', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 0, y: 3.7 }, { x: 5, y: 96.2 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 10, height: 5, showYAxis: true }));
+      expect(rows.map(row => row.split('│')[0])).toEqual(['100', '   ', ' 50', '   ', '  0']);
+    });
+
+    it('should keep a fixed y domain and label its round ticks', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 0, y: 5 }] }];
+      const rows = getRowTexts(executeComponent({ data, width: 10, height: 5, showYAxis: true, yDomain: [3, 97] }));
+      expect(rows.map(row => row.split('│')[0])).toEqual(['  ', '  ', '50', '  ', '  ']);
+      expect(rows[4]).toBe('  │   ●   ');
+    });
+
+    it('should position numeric x labels within the x domain', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 10, y: 1 }] }];
+      const result = executeComponent({ data, width: 11, height: 2, xDomain: [0, 100], xLabels: [0, 50, 100] });
+      const [axisLine, labelLine] = result.props.children[1].map(collect);
+      expect(axisLine).toBe('─'.repeat(11));
+      expect(labelLine).toBe('0   50  100');
+    });
+
+    it('should render a caption', () => {
+      const data: ScatterPlotSeries[] = [{ points: [{ x: 1, y: 1 }] }];
+      const result = executeComponent({ data, caption: 'Latency vs size' });
+      expect(collect(result.props.children[3])).toBe('Latency vs size');
+    });
+  });
+
+  describe('Legend', () => {
+    it('should list series names with their markers', () => {
+      const result = executeComponent({
+        data: [
+          { points: [{ x: 0, y: 0 }], name: 'small', color: 'cyan' },
+          { points: [{ x: 1, y: 1 }], marker: '✕' },
+        ],
+        legend: true,
+      });
+      const legend = result.props.children[2];
+
+      expect(legend.type).toBe(Legend);
+      expect(legend.props.items).toEqual([
+        { name: 'small', marker: '●', color: 'cyan' },
+        { name: 'Series 2', marker: '✕', color: '#56B4E9' },
+      ]);
+    });
+
+    it('should draw series without a color in the theme palette colors', () => {
+      const result = executeComponent({
+        data: [{ points: [{ x: 0, y: 0 }] }, { points: [{ x: 1, y: 1 }] }],
+        width: 2,
+        height: 2,
+      });
+      const colors = result.props.children[0].flatMap((row: any) =>
+        row.props.children[1].map((segment: any) => segment.props.color).filter(Boolean)
+      );
+      expect(colors).toEqual(['#56B4E9', '#E69F00']);
+    });
+
+    it('should give each series its own marker when patterns are enabled', () => {
+      const result = executeComponent({
+        data: [
+          { points: [{ x: 0, y: 0 }] },
+          { points: [{ x: 1, y: 1 }] },
+          { points: [{ x: 2, y: 2 }], marker: 'o' },
+        ],
+        patterns: true,
+        legend: true,
+      });
+
+      expect(getRowTexts(result).join('')).toContain('■');
+      expect(result.props.children[2].props.items.map((item: any) => item.marker)).toEqual(['●', '■', 'o']);
+    });
+
+    it('should take default series colors from the active theme palette', () => {
+      const result = withChartTheme(lightTheme, () =>
+        executeComponent({
+          data: [{ points: [{ x: 0, y: 0 }] }, { points: [{ x: 1, y: 1 }] }],
+          legend: true,
+        })
+      );
+
+      expect(result.props.children[2].props.items.map((item: any) => item.color)).toEqual(['#0072B2', '#D55E00']);
+    });
+
+    it('should use per-series markers under the monochrome theme', () => {
+      const result = withChartTheme(monochromeTheme, () =>
+        executeComponent({
+          data: [{ points: [{ x: 0, y: 0 }] }, { points: [{ x: 1, y: 1 }] }],
+          legend: true,
+        })
+      );
+
+      expect(result.props.children[2].props.items).toEqual([
+        { name: 'Series 1', marker: '●' },
+        { name: 'Series 2', marker: '■' },
+      ]);
+    });
+
+    it('should not render a legend by default', () => {
+      const result = executeComponent({ data: [{ points: [{ x: 0, y: 0 }] }] });
+      expect(result.props.children[2]).toBeFalsy();
+    });
+  });
+});
@@ -1 +1,5 @@
-// Jest setup file for ink-chart tests
\ No newline at end of file
+// Jest setup file for ink-chart tests
+
+// Test output is piped, which disables colors (see getColorDepth). Specs assert on
+// colors, so unless a depth is given they run as on a 16-color terminal.
+process.env.FORCE_COLOR_DEPTH ??= '1';
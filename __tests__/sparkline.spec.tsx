@@ -6,6 +6,17 @@ jest.mock('ink', () => ({
   Box: ({ children }: { children: React.ReactNode }) => children,
 }));
 
+// Components are called directly, outside a renderer: memoized values are computed on each call
+jest.mock('react', () => ({
+  ...jest.requireActual('react'),
+  useMemo: (factory: () => unknown) => factory(),
+}));
+
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
 // Mock useAutoWidth hook
 jest.mock('../src/core/useAutoWidth.js', () => ({
   useAutoWidth: () => ({
@@ -15,6 +26,9 @@ jest.mock('../src/core/useAutoWidth.js', () => ({
 }));
 
 import { Sparkline } from '../src/components/Sparkline.js';
+import { valuesToBlockRows } from '../src/core/symbols.js';
+import { monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
 
 describe('Sparkline Component', () => {
   describe('Basic component structure', () => {
@@ -236,4 +250,195 @@ describe('Sparkline Component', () => {
       expect(withCaption).not.toEqual(withoutCaption);
     });
   });
-});
\ No newline at end of file
+
+  describe('Custom color schemes', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it('should not build a ramp without a threshold', () => {
+      const result = Sparkline({ data: [1, 5, 10], colorScheme: ['lime', 'rgb(0, 0, 0)'] }) as any;
+
+      expect(result.props.children).toBe('▁▄█');
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the default scheme for invalid stops', () => {
+      const invalid = Sparkline({ data: [1, 5, 10], threshold: [2, 8], colorScheme: ['lime', '#ffffff'] }) as any;
+      const fallback = Sparkline({ data: [1, 5, 10], threshold: [2, 8] }) as any;
+
+      expect(invalid.props.children).toBe(fallback.props.children);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown color "lime"'));
+    });
+  });
+
+  describe('Multi-row height', () => {
+    it('should render one line per row when height > 1', () => {
+      const data = [1, 2, 3, 4, 5];
+      const result = Sparkline({ data, height: 3 }) as any;
+      const rows = result.props.children[0];
+      expect(rows).toHaveLength(3);
+    });
+
+    it('should keep single-row output when height is 1', () => {
+      const data = [1, 2, 3, 4, 5];
+      expect(Sparkline({ data, height: 1 })).toEqual(Sparkline({ data }));
+    });
+
+    it('should ignore height in braille mode', () => {
+      const data = [1, 2, 3, 4, 5];
+      expect(Sparkline({ data, mode: 'braille', height: 4 })).toEqual(Sparkline({ data, mode: 'braille' }));
+    });
+
+    it('should apply threshold coloring to every row', () => {
+      const data = [1, 5, 10];
+      const result = Sparkline({ data, height: 2, threshold: 7 }) as any;
+      const rowTexts: string[] = result.props.children[0].map((row: any) => row.props.children);
+      expect(rowTexts.every(text => text.includes('\u001b['))).toBe(true);
+    });
+
+    it('should highlight values above the threshold with the active theme highlight', () => {
+      const result = withChartTheme(monochromeTheme, () => Sparkline({ data: [1, 5, 10], threshold: 7 })) as any;
+      // The monochrome theme highlights in bold instead of red
+      expect(result.props.children).toBe('▁▄\u001b[1m█\u001b[0m');
+    });
+
+    it('should scale each row to the requested width', () => {
+      const data = [1, 2, 3];
+      const result = Sparkline({ data, height: 2, width: 12 }) as any;
+      const rowTexts: string[] = result.props.children[0].map((row: any) => row.props.children);
+      expect(rowTexts.every(text => text.length === 12)).toBe(true);
+    });
+  });
+
+  describe('Scale', () => {
+    it('should keep the linear output by default', () => {
+      const data = [1, 10, 100, 1000];
+      expect(Sparkline({ data, scale: 'linear' })).toEqual(Sparkline({ data }));
+    });
+
+    it('should spread orders of magnitude evenly on a log scale', () => {
+      const result = Sparkline({ data: [1, 10, 100, 1000], scale: 'log' }) as any;
+      expect(result.props.children).toBe('▁▃▅█');
+    });
+
+    it('should use a fixed yDomain as the scale domain', () => {
+      const result = Sparkline({ data: [1, 10, 100], yDomain: [1, 100], scale: 'log' }) as any;
+      expect(result.props.children).toBe('▁▄█');
+    });
+
+    it('should map non-positive values to the lowest symbol on a log scale', () => {
+      const result = Sparkline({ data: [0, 10, 100], scale: 'log' }) as any;
+      expect(result.props.children[0]).toBe('▁');
+    });
+
+    it('should render data too long to spread into Math.min/Math.max', () => {
+      const data = Array.from({ length: 200_000 }, (_, i) => i + 1);
+      for (const scale of ['log', 'linear'] as const) {
+        const result = Sparkline({ data, scale, width: 10 }) as any;
+        expect(result.props.children).toHaveLength(10);
+        expect(result.props.children[0]).toBe('▁');
+      }
+    });
+
+    it('should render constant data in the middle', () => {
+      expect(Sparkline({ data: [5, 5, 5], scale: 'sqrt' })).toEqual(Sparkline({ data: [5, 5, 5] }));
+    });
+  });
+
+  describe('missing values', () => {
+    it('should render missing values as blank cells', () => {
+      const result = Sparkline({ data: [0, null, NaN, 8] }) as any;
+      expect(result.props.children).toBe('▁  █');
+    });
+
+    it('should fill gaps with interpolate and hold', () => {
+      expect((Sparkline({ data: [0, null, 8], missing: 'interpolate' }) as any).props.children).toBe('▁▄█');
+      expect((Sparkline({ data: [0, null, 8], missing: 'hold' }) as any).props.children).toBe('▁▁█');
+    });
+
+    it('should keep gaps in stacked rows', () => {
+      const result = Sparkline({ data: [0, null, 8], height: 2 }) as any;
+      expect(result.props.children[0].map((row: any) => row.props.children)).toEqual(['  █', '▁ █']);
+    });
+
+    it('should not highlight blank cells', () => {
+      const result = Sparkline({ data: [9, null, 9], threshold: 5 }) as any;
+      expect(result.props.children.split(' ')).toHaveLength(2);
+    });
+  });
+
+  describe('downsample', () => {
+    // One spike that evenly spaced sampling skips
+    const data = Array.from({ length: 40 }, (_, i) => (i === 13 ? 10 : 0));
+
+    it('should skip a narrow spike without downsampling', () => {
+      const result = Sparkline({ data, width: 8 }) as any;
+      expect(result.props.children).not.toContain('█');
+    });
+
+    it('should keep the spike with lttb and minmax', () => {
+      for (const downsample of ['lttb', 'minmax'] as const) {
+        const result = Sparkline({ data, width: 8, downsample }) as any;
+        expect(result.props.children).toHaveLength(8);
+        expect(result.props.children).toContain('█');
+      }
+    });
+
+    it('should average values with mean', () => {
+      const result = Sparkline({ data: [0, 0, 0, 8, 4, 4, 4, 4], width: 2, downsample: 'mean' }) as any;
+      expect(result.props.children).toBe('▁█');
+    });
+
+    it('should keep gaps between downsampled runs', () => {
+      const gapped = [...Array(20).fill(1), null, null, ...Array(18).fill(8)];
+      for (const downsample of ['lttb', 'minmax', 'mean'] as const) {
+        const result = Sparkline({ data: gapped, width: 10, downsample }) as any;
+        expect(result.props.children).toHaveLength(10);
+        expect(result.props.children).toMatch(/^▁+ +█+$/);
+      }
+    });
+
+    it('should leave data that fits the width unchanged', () => {
+      expect(Sparkline({ data: [1, 3, 2], width: 5, downsample: 'minmax' }))
+        .toEqual(Sparkline({ data: [1, 3, 2], width: 5 }));
+    });
+  });
+
+  describe('valuesToBlockRows', () => {
+    it('should match single-row block symbols when rows is 1', () => {
+      expect(valuesToBlockRows([0, 0.5, 1], 1, true)).toEqual([['▁', '▄', '█']]);
+    });
+
+    it('should stack full blocks beneath partial glyphs', () => {
+      expect(valuesToBlockRows([0, 0.5, 1], 2, true)).toEqual([
+        [' ', ' ', '█'],
+        ['▁', '█', '█'],
+      ]);
+    });
+
+    it('should provide rows * 8 distinct levels', () => {
+      const values = Array.from({ length: 32 }, (_, i) => i / 31);
+      const rows = valuesToBlockRows(values, 4, true);
+      const columns = values.map((_, i) => rows.map(row => row[i]).join(''));
+      expect(new Set(columns).size).toBe(32);
+    });
+
+    it('should auto-normalize using min/max and center uniform data', () => {
+      expect(valuesToBlockRows([10, 20], 2)).toEqual([
+        [' ', '█'],
+        ['▁', '█'],
+      ]);
+      expect(valuesToBlockRows([5, 5], 2)).toEqual([
+        [' ', ' '],
+        ['█', '█'],
+      ]);
+    });
+  });
+});
@@ -6,12 +6,25 @@ jest.mock('ink', () => ({
   Box: ({ children }: any) => React.createElement('div', {}, children),
 }));
 
+// Mock useChartTheme hook (darkTheme unless overridden with withChartTheme)
+jest.mock('../src/core/useChartTheme.js', () => ({
+  useChartTheme: () => jest.requireActual('./helpers/chartTheme.js').mockUseChartTheme(),
+}));
+
 // Mock useAutoWidth hook
 jest.mock('../src/core/useAutoWidth.js', () => ({
   useAutoWidth: () => ({ width: 80, isAutoWidth: true }),
 }));
 
-import { StackedBarChart, StackedBarSegment } from '../src/components/StackedBarChart.js';
+import {
+  StackedBarChart,
+  StackedBarSegment,
+  MultiStackedBarChart,
+  MultiStackedBarChartProps
+} from '../src/components/StackedBarChart.js';
+import { Legend } from '../src/components/Legend.js';
+import { highContrastTheme, monochromeTheme } from '../src/theme.js';
+import { withChartTheme } from './helpers/chartTheme.js';
 
 describe('StackedBarChart Component', () => {
   // Execute the component function directly to trigger internal logic
@@ -327,4 +340,206 @@ describe('StackedBarChart Component', () => {
 
     expect(result).not.toBeNull();
   });
+
+  it('should render a legend of segments when legend is enabled', () => {
+    const result = executeComponent({
+      data: [
+        { label: 'A', value: 30, color: 'green' },
+        { label: 'B', value: 70 }
+      ],
+      legend: 'vertical'
+    });
+
+    const legend = result.props.children[3];
+    expect(legend.type).toBe(Legend);
+    expect(legend.props.layout).toBe('vertical');
+    expect(legend.props.items).toEqual([
+      { name: 'A', marker: '█', color: 'green' },
+      { name: 'B', marker: '█', color: '#56B4E9' }
+    ]);
+  });
+
+  it('should color segments without a color from the theme palette', () => {
+    const result = executeComponent({
+      data: [
+        { label: 'A', value: 1 },
+        { label: 'B', value: 1 }
+      ],
+      width: 10
+    });
+
+    const segments = result.props.children[1].props.children;
+    expect(segments.map((segment: any) => segment.props.color)).toEqual(['#E69F00', '#56B4E9']);
+  });
+
+  it('should color segments from the active theme palette', () => {
+    const result = withChartTheme(highContrastTheme, () =>
+      executeComponent({
+        data: [
+          { label: 'A', value: 1 },
+          { label: 'B', value: 1 }
+        ],
+        width: 10
+      })
+    );
+
+    const segments = result.props.children[1].props.children;
+    expect(segments.map((segment: any) => segment.props.color)).toEqual(['cyanBright', 'magentaBright']);
+  });
+
+  it('should tell segments apart by fill pattern when patterns are enabled', () => {
+    const result = executeComponent({
+      data: [
+        { label: 'A', value: 1 },
+        { label: 'B', value: 1 },
+        { label: 'C', value: 2, char: '▪' }
+      ],
+      width: 8,
+      patterns: true,
+      legend: true
+    });
+
+    expect(result.props.children[3].props.items.map((item: any) => item.marker)).toEqual(['█', '▓', '▪']);
+  });
+
+  it('should not render a legend by default', () => {
+    const result = executeComponent({ data: [{ label: 'A', value: 1 }] });
+    expect(result.props.children[3]).toBeNull();
+  });
+});
+
+describe('MultiStackedBarChart Component', () => {
+  // Execute the component function directly to trigger internal logic
+  const executeComponent = (props: MultiStackedBarChartProps) => {
+    const MultiStackedBarChartFunc = (MultiStackedBarChart as any).type || MultiStackedBarChart;
+    return MultiStackedBarChartFunc(props);
+  };
+
+  const collect = (node: any): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(collect).join('');
+    return collect(node.props?.children);
+  };
+  const getRows = (result: any): string[] => result.props.children[0].map(collect);
+  const getSegments = (row: any): Array<{ text: string; color: string }> =>
+    row.props.children[2].map((segment: any) => ({
+      text: collect(segment),
+      color: segment.props.color,
+    }));
+
+  const data = [
+    {
+      label: 'api',
+      segments: [
+        { label: 'pass', value: 30, color: 'green' },
+        { label: 'fail', value: 10, color: 'red' }
+      ]
+    },
+    {
+      label: 'frontend',
+      segments: [
+        { label: 'pass', value: 10 },
+        { label: 'fail', value: 10 }
+      ]
+    }
+  ];
+
+  it('should return null for empty data', () => {
+    expect(executeComponent({ data: [] })).toBeNull();
+  });
+
+  it('should return null when every row total is zero', () => {
+    expect(executeComponent({ data: [{ label: 'a', segments: [{ label: 'x', value: 0 }] }] })).toBeNull();
+  });
+
+  it('should fill every row in percentage mode', () => {
+    const result = executeComponent({ data });
+    const rows = getRows(result);
+
+    expect(rows[0]).toBe('api      ' + '█'.repeat(40));
+    expect(rows[1]).toBe('frontend ' + '█'.repeat(40));
+    expect(getSegments(result.props.children[0][0]).map(s => s.text.length)).toEqual([30, 10]);
+    expect(getSegments(result.props.children[0][1]).map(s => s.text.length)).toEqual([20, 20]);
+  });
+
+  it('should scale rows against a common max in absolute mode', () => {
+    const result = executeComponent({ data, mode: 'absolute' });
+
+    expect(getSegments(result.props.children[0][0]).map(s => s.text.length)).toEqual([30, 10]);
+    expect(getSegments(result.props.children[0][1]).map(s => s.text.length)).toEqual([10, 10]);
+  });
+
+  it('should use a fixed max in absolute mode', () => {
+    const result = executeComponent({ data, mode: 'absolute', max: 80 });
+
+    expect(getSegments(result.props.children[0][0]).map(s => s.text.length)).toEqual([15, 5]);
+  });
+
+  it('should fit labels and bars within a fixed width', () => {
+    const result = executeComponent({ data, width: 30 });
+
+    getRows(result).forEach(row => expect(row).toHaveLength(30));
+  });
+
+  it('should keep one color per segment label across rows', () => {
+    const result = executeComponent({ data });
+    const colors = result.props.children[0].map((row: any) => getSegments(row).map(s => s.color));
+
+    expect(colors).toEqual([
+      ['green', 'red'],
+      ['green', 'red']
+    ]);
+  });
+
+  it('should assign default colors to segment labels without one', () => {
+    const result = executeComponent({
+      data: [{ label: 'a', segments: [{ label: 'x', value: 1 }, { label: 'y', value: 1 }] }]
+    });
+
+    expect(getSegments(result.props.children[0][0]).map(s => s.color)).toEqual(['#E69F00', '#56B4E9']);
+  });
+
+  it('should keep one fill pattern per segment label when patterns are enabled', () => {
+    const result = executeComponent({
+      data: [
+        { label: 'a', segments: [{ label: 'x', value: 1 }, { label: 'y', value: 1 }] },
+        { label: 'b', segments: [{ label: 'y', value: 1 }] }
+      ],
+      width: 10,
+      patterns: true
+    });
+
+    expect(getSegments(result.props.children[0][0]).map(s => s.text[0])).toEqual(['█', '▓']);
+    expect(getSegments(result.props.children[0][1]).map(s => s.text[0])).toEqual(['▓']);
+    expect(result.props.children[1].props.items.map((item: any) => item.marker)).toEqual(['█', '▓']);
+  });
+
+  it('should use fill patterns under the monochrome theme', () => {
+    const result = withChartTheme(monochromeTheme, () =>
+      executeComponent({
+        data: [{ label: 'a', segments: [{ label: 'x', value: 1 }, { label: 'y', value: 1 }] }],
+        width: 10
+      })
+    );
+
+    expect(getSegments(result.props.children[0][0]).map(s => s.text[0])).toEqual(['█', '▓']);
+    expect(getSegments(result.props.children[0][0]).map(s => s.color)).toEqual([undefined, undefined]);
+  });
+
+  it('should render a shared legend with each segment label once', () => {
+    const result = executeComponent({ data });
+
+    expect(result.props.children[1].type).toBe(Legend);
+    expect(result.props.children[1].props.items).toEqual([
+      { name: 'pass', color: 'green', marker: '█' },
+      { name: 'fail', color: 'red', marker: '█' }
+    ]);
+  });
+
+  it('should hide the legend when legend is false', () => {
+    const result = executeComponent({ data, legend: false });
+
+    expect(result.props.children[1]).toBeNull();
+  });
 });
@@ -0,0 +1,123 @@
+import { GRADIENT_LEVELS, GRADIENT_RAMPS, resetColorDepthCache } from '../src/core/ansi';
+import { PERCEPTUAL_RAMPS } from '../src/core/colorScale';
+import {
+  CHART_THEMES,
+  COLORBLIND_SAFE_PALETTE,
+  colorProps,
+  createChartTheme,
+  darkTheme,
+  fillPattern,
+  hasTextStyle,
+  lightTheme,
+  monochromeTheme,
+  paletteColor,
+  plainChartTheme,
+  pointMarker,
+  visibleColor,
+} from '../src/theme';
+
+describe('chart themes', () => {
+  describe('built-in themes', () => {
+    it('should use the built-in gradients for the dark theme', () => {
+      expect(darkTheme.gradients).toEqual({ ...GRADIENT_RAMPS, ...PERCEPTUAL_RAMPS });
+      expect(darkTheme.axis).toEqual({ dimColor: true });
+    });
+
+    it('should define a full ramp for every scheme of every theme', () => {
+      for (const theme of Object.values(CHART_THEMES)) {
+        for (const ramp of Object.values(theme.gradients)) {
+          expect(ramp.rgb).toHaveLength(GRADIENT_LEVELS);
+          expect(ramp.ansi256).toHaveLength(GRADIENT_LEVELS);
+          expect(ramp.ansi16).toHaveLength(2);
+        }
+      }
+    });
+
+    it('should not color series in the monochrome theme', () => {
+      expect(monochromeTheme.palette).toEqual([]);
+      expect(monochromeTheme.overlayColor).toBeUndefined();
+    });
+
+    it('should use the colorblind-safe palette by default and patterns in monochrome', () => {
+      expect(darkTheme.palette).toBe(COLORBLIND_SAFE_PALETTE);
+      expect(darkTheme.patterns).toBe(false);
+      expect(monochromeTheme.patterns).toBe(true);
+    });
+  });
+
+  describe('createChartTheme', () => {
+    it('should merge nested values key by key', () => {
+      const theme = createChartTheme({ axis: { color: 'blue' }, glyphs: { bar: '█' } });
+      expect(theme.axis).toEqual({ dimColor: true, color: 'blue' });
+      expect(theme.glyphs).toEqual({ ...darkTheme.glyphs, bar: '█' });
+      expect(theme.palette).toBe(darkTheme.palette);
+    });
+
+    it('should replace top-level values and start from the given base', () => {
+      const theme = createChartTheme({ palette: ['#ff8800'], gradients: { red: GRADIENT_RAMPS.blue } }, lightTheme);
+      expect(theme.palette).toEqual(['#ff8800']);
+      expect(theme.gradients.red).toBe(GRADIENT_RAMPS.blue);
+      expect(theme.gradients.green).toBe(lightTheme.gradients.green);
+      expect(theme.axis).toEqual(lightTheme.axis);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should cycle through the palette', () => {
+      expect(paletteColor(darkTheme, 0)).toBe('#E69F00');
+      expect(paletteColor(darkTheme, 8)).toBe('#56B4E9');
+      expect(paletteColor(monochromeTheme, 0)).toBeUndefined();
+    });
+
+    it('should cycle through fill patterns and point markers', () => {
+      expect(fillPattern(darkTheme, 1)).toBe('▓');
+      expect(fillPattern(darkTheme, 5)).toBe('▓');
+      expect(pointMarker(darkTheme, 2)).toBe('▲');
+      expect(pointMarker(darkTheme, 6)).toBe('●');
+    });
+
+    it('should fall back to the single glyphs without pattern lists', () => {
+      const theme = createChartTheme({ glyphs: { fillPatterns: [], pointMarkers: [] } });
+      expect(fillPattern(theme, 3)).toBe(theme.glyphs.segment);
+      expect(pointMarker(theme, 3)).toBe(theme.glyphs.point);
+    });
+
+    it('should detect styles that change text', () => {
+      expect(hasTextStyle({})).toBe(false);
+      expect(hasTextStyle({ dimColor: false })).toBe(false);
+      expect(hasTextStyle({ color: 'gray' })).toBe(true);
+    });
+
+    it('should omit missing colors from Ink props', () => {
+      expect(colorProps(undefined)).toEqual({});
+      expect(colorProps('red')).toEqual({ color: 'red' });
+    });
+
+    it('should drop colors when colors are disabled', () => {
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, FORCE_COLOR_DEPTH: '0' };
+      resetColorDepthCache();
+      try {
+        expect(visibleColor('red')).toBeUndefined();
+        expect(colorProps('red')).toEqual({});
+      } finally {
+        process.env = originalEnv;
+        resetColorDepthCache();
+      }
+    });
+
+    it('should strip colors and styles but keep glyphs in a plain theme', () => {
+      const theme = plainChartTheme(lightTheme);
+      expect(theme.palette).toEqual([]);
+      expect(theme.axis).toEqual({});
+      expect(theme.overlayColor).toBeUndefined();
+      expect(theme.patterns).toBe(true);
+      expect(theme.glyphs).toBe(lightTheme.glyphs);
+    });
+
+    it('should return the same plain theme for the same base theme', () => {
+      expect(plainChartTheme(lightTheme)).toBe(plainChartTheme(lightTheme));
+      expect(plainChartTheme(lightTheme)).not.toBe(plainChartTheme(darkTheme));
+    });
+  });
+});
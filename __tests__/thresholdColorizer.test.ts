@@ -27,6 +27,10 @@ jest.mock('../src/core/ansi.js', () => ({
   green6: (text: string) => `[green6]${text}[/green6]`,
   green7: (text: string) => `[green7]${text}[/green7]`,
   green8: (text: string) => `[green8]${text}[/green8]`,
+  colorize: (text: string, code: string) => `${code}${text}`,
+  gradientColorCode: (_ramp: unknown, level: number) => `[ramp${level + 1}]`,
+  GRADIENT_LEVELS: 8,
+  getCachedColorDepth: () => 8,
 }));
 
 describe('ThresholdColorizer', () => {
@@ -126,6 +130,32 @@ describe('ThresholdColorizer', () => {
     });
   });
 
+  describe('Custom ramp and highlight', () => {
+    const ramp = { rgb: [], ansi256: [], ansi16: [90, 37] as const };
+
+    it('should use the ramp for multiple thresholds', () => {
+      const colorizer = new ThresholdColorizer('blue', { ramp });
+      const result = colorizer.applyHighlighting(['▁', '▄', '▇'], [1, 6, 9], [2, 5, 8]);
+      expect(result).toBe('▁[ramp2]▄[ramp3]▇');
+    });
+
+    it('should spread continuous schemes over all thresholds', () => {
+      const colorizer = new ThresholdColorizer(['#000000', '#ffffff']);
+      const result = colorizer.applyHighlighting(['▁', '▄', '▇'], [1, 3, 9], [2, 5]);
+      expect(result).toBe('▁\u001b[38;2;128;128;128m▄\u001b[38;2;255;255;255m▇');
+    });
+
+    it('should resolve perceptual schemes without a ramp option', () => {
+      const colorizer = new ThresholdColorizer('viridis');
+      expect(colorizer.applyHighlighting(['▇'], [9], [5])).toBe('\u001b[38;2;253;231;37m▇');
+    });
+
+    it('should use the highlight sequence for a single threshold', () => {
+      const colorizer = new ThresholdColorizer('red', { highlight: '[bold]' });
+      expect(colorizer.applyHighlighting(['▁', '▇'], [1, 9], 5)).toBe('▁[bold]▇');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle empty symbols array', () => {
       const colorizer = new ThresholdColorizer('red');
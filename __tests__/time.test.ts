@@ -0,0 +1,101 @@
+import { timeInterval, timeTicks, timeTickFormat, toTimestamp } from '../src/time';
+
+describe('time functions', () => {
+  // Local times keep the calendar alignment independent of the test machine's time zone
+  const at = (hours: number, minutes: number = 0, seconds: number = 0, day: number = 15) =>
+    new Date(2024, 0, day, hours, minutes, seconds).getTime();
+
+  describe('toTimestamp', () => {
+    it('should convert Dates and keep numbers', () => {
+      expect(toTimestamp(new Date(1000))).toBe(1000);
+      expect(toTimestamp(2000)).toBe(2000);
+    });
+  });
+
+  describe('timeInterval', () => {
+    it('should pick the smallest calendar interval that fits the tick count', () => {
+      expect(timeInterval([at(10), at(10, 0, 50)], 5)).toEqual({ unit: 'second', step: 15 });
+      expect(timeInterval([at(10), at(11)], 4)).toEqual({ unit: 'minute', step: 15 });
+      expect(timeInterval([at(0), at(12)], 4)).toEqual({ unit: 'hour', step: 3 });
+      expect(timeInterval([at(0, 0, 0, 1), at(0, 0, 0, 6)], 5)).toEqual({ unit: 'day', step: 1 });
+    });
+
+    it('should use milliseconds for sub-second ranges', () => {
+      expect(timeInterval([0, 500], 5)).toEqual({ unit: 'millisecond', step: 1 });
+    });
+
+    it('should use multiples of days for long ranges', () => {
+      expect(timeInterval([at(0, 0, 0, 1), at(0, 0, 0, 1) + 200 * 24 * 3600 * 1000], 4)).toEqual({
+        unit: 'day',
+        step: 50,
+      });
+    });
+  });
+
+  describe('timeTicks', () => {
+    it('should place ticks on calendar boundaries within the domain', () => {
+      expect(timeTicks([at(9, 50), at(11, 10)], 4)).toEqual([at(10), at(10, 30), at(11)]);
+    });
+
+    it('should align hours to multiples of the step', () => {
+      expect(timeTicks([at(1), at(13)], 4)).toEqual([at(3), at(6), at(9), at(12)]);
+    });
+
+    it('should align days to midnight', () => {
+      expect(timeTicks([at(12, 0, 0, 1), at(12, 0, 0, 4)], 4)).toEqual([
+        at(0, 0, 0, 2),
+        at(0, 0, 0, 3),
+        at(0, 0, 0, 4),
+      ]);
+    });
+
+    it('should keep multi-day ticks evenly spaced across month boundaries', () => {
+      const day = (month: number, date: number) => new Date(2024, month, date).getTime();
+      // Two-day steps over the end of February 2024 (29 days)
+      expect(timeTicks([day(1, 27), day(2, 7)], 5)).toEqual([
+        day(1, 27),
+        day(1, 29),
+        day(2, 2),
+        day(2, 4),
+        day(2, 6),
+      ]);
+      // A domain starting in March keeps the same ticks instead of restarting on the 1st
+      expect(timeTicks([day(2, 1), day(2, 10)], 5)).toEqual([
+        day(2, 2),
+        day(2, 4),
+        day(2, 6),
+        day(2, 8),
+        day(2, 10),
+      ]);
+    });
+
+    it('should accept Dates and unordered domains', () => {
+      expect(timeTicks([new Date(at(11, 10)), new Date(at(9, 50))], 4)).toEqual([at(10), at(10, 30), at(11)]);
+    });
+
+    it('should use numeric ticks for sub-second ranges', () => {
+      expect(timeTicks([0, 100], 2)).toEqual([0, 50, 100]);
+    });
+
+    it('should handle degenerate domains', () => {
+      expect(timeTicks([], 5)).toEqual([]);
+      expect(timeTicks([NaN, NaN], 5)).toEqual([]);
+      expect(timeTicks([at(10), at(11)], 0)).toEqual([]);
+    });
+  });
+
+  describe('timeTickFormat', () => {
+    it('should format times of day for intervals below a day', () => {
+      expect(timeTickFormat({ unit: 'minute', step: 15 }, 'en-US')(at(14, 30))).toBe('14:30');
+      expect(timeTickFormat({ unit: 'second', step: 5 }, 'en-US')(at(9, 5, 20))).toBe('09:05:20');
+    });
+
+    it('should format month and day for day intervals', () => {
+      expect(timeTickFormat({ unit: 'day', step: 1 }, 'en-US')(at(0, 0, 0, 5))).toBe('Jan 5');
+    });
+
+    it('should append milliseconds for sub-second intervals', () => {
+      expect(timeTickFormat({ unit: 'millisecond', step: 1 }, 'en-US')(at(10, 2, 3) + 45)).toBe('02:03.045');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { useTimeSeries, UseTimeSeriesOptions, UseTimeSeriesResult } from '../src/core/useTimeSeries.js';
+
+// Minimal hook runtime: hook state persists across renders by call order
+const mockHookState: any[] = [];
+let mockHookIndex = 0;
+// Subscribe function passed to useSyncExternalStore on the latest render
+let mockSubscribe: (listener: () => void) => () => void;
+
+jest.mock('react', () => {
+  const actualReact = jest.requireActual('react');
+  const depsChanged = (prev: unknown[] | undefined, next: unknown[]) =>
+    !prev || prev.length !== next.length || prev.some((dep, i) => !Object.is(dep, next[i]));
+  const memoize = (factory: () => unknown, deps: unknown[]) => {
+    const index = mockHookIndex++;
+    const previous = mockHookState[index];
+    if (!previous || depsChanged(previous.deps, deps)) {
+      mockHookState[index] = { value: factory(), deps };
+    }
+    return mockHookState[index].value;
+  };
+  return {
+    ...actualReact,
+    useRef: (initial: unknown) => {
+      const index = mockHookIndex++;
+      if (!(index in mockHookState)) mockHookState[index] = { current: initial };
+      return mockHookState[index];
+    },
+    useState: (initial: unknown) => {
+      const index = mockHookIndex++;
+      if (!(index in mockHookState)) mockHookState[index] = initial;
+      const setState = (update: any) => {
+        mockHookState[index] = typeof update === 'function' ? update(mockHookState[index]) : update;
+      };
+      return [mockHookState[index], setState];
+    },
+    useMemo: memoize,
+    useCallback: (callback: unknown, deps: unknown[]) => memoize(() => callback, deps),
+    useSyncExternalStore: (subscribe: (listener: () => void) => () => void, getSnapshot: () => unknown) => {
+      mockSubscribe = subscribe;
+      return getSnapshot();
+    },
+  };
+});
+
+describe('useTimeSeries Hook', () => {
+  // Calls the hook as a fresh render of the same component
+  const renderTimeSeries = (options: UseTimeSeriesOptions): UseTimeSeriesResult => {
+    mockHookIndex = 0;
+    const hook = useTimeSeries;
+    return hook(options);
+  };
+
+  beforeEach(() => {
+    mockHookState.length = 0;
+  });
+
+  it('should start with the newest initial values', () => {
+    const result = renderTimeSeries({ capacity: 3, initialValues: [1, 2, 3, 4] });
+
+    expect(result.values).toEqual([2, 3, 4]);
+    expect(result.timestamps).toHaveLength(3);
+  });
+
+  it('should append pushed values and keep a sliding window', () => {
+    let result = renderTimeSeries({ capacity: 3 });
+    [1, 2, 3, 4].forEach(value => result.push(value));
+    result = renderTimeSeries({ capacity: 3 });
+
+    expect(result.values).toEqual([2, 3, 4]);
+  });
+
+  it('should record push times or explicit timestamps', () => {
+    let result = renderTimeSeries({ capacity: 5 });
+    result.push(1, 1000);
+    result.push(2, new Date(2000));
+    const before = Date.now();
+    result.push(3);
+    result = renderTimeSeries({ capacity: 5 });
+
+    expect(result.timestamps.slice(0, 2)).toEqual([1000, 2000]);
+    expect(result.timestamps[2]).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should keep the same arrays and functions when nothing was pushed', () => {
+    const first = renderTimeSeries({ capacity: 3, initialValues: [1] });
+    const second = renderTimeSeries({ capacity: 3 });
+
+    expect(second.values).toBe(first.values);
+    expect(second.timestamps).toBe(first.timestamps);
+    expect(second.push).toBe(first.push);
+    expect(second.clear).toBe(first.clear);
+  });
+
+  it('should return new arrays after a push', () => {
+    const first = renderTimeSeries({ capacity: 3, initialValues: [1] });
+    first.push(2);
+    const second = renderTimeSeries({ capacity: 3 });
+
+    expect(second.values).not.toBe(first.values);
+    expect(first.values).toEqual([1]);
+  });
+
+  it('should notify subscribers once for a burst of pushes', async () => {
+    const result = renderTimeSeries({ capacity: 3 });
+    const listener = jest.fn();
+    const unsubscribe = mockSubscribe(listener);
+
+    [1, 2, 3].forEach(value => result.push(value));
+    expect(listener).not.toHaveBeenCalled();
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    result.push(4);
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear the window', () => {
+    let result = renderTimeSeries({ capacity: 3, initialValues: [1, 2] });
+    result.clear();
+    result = renderTimeSeries({ capacity: 3 });
+
+    expect(result.values).toEqual([]);
+  });
+
+  it('should keep the newest samples when the capacity changes', () => {
+    renderTimeSeries({ capacity: 4, initialValues: [1, 2, 3, 4] });
+    const smaller = renderTimeSeries({ capacity: 2 });
+    expect(smaller.values).toEqual([3, 4]);
+
+    smaller.push(5);
+    const larger = renderTimeSeries({ capacity: 5 });
+    expect(larger.values).toEqual([4, 5]);
+  });
+});
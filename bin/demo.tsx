@@ -8,12 +8,12 @@
  * threshold highlighting, and value positioning.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { render, Box, Text, Newline } from 'ink';
 
 // Prevent MaxListenersExceededWarning from ink's SIGWINCH handlers
 process.setMaxListeners(20);
-import { Sparkline, BarChart, BarChartData, StackedBarChart, LineGraph } from '../src/index.js';
+import { Sparkline, BarChart, BarChartData, StackedBarChart, LineGraph, useTimeSeries } from '../src/index.js';
 
 /**
  * Generate realistic RPS (Requests Per Second) data
@@ -53,19 +53,18 @@ function generateThresholdData(): number[] {
  * Dynamic sparkline demo with simulated data
  */
 function DynamicSparklineDemo() {
-  const [rpsHistory, setRpsHistory] = useState<number[]>([45, 52, 48, 67, 71, 58, 63, 89, 94, 82, 76, 69, 55, 51, 48, 44, 39, 42, 38, 35, 41, 47, 52, 58]);
+  const { values: rpsHistory, push } = useTimeSeries({
+    capacity: 24,
+    initialValues: [45, 52, 48, 67, 71, 58, 63, 89, 94, 82, 76, 69, 55, 51, 48, 44, 39, 42, 38, 35, 41, 47, 52, 58],
+  });
 
   useEffect(() => {
     const interval = setInterval(() => {
-      setRpsHistory(prev => {
-        const newValue = 40 + Math.random() * 60; // 40-100 RPS
-        const newHistory = [...prev.slice(1), newValue]; // Rolling window
-        return newHistory;
-      });
+      push(40 + Math.random() * 60); // 40-100 RPS, oldest sample drops out of the window
     }, 1500); // Update every 1.5 seconds
 
     return () => clearInterval(interval);
-  }, []);
+  }, [push]);
 
   return (
     <Box flexDirection="column">
@@ -318,6 +317,32 @@ function StaticDemo(): React.ReactElement {
             caption="Red: 2023, Cyan: 2024"
           />
         </DemoCard>
+
+        <DemoCard feature="Stacked Areas" description="fill='between' with stacked">
+          <LineGraph
+            data={[
+              { values: [40, 42, 45, 50, 48, 52, 55, 58, 60, 62], color: 'green', name: 'heap', fill: 'below' },
+              { values: [20, 22, 25, 24, 28, 30, 28, 26, 30, 32], color: 'yellow', name: 'cache', fill: 'between' },
+              { values: [10, 12, 10, 14, 12, 15, 18, 16, 14, 15], color: 'cyan', name: 'buffers', fill: 'between' },
+            ]}
+            width={40}
+            height={6}
+            stacked={true}
+            legend={true}
+          />
+        </DemoCard>
+
+        <DemoCard feature="Reference Lines" description="SLO line, band and deploy marker">
+          <LineGraph
+            data={[{ values: [120, 135, 128, 142, 180, 240, 210, 160, 140, 130, 125, 138], color: 'cyan' }]}
+            width={40}
+            height={6}
+            showYAxis={true}
+            referenceLines={[{ y: 200, label: 'SLO', color: 'red' }]}
+            bands={[{ from: 100, to: 150, color: 'green' }]}
+            markers={[{ x: 4, label: 'deploy', color: 'yellow' }]}
+          />
+        </DemoCard>
       </Box>
       <Divider />
 
@@ -350,27 +375,28 @@ function StaticDemo(): React.ReactElement {
  * Dynamic LineGraph demo with simulated stock prices
  */
 function DynamicLineGraphDemo() {
-  const [stockA, setStockA] = useState<number[]>([100, 102, 98, 105, 103, 108, 106, 110, 107, 112, 109, 115, 112, 118, 115, 120]);
-  const [stockB, setStockB] = useState<number[]>([95, 97, 100, 96, 99, 102, 98, 105, 101, 108, 104, 110, 107, 112, 109, 114]);
+  const { values: stockA, push: pushA } = useTimeSeries({
+    capacity: 16,
+    initialValues: [100, 102, 98, 105, 103, 108, 106, 110, 107, 112, 109, 115, 112, 118, 115, 120],
+  });
+  const { values: stockB, push: pushB } = useTimeSeries({
+    capacity: 16,
+    initialValues: [95, 97, 100, 96, 99, 102, 98, 105, 101, 108, 104, 110, 107, 112, 109, 114],
+  });
+  // Latest prices for the random walk
+  const latest = useRef({ a: 120, b: 114 });
 
   useEffect(() => {
     const interval = setInterval(() => {
-      setStockA(prev => {
-        const lastValue = prev[prev.length - 1] ?? 100;
-        const change = (Math.random() - 0.5) * 6;
-        const newValue = Math.max(80, Math.min(140, lastValue + change));
-        return [...prev.slice(1), newValue];
-      });
-      setStockB(prev => {
-        const lastValue = prev[prev.length - 1] ?? 95;
-        const change = (Math.random() - 0.5) * 5;
-        const newValue = Math.max(75, Math.min(135, lastValue + change));
-        return [...prev.slice(1), newValue];
-      });
+      const prices = latest.current;
+      prices.a = Math.max(80, Math.min(140, prices.a + (Math.random() - 0.5) * 6));
+      prices.b = Math.max(75, Math.min(135, prices.b + (Math.random() - 0.5) * 5));
+      pushA(prices.a);
+      pushB(prices.b);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [pushA, pushB]);
 
   return (
     <Box flexDirection="column">
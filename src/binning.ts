@@ -0,0 +1,134 @@
+/**
+ * Rule for choosing the number of histogram bins automatically
+ * - 'sturges': ceil(log2(n)) + 1 bins, good for roughly normal data
+ * - 'freedman-diaconis': bin width 2 * IQR / cbrt(n), robust to outliers
+ */
+export type BinRule = 'sturges' | 'freedman-diaconis';
+
+/**
+ * A single histogram bin covering [x0, x1)
+ * (the last bin of a count-based binning also includes its upper edge)
+ */
+export interface Bin {
+  /** Lower edge of the bin (inclusive) */
+  x0: number;
+  /** Upper edge of the bin (exclusive, inclusive for the last bin) */
+  x1: number;
+  /** Number of samples in the bin */
+  count: number;
+}
+
+/**
+ * Options for binning samples
+ */
+export interface BinOptions {
+  /**
+   * Number of bins or rule used to derive it (default: 'sturges').
+   * Ignored when binWidth is provided.
+   */
+  bins?: number | BinRule;
+  /** Fixed bin width; edges are aligned to multiples of this width */
+  binWidth?: number;
+}
+
+/**
+ * Upper limit on the number of bins, so a rule or width cannot allocate
+ * millions of bins for data with extreme outliers
+ */
+export const MAX_BINS = 1000;
+
+/**
+ * Calculates the value at quantile q (0-1) of sorted values using linear interpolation
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower]!;
+  return lowerValue + (sorted[upper]! - lowerValue) * (position - lower);
+}
+
+/**
+ * Resolves the number of bins (1 to MAX_BINS) for the given sorted samples
+ */
+function resolveBinCount(sorted: number[], bins: number | BinRule): number {
+  if (typeof bins === 'number') {
+    return Number.isFinite(bins) ? Math.min(MAX_BINS, Math.max(1, Math.floor(bins))) : MAX_BINS;
+  }
+
+  const sturges = Math.ceil(Math.log2(sorted.length)) + 1;
+  if (bins === 'sturges') {
+    return sturges;
+  }
+
+  // Freedman-Diaconis: fall back to Sturges when the width is zero or not finite
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const width = (2 * iqr) / Math.cbrt(sorted.length);
+  if (!Number.isFinite(width) || width <= 0) {
+    return sturges;
+  }
+  const range = sorted[sorted.length - 1]! - sorted[0]!;
+  return Math.min(MAX_BINS, Math.max(1, Math.ceil(range / width)));
+}
+
+/**
+ * Groups numeric samples into equal-width bins.
+ *
+ * Non-finite samples are ignored. When all samples are equal, a single bin
+ * containing every sample is returned. At most MAX_BINS bins are created:
+ * a fixed width that would need more is widened to a multiple of itself.
+ *
+ * @param values - Raw numeric samples
+ * @param options - Bin count, rule or fixed width
+ * @returns Bins ordered by their lower edge, or an empty array for no valid samples
+ *
+ * @example
+ * ```typescript
+ * computeBins([1, 2, 2, 3, 9], { bins: 2 })
+ * // [{ x0: 1, x1: 5, count: 4 }, { x0: 5, x1: 9, count: 1 }]
+ *
+ * computeBins([1, 2, 12], { binWidth: 5 })
+ * // [{ x0: 0, x1: 5, count: 2 }, { x0: 5, x1: 10, count: 0 }, { x0: 10, x1: 15, count: 1 }]
+ * ```
+ */
+export function computeBins(values: number[], options: BinOptions = {}): Bin[] {
+  const { bins = 'sturges', binWidth } = options;
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  const min = sorted[0]!;
+  const max = sorted[sorted.length - 1]!;
+  if (min === max) {
+    return [{ x0: min, x1: max, count: sorted.length }];
+  }
+
+  const hasFixedWidth = binWidth !== undefined && Number.isFinite(binWidth) && binWidth > 0;
+  let start: number;
+  let width: number;
+  let count: number;
+  if (hasFixedWidth) {
+    start = Math.floor(min / binWidth) * binWidth;
+    const fixedCount = Math.floor((max - start) / binWidth) + 1;
+    width = binWidth * Math.max(1, Math.ceil(fixedCount / MAX_BINS));
+    count = Math.max(1, Math.floor((max - start) / width) + 1);
+  } else {
+    count = resolveBinCount(sorted, bins);
+    start = min;
+    width = (max - min) / count;
+  }
+
+  const result: Bin[] = Array.from({ length: count }, (_, i) => ({
+    x0: start + i * width,
+    x1: i === count - 1 && !hasFixedWidth ? max : start + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    const index = Math.min(count - 1, Math.floor((value - start) / width));
+    result[index]!.count++;
+  }
+
+  return result;
+}
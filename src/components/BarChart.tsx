@@ -1,9 +1,30 @@
 import React from 'react';
 import { Text, Box } from 'ink';
 import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
 import { measureWidth, truncateText } from '../measure.js';
 import { calculateLayout } from '../barChartLayout.js';
 import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { valuesToBlockRows } from '../core/symbols.js';
+import { createScale, logDomainMin, type ScaleType } from '../scale.js';
+import { formatCompact } from '../format.js';
+import { isMissing } from '../missing.js';
+import { visibleColor } from '../theme.js';
+
+/**
+ * Maximum column width used by vertical charts in 'auto' width mode
+ */
+const MAX_AUTO_COLUMN_WIDTH = 10;
+
+/**
+ * Bar length used in 'auto' width mode
+ */
+const AUTO_BAR_WIDTH = 20;
+
+/**
+ * Zero baseline drawn between negative and positive bars
+ */
+const DIVERGING_BASELINE = '│';
 
 /**
  * Data point for a bar chart entry
@@ -11,8 +32,8 @@ import { calculateEffectiveWidth } from '../core/widthUtils.js';
 export interface BarChartData {
   /** The label to display for this data point */
   label: string;
-  /** The numeric value to represent as a bar */
-  value: number;
+  /** The numeric value to represent as a bar (null, NaN or ±Infinity when missing) */
+  value: number | null;
   /** Optional color for this specific bar (hex code or Ink color name) */
   color?: string;
   /** Optional character for this specific bar */
@@ -47,26 +68,100 @@ export type BarChartValueDisplay = 'right' | 'inside' | 'none';
 export type BarChartCharacter = '▆' | '█' | '▓' | '▒' | '░';
 
 /**
- * Sorts bar chart data based on the specified sort order
+ * Bar chart orientation
+ * - 'horizontal': One row per data point with the label on the left
+ * - 'vertical': One column per data point growing upward, label below
+ */
+export type BarChartOrientation = 'horizontal' | 'vertical';
+
+/**
+ * Data point whose value is present
+ */
+type PresentBarChartData = BarChartData & { value: number };
+
+/**
+ * Checks whether a data point has a value to draw
+ */
+function isPresent(item: BarChartData): item is PresentBarChartData {
+  return !isMissing(item.value);
+}
+
+/**
+ * Sorts bar chart data based on the specified sort order.
+ * Data points with missing values keep their order and are placed last.
  */
 function sortData(data: BarChartData[], sort: BarChartSortOrder): BarChartData[] {
-  const sortedData = [...data];
-  if (sort === 'asc') {
-    sortedData.sort((a, b) => a.value - b.value);
-  } else if (sort === 'desc') {
-    sortedData.sort((a, b) => b.value - a.value);
+  if (sort === 'none') {
+    return [...data];
   }
-  return sortedData;
+  const present = data.filter(isPresent);
+  present.sort(sort === 'asc' ? (a, b) => a.value - b.value : (a, b) => b.value - a.value);
+  return [...present, ...data.filter(item => !isPresent(item))];
 }
 
 /**
- * Calculates the maximum value from data or uses provided max
+ * Calculates the maximum value from data or uses provided max.
+ * For diverging charts, this is the largest magnitude on either side of zero.
  */
-function calculateMaxValue(data: BarChartData[], max: 'auto' | number): number {
+function calculateMaxValue(data: PresentBarChartData[], max: 'auto' | number, diverging: boolean): number {
   if (data.length === 0) {
     return 0;
   }
-  return max === 'auto' ? Math.max(...data.map(d => d.value)) : max;
+  if (max !== 'auto') {
+    return diverging ? Math.abs(max) : max;
+  }
+  return diverging
+    ? Math.max(...data.map(d => Math.abs(d.value)))
+    : Math.max(...data.map(d => d.value));
+}
+
+/**
+ * Creates the function mapping a value to its bar length ratio (0 to 1).
+ * The scale spans zero (or the lowest power of ten for 'log') to maxValue;
+ * diverging charts scale magnitudes and keep the sign.
+ */
+function createBarRatio(
+  data: PresentBarChartData[],
+  maxValue: number,
+  scale: ScaleType,
+  diverging: boolean
+): (value: number) => number {
+  let lower = scale === 'log' ? logDomainMin(data.map(d => Math.abs(d.value))) : 0;
+  if (lower >= maxValue) {
+    // Keep a decade of room so the longest bar still fills the width
+    lower = maxValue / 10;
+  }
+  const toUnit = createScale(scale, [lower, maxValue]);
+  return diverging
+    ? value => Math.sign(value) * toUnit(Math.abs(value))
+    : toUnit;
+}
+
+/**
+ * Renders a bar growing right from the start of the bar area
+ */
+function renderBar(item: PresentBarChartData, ratio: number, barWidth: number, barChar: string): string {
+  const barLength = Math.max(1, Math.floor(ratio * barWidth));
+  const effectiveChar = item.char || barChar;
+  return effectiveChar.repeat(barLength);
+}
+
+/**
+ * Renders a bar around a zero baseline in the middle of the bar area:
+ * negative values grow left, positive values grow right
+ */
+function renderDivergingBar(item: PresentBarChartData, ratio: number, barWidth: number, barChar: string): string {
+  const halfWidth = Math.max(1, Math.floor((barWidth - 1) / 2));
+  // Clamp to the half width so the baseline stays aligned when max is smaller than the data
+  const barLength = item.value === 0
+    ? 0
+    : Math.min(halfWidth, Math.max(1, Math.floor(Math.abs(ratio) * halfWidth)));
+  const effectiveChar = item.char || barChar;
+  const bar = effectiveChar.repeat(barLength);
+
+  const negativePart = item.value < 0 ? bar.padStart(halfWidth) : ' '.repeat(halfWidth);
+  const positivePart = item.value > 0 ? bar : '';
+  return negativePart + DIVERGING_BASELINE + positivePart;
 }
 
 
@@ -85,7 +180,7 @@ function calculateBarChartLayout(
 
   const maxLabelWidth = Math.max(...data.map(d => measureWidth(d.label)));
   const maxValueWidth = showValue === 'right' ? 
-    Math.max(...data.map(d => measureWidth(format(d.value)))) : 0;
+    Math.max(0, ...data.filter(isPresent).map(d => measureWidth(format(d.value)))) : 0;
   
   const adjustedWidth = width - 1;
   
@@ -102,22 +197,18 @@ function calculateBarChartLayout(
  */
 function renderFixedWidthRow(
   item: BarChartData,
-  ratio: number,
+  bar: string,
   layout: BarChartLayout,
   showValue: BarChartValueDisplay,
-  format: (value: number) => string,
-  barChar: string
+  format: (value: number) => string
 ): string {
-  const { label, value } = item;
+  const { label } = item;
   const displayLabel = truncateText(label, layout.labelWidth);
-  const barLength = Math.max(1, Math.floor(ratio * layout.barWidth));
-  const effectiveChar = item.char || barChar;
-  const bar = effectiveChar.repeat(barLength);
   
   if (showValue === 'right') {
     const labelPart = displayLabel.padEnd(layout.labelWidth);
     const barPart = bar.padEnd(layout.barWidth);
-    const valuePart = format(value).padStart(layout.valueWidth - 1);
+    const valuePart = (isPresent(item) ? format(item.value) : '').padStart(layout.valueWidth - 1);
     return labelPart + ' ' + barPart + ' ' + valuePart;
   } else {
     return displayLabel.padEnd(layout.labelWidth) + ' ' + bar;
@@ -125,27 +216,94 @@ function renderFixedWidthRow(
 }
 
 /**
- * Renders a single bar row for auto-width layout
+ * Renders a single bar row for auto-width layout, padding the label to labelWidth
  */
 function renderAutoWidthRow(
   item: BarChartData,
-  ratio: number,
+  bar: string,
+  labelWidth: number,
   showValue: BarChartValueDisplay,
-  format: (value: number) => string,
-  barChar: string
+  format: (value: number) => string
 ): string {
-  const { label, value } = item;
-  const barLength = Math.max(1, Math.floor(ratio * 20));
-  const effectiveChar = item.char || barChar;
-  const bar = effectiveChar.repeat(barLength);
+  const label = item.label + ' '.repeat(Math.max(0, labelWidth - measureWidth(item.label)));
 
-  if (showValue === 'right') {
-    return `${label} ${bar} ${format(value)}`;
+  if (showValue === 'right' && isPresent(item)) {
+    return `${label} ${bar} ${format(item.value)}`;
   } else {
     return `${label} ${bar}`;
   }
 }
 
+/**
+ * Centers text within the given width, truncating it when too wide
+ */
+function centerText(text: string, width: number): string {
+  const truncated = truncateText(text, width);
+  const padding = Math.max(0, width - measureWidth(truncated));
+  const left = Math.floor(padding / 2);
+  return ' '.repeat(left) + truncated + ' '.repeat(padding - left);
+}
+
+/**
+ * Resolves the width of each column for vertical layout.
+ * Fixed widths are shared between columns separated by one space; 'auto'
+ * fits the widest label or value (up to MAX_AUTO_COLUMN_WIDTH).
+ */
+function calculateColumnWidth(
+  data: BarChartData[],
+  width: 'auto' | number,
+  showValue: BarChartValueDisplay,
+  format: (value: number) => string,
+  missingLabel: string
+): number {
+  if (typeof width === 'number') {
+    return Math.max(1, Math.floor((width - (data.length - 1)) / data.length));
+  }
+  const contentWidths = data.map(d => {
+    if (!isPresent(d)) {
+      return Math.max(measureWidth(d.label), measureWidth(missingLabel));
+    }
+    return Math.max(measureWidth(d.label), showValue === 'none' ? 0 : measureWidth(format(d.value)));
+  });
+  return Math.max(1, Math.min(MAX_AUTO_COLUMN_WIDTH, Math.max(...contentWidths)));
+}
+
+/**
+ * Renders the cells of each column for vertical layout, top to bottom.
+ * Values are placed in the cell directly above the top of each column;
+ * missing values show the missing label in the bottom cell instead.
+ */
+function renderVerticalColumns(
+  data: BarChartData[],
+  ratios: number[],
+  height: number,
+  columnWidth: number,
+  showValue: BarChartValueDisplay,
+  format: (value: number) => string,
+  missingLabel: string
+): string[][] {
+  const blockRows = valuesToBlockRows(ratios, height, true);
+  const valueRows = showValue === 'none' ? 0 : 1;
+
+  return data.map((item, index) => {
+    // Non-positive values have no column at all (valuesToBlockRows always fills one eighth)
+    const cells = blockRows.map(row =>
+      (isPresent(item) && item.value > 0 ? row[index]! : ' ').repeat(columnWidth)
+    );
+    const column = [...Array.from({ length: valueRows }, () => ' '.repeat(columnWidth)), ...cells];
+
+    if (!isPresent(item)) {
+      column[column.length - 1] = centerText(missingLabel, columnWidth);
+    } else if (valueRows > 0) {
+      const topIndex = cells.findIndex(cell => cell.trim() !== '');
+      const valueIndex = topIndex === -1 ? cells.length : topIndex;
+      column[valueIndex] = centerText(format(item.value), columnWidth);
+    }
+
+    return column;
+  });
+}
+
 /**
  * Props for the BarChart component
  */
@@ -156,6 +314,7 @@ export interface BarChartProps {
   /** 
    * Maximum value for scaling bars
    * - 'auto': Uses the maximum value from the data
+   *   (the largest magnitude when the data contains negative values)
    * - number: Fixed maximum value for consistent scaling
    */
   max?: 'auto' | number;
@@ -177,7 +336,7 @@ export interface BarChartProps {
   showValue?: BarChartValueDisplay;
   
   /** 
-   * Custom formatter for numeric values
+   * Custom formatter for numeric values (default: `formatCompact`, e.g. 15k)
    * @param value - The numeric value to format
    * @returns Formatted string representation
    */
@@ -185,7 +344,7 @@ export interface BarChartProps {
   
   /** 
    * Character to use for drawing bars
-   * - '▆': Lower block (default, with visual spacing)
+   * - '▆': Lower block (default from the theme, with visual spacing)
    * - '█': Full block (solid appearance)
    * - '▓': Dark shade
    * - '▒': Medium shade
@@ -210,14 +369,59 @@ export interface BarChartProps {
    * Color for the bars (hex code like "#ff0000" or Ink color names)
    */
   color?: string;
+
+  /**
+   * Color for bars of positive values in horizontal diverging charts
+   * (overridden by individual `BarChartData.color`). Falls back to `color`.
+   */
+  positiveColor?: string;
+
+  /**
+   * Color for bars of negative values in horizontal diverging charts
+   * (overridden by individual `BarChartData.color`). Falls back to `color`.
+   */
+  negativeColor?: string;
+
+  /**
+   * Bar orientation
+   * - 'horizontal': Rows of bars with labels on the left (default)
+   * - 'vertical': Columns drawn upward with eighth-block precision, labels
+   *   below each column and values on top (any showValue other than 'none');
+   *   barChar is not used, and negative values are clamped to 0 (no column and
+   *   no diverging layout, their value is shown on the bottom row)
+   */
+  orientation?: BarChartOrientation;
+
+  /**
+   * Height of the columns in rows ('vertical' orientation only)
+   * @default 8
+   */
+  height?: number;
+
+  /**
+   * Scale used for bar lengths
+   * - 'linear': Proportional to the value (default)
+   * - 'log': Logarithmic, starting at the largest power of ten not above the
+   *   smallest value; useful when values span several orders of magnitude
+   * - 'symlog': Symmetric log, also handles zero and negative values
+   * - 'sqrt' / { type: 'pow', exponent }: Power scales
+   */
+  scale?: ScaleType;
+
+  /**
+   * Text shown in place of the bar for data points with a missing value
+   * (null, NaN or ±Infinity). These points are drawn dimmed and sorted last.
+   * @default 'n/a'
+   */
+  missingLabel?: string;
 }
 
 
 
 /**
- * A horizontal bar chart component for terminal applications.
+ * A bar chart component for terminal applications.
  * 
- * Renders data as horizontal bars with customizable appearance, sorting,
+ * Renders data as horizontal bars (or vertical columns) with customizable appearance, sorting,
  * and value display options. Supports both auto-scaling and fixed-width layouts
  * with intelligent space allocation between labels, bars, and values.
  * 
@@ -246,6 +450,14 @@ export interface BarChartProps {
  *   showValue="right"
  *   format={(v) => `${v}%`}
  * />
+ * 
+ * // Vertical columns with values on top
+ * <BarChart 
+ *   data={[{ label: 'Mon', value: 12 }, { label: 'Tue', value: 30 }]}
+ *   orientation="vertical"
+ *   height={6}
+ *   showValue="right"
+ * />
  * ```
  * 
  * @param props - Component properties
@@ -257,15 +469,22 @@ export const BarChart = React.memo<BarChartProps>(function BarChart(props: BarCh
     max = 'auto',
     sort = 'none',
     showValue = 'none',
-    format = (value: number) => value.toString(),
-    barChar = '▆',
+    format = formatCompact,
     width = 'auto',
-    color
+    color,
+    positiveColor,
+    negativeColor,
+    orientation = 'horizontal',
+    height = 8,
+    scale = 'linear',
+    missingLabel = 'n/a'
   } = props;
 
   // Use auto-width hook for terminal width detection (must be before any early returns)
   const autoWidth = useAutoWidth();
   const effectiveWidth = calculateEffectiveWidth(width, autoWidth.width);
+  const theme = useChartTheme();
+  const barChar = props.barChar ?? theme.glyphs.bar;
 
   // Handle empty data
   if (!data || data.length === 0) {
@@ -274,28 +493,99 @@ export const BarChart = React.memo<BarChartProps>(function BarChart(props: BarCh
 
   // Sort data
   const sortedData = sortData(data, sort);
+  const presentData = sortedData.filter(isPresent);
   
+  // Negative values switch horizontal bars to a diverging layout around a zero baseline;
+  // vertical columns clamp them to 0
+  const diverging = orientation === 'horizontal' && presentData.some(d => d.value < 0);
+
   // Calculate maximum value
-  const maxValue = calculateMaxValue(sortedData, max);
+  const maxValue = calculateMaxValue(presentData, max, diverging);
   
-  // Cannot render meaningful bars with non-positive maximum
-  if (maxValue <= 0) {
+  // Cannot render meaningful bars with non-positive maximum (vertical charts still show labels and values,
+  // and data without any present value still lists the missing labels)
+  if (maxValue <= 0 && orientation !== 'vertical' && presentData.length > 0) {
     return null;
   }
+
+  const toRatio = createBarRatio(presentData, maxValue, scale, diverging);
   
+  if (orientation === 'vertical') {
+    const columnWidth = calculateColumnWidth(sortedData, effectiveWidth, showValue, format, missingLabel);
+    const columns = renderVerticalColumns(
+      sortedData,
+      sortedData.map(item => (isPresent(item) && item.value > 0 && maxValue > 0 ? toRatio(item.value) : 0)),
+      Math.max(1, Math.floor(height)),
+      columnWidth,
+      showValue,
+      format,
+      missingLabel
+    );
+    const lineCount = columns[0]!.length;
+
+    const lines = Array.from({ length: lineCount }, (_, line) => (
+      <Text key={line}>
+        {sortedData.map((item, index) => {
+          const effectiveColor = visibleColor(item.color || color);
+          const cell = columns[index]![line]!;
+          const separator = index > 0 ? ' ' : '';
+          if (!isPresent(item)) {
+            return <Text key={`${item.label}-${index}`} {...theme.muted}>{separator}{cell}</Text>;
+          }
+          return effectiveColor ? (
+            <Text key={`${item.label}-${index}`} color={effectiveColor}>{separator}{cell}</Text>
+          ) : (
+            separator + cell
+          );
+        })}
+      </Text>
+    ));
+
+    const labelLine = sortedData
+      .map(item => centerText(item.label, columnWidth))
+      .join(' ');
+
+    return (
+      <Box flexDirection="column">
+        {lines}
+        <Text {...theme.label}>{labelLine}</Text>
+      </Box>
+    );
+  }
+
   // Calculate layout for fixed-width rendering
   const layout = typeof effectiveWidth === 'number' 
     ? calculateBarChartLayout(sortedData, effectiveWidth, showValue, format)
     : null;
 
+  // Diverging rows pad labels so the zero baseline lines up in auto-width mode
+  const autoLabelWidth = diverging && !layout ? Math.max(...sortedData.map(d => measureWidth(d.label))) : 0;
+
   // Render each data point as a bar row
   const rows = sortedData.map((item, index) => {
-    const ratio = item.value / maxValue;
-    const effectiveColor = item.color || color;
+    if (!isPresent(item)) {
+      const rowContent = layout
+        ? renderFixedWidthRow(item, truncateText(missingLabel, layout.barWidth), layout, showValue, format)
+        : renderAutoWidthRow(item, missingLabel, autoLabelWidth, showValue, format);
+      return (
+        <Text key={`${item.label}-${index}`} {...theme.muted}>
+          {rowContent}
+        </Text>
+      );
+    }
+
+    const ratio = toRatio(item.value);
+    // Side colors only apply when bars grow both ways from the zero baseline
+    const sideColor = diverging ? (item.value < 0 ? negativeColor : positiveColor) : undefined;
+    const effectiveColor = visibleColor(item.color || sideColor || color);
     
+    const barWidth = layout ? layout.barWidth : AUTO_BAR_WIDTH;
+    const bar = diverging
+      ? renderDivergingBar(item, ratio, barWidth, barChar)
+      : renderBar(item, ratio, barWidth, barChar);
     const rowContent = layout
-      ? renderFixedWidthRow(item, ratio, layout, showValue, format, barChar)
-      : renderAutoWidthRow(item, ratio, showValue, format, barChar);
+      ? renderFixedWidthRow(item, bar, layout, showValue, format)
+      : renderAutoWidthRow(item, bar, autoLabelWidth, showValue, format);
     
     return effectiveColor ? (
       <Text key={`${item.label}-${index}`} color={effectiveColor}>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ChartThemeContext } from '../core/useChartTheme.js';
+import { CHART_THEMES, type ChartTheme, type ChartThemeName } from '../theme.js';
+
+/**
+ * Props for the ChartThemeProvider component
+ */
+export interface ChartThemeProviderProps {
+  /**
+   * Theme for every chart inside the provider
+   * - 'dark': For dark backgrounds (default, same as charts outside any provider)
+   * - 'light': For light backgrounds
+   * - 'highContrast': Bright colors and heavy glyphs
+   * - 'monochrome': No hues
+   * - ChartTheme: Custom theme, e.g. from createChartTheme
+   * @default 'dark'
+   */
+  theme?: ChartThemeName | ChartTheme;
+
+  /** Charts (at any depth) using the theme */
+  children?: React.ReactNode;
+}
+
+/**
+ * Provides a chart theme (palette, axis and label styles, gradients and glyphs)
+ * to all charts below it. Explicit props such as `color`, `barChar` or a series'
+ * color still take precedence over the theme.
+ *
+ * @example
+ * ```tsx
+ * <ChartThemeProvider theme="light">
+ *   <LineGraph data={[{ values: [1, 3, 2] }]} showYAxis />
+ *   <Sparkline data={[1, 5, 9]} threshold={[3, 6]} />
+ * </ChartThemeProvider>
+ *
+ * // Custom theme based on a built-in one
+ * <ChartThemeProvider theme={createChartTheme({ palette: ['#ff8800', '#0088ff'] }, highContrastTheme)}>
+ *   <GroupedBarChart data={groups} series={series} />
+ * </ChartThemeProvider>
+ * ```
+ *
+ * @param props - Component properties
+ * @returns Provider element rendering the children
+ */
+export function ChartThemeProvider(props: ChartThemeProviderProps): React.ReactElement {
+  const { theme = 'dark', children } = props;
+  const value = typeof theme === 'string' ? CHART_THEMES[theme] : theme;
+
+  return <ChartThemeContext.Provider value={value}>{children}</ChartThemeContext.Provider>;
+}
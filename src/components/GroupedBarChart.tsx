@@ -0,0 +1,250 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { measureWidth, truncateText } from '../measure.js';
+import { calculateLayout, type LayoutResult } from '../barChartLayout.js';
+import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import type { BarChartCharacter, BarChartValueDisplay } from './BarChart.js';
+import { Legend, resolveLegendLayout, type ChartLegendOption } from './Legend.js';
+import { formatCompact } from '../format.js';
+import { colorProps, fillPattern, hasTextStyle, paletteColor, type ChartTheme } from '../theme.js';
+
+/**
+ * Bar length used in 'auto' width mode (matches BarChart)
+ */
+const AUTO_BAR_WIDTH = 20;
+
+/**
+ * A series drawn once in every group
+ */
+export interface GroupedBarChartSeries {
+  /** Name shown in the legend */
+  name: string;
+  /** Color for this series' bars (hex code or Ink color name) */
+  color?: string;
+  /** Optional character for this series' bars */
+  char?: string;
+}
+
+/**
+ * A category containing one value per series
+ */
+export interface GroupedBarChartGroup {
+  /** The label displayed next to the first bar of the group */
+  label: string;
+  /**
+   * Non-negative values in the same order as `series`.
+   * Missing or non-finite values leave the bar empty. Negative values also
+   * draw no bar (their value is still shown), and a chart without any
+   * positive value renders nothing.
+   */
+  values: number[];
+}
+
+/**
+ * Props for the GroupedBarChart component
+ */
+export interface GroupedBarChartProps {
+  /** Categories to visualize, each drawn as adjacent bars */
+  data: GroupedBarChartGroup[];
+
+  /** Series definitions shared by all groups */
+  series: GroupedBarChartSeries[];
+
+  /**
+   * Maximum value for scaling bars, shared by all groups and series
+   * - 'auto': Uses the maximum value from the data
+   * - number: Fixed maximum value for consistent scaling
+   */
+  max?: 'auto' | number;
+
+  /**
+   * Where to display the numeric values
+   * - 'right': Show values to the right of bars (aligned in one column)
+   * - 'none': Don't show values
+   */
+  showValue?: Exclude<BarChartValueDisplay, 'inside'>;
+
+  /**
+   * Custom formatter for numeric values (default: `formatCompact`, e.g. 15k)
+   * @param value - The numeric value to format
+   * @returns Formatted string representation
+   */
+  format?: (value: number) => string;
+
+  /**
+   * Default character for drawing bars (overridden by `GroupedBarChartSeries.char`)
+   */
+  barChar?: BarChartCharacter;
+
+  /**
+   * Whether to tell series apart by fill pattern ('█', '▓', '▒', '░', ...) as well as
+   * by color, for readers with color vision deficiency and monochrome output.
+   * Series with their own `char` keep it.
+   * @default the theme's setting (on for the monochrome theme)
+   */
+  patterns?: boolean;
+
+  /**
+   * Total width constraint for the chart
+   * - 'auto': Use natural width based on content with 20 character bars
+   * - 'full': Use full terminal width
+   * - number: Fixed width, content will be adjusted to fit
+   */
+  width?: 'auto' | 'full' | number;
+
+  /**
+   * Number of blank lines between groups
+   * @default 1
+   */
+  groupGap?: number;
+
+  /**
+   * Series legend below the chart
+   * - true / 'horizontal': Entries side by side (default)
+   * - 'vertical': One entry per line
+   * - false: No legend
+   */
+  legend?: ChartLegendOption;
+}
+
+/**
+ * Resolves the color of a series, falling back to the theme palette
+ */
+function resolveSeriesColor(series: GroupedBarChartSeries, index: number, theme: ChartTheme): string | undefined {
+  return series.color || paletteColor(theme, index);
+}
+
+/**
+ * A grouped (clustered) bar chart component for comparing several series per category.
+ *
+ * Each group renders one horizontal bar per series, directly below each other,
+ * with the group label on the first bar. All bars share a single scale and the
+ * label/bar/value columns are laid out with the same algorithm as BarChart, so
+ * values line up across groups. Series keep the same color in every group and
+ * are listed in a legend below the chart.
+ *
+ * @example
+ * ```tsx
+ * <GroupedBarChart
+ *   data={[
+ *     { label: 'parse', values: [120, 98] },
+ *     { label: 'render', values: [340, 355] },
+ *   ]}
+ *   series={[
+ *     { name: 'main', color: 'gray' },
+ *     { name: 'PR branch', color: 'cyan' },
+ *   ]}
+ *   showValue="right"
+ *   format={(v) => `${v}ms`}
+ *   width={60}
+ * />
+ * ```
+ *
+ * @param props - Component properties
+ * @returns React element containing the rendered chart, or null for empty/invalid data
+ */
+export const GroupedBarChart = React.memo<GroupedBarChartProps>(function GroupedBarChart(props) {
+  const {
+    data,
+    series,
+    max = 'auto',
+    showValue = 'none',
+    format = formatCompact,
+    width = 'auto',
+    groupGap = 1,
+    legend = true,
+  } = props;
+
+  // Use auto-width hook for terminal width detection (must be before any early returns)
+  const autoWidth = useAutoWidth();
+  const effectiveWidth = calculateEffectiveWidth(width, autoWidth.width);
+  const theme = useChartTheme();
+  const barChar = props.barChar ?? theme.glyphs.bar;
+  const patterns = props.patterns ?? theme.patterns;
+
+  // Handle empty data
+  if (!data || data.length === 0 || !series || series.length === 0) {
+    return null;
+  }
+
+  const values = data.flatMap(group =>
+    series.map((_, index) => group.values?.[index]).filter((v): v is number => Number.isFinite(v))
+  );
+  if (values.length === 0) {
+    return null;
+  }
+
+  const maxValue = max === 'auto' ? Math.max(...values) : max;
+  if (maxValue <= 0) {
+    return null;
+  }
+
+  // Layout shared by every bar so labels and values line up
+  const maxLabelWidth = Math.max(...data.map(group => measureWidth(group.label)));
+  const maxValueWidth = showValue === 'right' ? Math.max(...values.map(v => measureWidth(format(v)))) : 0;
+  const valueWidth = showValue === 'right' ? maxValueWidth + 1 : 0;
+  const layout: LayoutResult = typeof effectiveWidth === 'number'
+    ? calculateLayout({
+        totalWidth: effectiveWidth - 1,
+        labelWidth: maxLabelWidth,
+        valueWidth,
+        minBarWidth: 1,
+      })
+    : { labelWidth: maxLabelWidth, barWidth: AUTO_BAR_WIDTH, valueWidth };
+
+  const seriesChars = series.map((item, index) => item.char || (patterns ? fillPattern(theme, index) : barChar));
+  const gap = Math.max(0, Math.floor(groupGap));
+  const lines: React.ReactElement[] = [];
+
+  data.forEach((group, groupIndex) => {
+    if (groupIndex > 0) {
+      for (let i = 0; i < gap; i++) {
+        lines.push(<Text key={`gap-${groupIndex}-${i}`}> </Text>);
+      }
+    }
+
+    series.forEach((item, seriesIndex) => {
+      const value = group.values?.[seriesIndex];
+      const hasValue = value !== undefined && Number.isFinite(value);
+
+      const label = seriesIndex === 0 ? truncateText(group.label, layout.labelWidth) : '';
+      const labelPart = label + ' '.repeat(Math.max(0, layout.labelWidth - measureWidth(label)));
+
+      const barLength = hasValue && value > 0
+        ? Math.min(layout.barWidth, Math.max(1, Math.floor((value / maxValue) * layout.barWidth)))
+        : 0;
+      const bar = seriesChars[seriesIndex]!.repeat(barLength);
+
+      const valuePart = showValue === 'right'
+        ? ' '.repeat(layout.barWidth - barLength) + ' ' + (hasValue ? format(value) : '').padStart(layout.valueWidth - 1)
+        : '';
+
+      lines.push(
+        <Text key={`${group.label}-${groupIndex}-${seriesIndex}`}>
+          {hasTextStyle(theme.label) ? <Text {...theme.label}>{labelPart}</Text> : labelPart}{' '}
+          <Text {...colorProps(resolveSeriesColor(item, seriesIndex, theme))}>{bar}</Text>
+          {valuePart}
+        </Text>
+      );
+    });
+  });
+
+  const legendLayout = resolveLegendLayout(legend);
+  const legendItems = series.map((item, index) => {
+    const color = resolveSeriesColor(item, index, theme);
+    return {
+      name: item.name,
+      ...(color ? { color } : {}),
+      marker: seriesChars[index]!,
+    };
+  });
+
+  return (
+    <Box flexDirection="column">
+      {lines}
+      {legendLayout && <Legend items={legendItems} layout={legendLayout} />}
+    </Box>
+  );
+});
@@ -0,0 +1,293 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import { colorize, getCachedColorDepth, GRADIENT_LEVELS, type GradientRamp } from '../core/ansi.js';
+import { scaleColorCode } from '../core/colorScale.js';
+import type { ColorScheme } from '../core/thresholdColorizer.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { measureWidth, truncateText } from '../measure.js';
+import { hasTextStyle, resolveGradient } from '../theme.js';
+
+/**
+ * Full block character used for 'block' mode cells and legend swatches
+ */
+const FULL_BLOCK = '█';
+
+/**
+ * Upper half block: foreground colors the top half, background the bottom half
+ */
+const UPPER_HALF_BLOCK = '▀';
+
+/**
+ * Lower half block: used when only the bottom value of a pair is present
+ */
+const LOWER_HALF_BLOCK = '▄';
+
+/**
+ * Shades standing in for the color ramp when colors are disabled, from the lowest to the highest value
+ */
+const SHADE_BLOCKS = ['░', '▒', '▓', '█'];
+
+/**
+ * Heatmap rendering mode
+ * - 'block': One terminal row per data row using full blocks
+ * - 'half': Two data rows per terminal row using half blocks with foreground/background colors
+ */
+export type HeatmapMode = 'block' | 'half';
+
+/**
+ * Props for the Heatmap component
+ */
+export interface HeatmapProps {
+  /**
+   * 2D matrix of values, indexed as data[row][column].
+   * Non-finite values are rendered as empty cells.
+   */
+  data: number[][];
+
+  /**
+   * Labels displayed to the left of each row ('half' mode joins the labels of
+   * the two rows in each line, e.g. 'Mon/Tue')
+   */
+  rowLabels?: string[];
+
+  /**
+   * Labels displayed below each column (truncated to the cell width)
+   */
+  columnLabels?: string[];
+
+  /**
+   * Color ramp used for cell values (the theme's gradient for named schemes)
+   * - 'red': Red gradient
+   * - 'blue': Blue gradient (default)
+   * - 'green': Green gradient
+   * - 'viridis' | 'magma' | 'cividis': Perceptual palettes with continuous colors
+   * - string[]: Custom stops (hex codes or color names) from the lowest to the highest value
+   */
+  colorScheme?: ColorScheme;
+
+  /**
+   * Value domain mapped onto the color ramp
+   * - 'auto': Uses min/max of all finite values
+   * - [min, max]: Fixed domain; values outside are clamped
+   */
+  domain?: 'auto' | [number, number];
+
+  /**
+   * Rendering mode
+   * - 'block': One row of full blocks per data row (default)
+   * - 'half': Half blocks (▀) pack two data rows into each terminal row
+   */
+  mode?: HeatmapMode;
+
+  /**
+   * Width of each cell in characters
+   * @default 2
+   */
+  cellWidth?: number;
+
+  /**
+   * Whether to show the color legend below the heatmap
+   * @default true
+   */
+  showLegend?: boolean;
+
+  /**
+   * Custom formatter for legend values
+   */
+  format?: (value: number) => string;
+}
+
+/**
+ * Maps a value to a position on the color ramp (0 to 1), or null for missing values
+ */
+function valueToPosition(value: number | undefined, min: number, max: number): number | null {
+  if (value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  if (max === min) {
+    return 0.5;
+  }
+  return Math.max(0, Math.min(1, (value - min) / (max - min)));
+}
+
+/**
+ * Picks the shade for a position on the ramp (0 to 1)
+ */
+function shadeBlock(position: number): string {
+  return SHADE_BLOCKS[Math.min(SHADE_BLOCKS.length - 1, Math.floor(position * SHADE_BLOCKS.length))]!;
+}
+
+/**
+ * Renders a single 'block' mode cell (shaded when colors are disabled)
+ */
+function renderBlockCell(position: number | null, cellWidth: number, ramp: GradientRamp): string {
+  if (position === null) {
+    return ' '.repeat(cellWidth);
+  }
+  if (getCachedColorDepth() === 0) {
+    return shadeBlock(position).repeat(cellWidth);
+  }
+  return colorize(FULL_BLOCK.repeat(cellWidth), scaleColorCode(ramp, position));
+}
+
+/**
+ * Renders a 'half' mode cell combining an upper and a lower value
+ * (shaded by their mean when colors are disabled, as half blocks need two colors)
+ */
+function renderHalfCell(
+  upper: number | null,
+  lower: number | null,
+  cellWidth: number,
+  ramp: GradientRamp
+): string {
+  if (upper === null && lower === null) {
+    return ' '.repeat(cellWidth);
+  }
+  if (getCachedColorDepth() === 0) {
+    const present = [upper, lower].filter((position): position is number => position !== null);
+    return shadeBlock(present.reduce((sum, position) => sum + position, 0) / present.length).repeat(cellWidth);
+  }
+  if (upper === null) {
+    return colorize(LOWER_HALF_BLOCK.repeat(cellWidth), scaleColorCode(ramp, lower!));
+  }
+  const foreground = scaleColorCode(ramp, upper);
+  const background = lower === null ? '' : scaleColorCode(ramp, lower, 'background');
+  return colorize(UPPER_HALF_BLOCK.repeat(cellWidth), foreground + background);
+}
+
+/**
+ * A heatmap component rendering a 2D numeric matrix as colored cells.
+ *
+ * Values are mapped onto the same gradients used for Sparkline threshold
+ * highlighting, degrading automatically across truecolor, 256-color and 16-color
+ * terminals. Perceptual palettes and custom stops are continuous: each value gets
+ * its own interpolated color instead of one of 8 levels. In 'half' mode, each character cell shows two data rows using the
+ * upper half block with foreground and background colors.
+ *
+ * @example
+ * ```tsx
+ * <Heatmap
+ *   data={[
+ *     [1, 4, 9],
+ *     [2, 8, 3],
+ *   ]}
+ *   rowLabels={['Mon', 'Tue']}
+ *   columnLabels={['AM', 'PM', 'Eve']}
+ *   colorScheme="green"
+ *   cellWidth={3}
+ * />
+ * ```
+ *
+ * @param props - Component properties
+ * @returns React element containing the rendered heatmap, or null for empty/invalid data
+ */
+export const Heatmap = React.memo<HeatmapProps>(function Heatmap(props) {
+  const {
+    data,
+    rowLabels,
+    columnLabels,
+    colorScheme = 'blue',
+    domain = 'auto',
+    mode = 'block',
+    cellWidth: cellWidthProp = 2,
+    showLegend = true,
+    format = (value: number) => String(value),
+  } = props;
+
+  const theme = useChartTheme();
+  const ramp = resolveGradient(theme, colorScheme);
+
+  // Handle empty data
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const columnCount = Math.max(...data.map(row => row?.length ?? 0));
+  const finiteValues = data.flatMap(row => (row ?? []).filter(Number.isFinite));
+  if (columnCount === 0 || finiteValues.length === 0) {
+    return null;
+  }
+
+  const cellWidth = Math.max(1, Math.floor(cellWidthProp));
+
+  // Resolve domain
+  let min: number;
+  let max: number;
+  if (domain === 'auto') {
+    min = Math.min(...finiteValues);
+    max = Math.max(...finiteValues);
+  } else {
+    [min, max] = domain[0] <= domain[1] ? domain : [domain[1], domain[0]];
+  }
+
+  const positions = data.map(row =>
+    Array.from({ length: columnCount }, (_, col) => valueToPosition(row?.[col], min, max))
+  );
+
+  // Row label column, with one label per line: 'half' lines show both of their rows
+  const hasRowLabels = Boolean(rowLabels && rowLabels.length > 0);
+  const lineLabels = mode === 'half'
+    ? Array.from({ length: Math.ceil(data.length / 2) }, (_, line) =>
+        [rowLabels?.[line * 2], rowLabels?.[line * 2 + 1]].filter(Boolean).join('/'))
+    : data.map((_, row) => rowLabels?.[row] ?? '');
+  const labelWidth = hasRowLabels ? Math.max(...lineLabels.map(label => measureWidth(label))) : 0;
+  const labelPrefix = (label: string | undefined) => {
+    if (!hasRowLabels) {
+      return '';
+    }
+    const text = label ?? '';
+    const prefix = text + ' '.repeat(Math.max(0, labelWidth - measureWidth(text))) + ' ';
+    return hasTextStyle(theme.label) ? <Text {...theme.label}>{prefix}</Text> : prefix;
+  };
+
+  const lines: React.ReactElement[] = [];
+
+  if (mode === 'half') {
+    for (let row = 0; row < positions.length; row += 2) {
+      const upperRow = positions[row]!;
+      const lowerRow = positions[row + 1];
+      const cells = upperRow.map((upper, col) =>
+        renderHalfCell(upper, lowerRow?.[col] ?? null, cellWidth, ramp)
+      );
+      lines.push(
+        <Text key={row}>
+          {labelPrefix(lineLabels[row / 2])}{cells.join('')}
+        </Text>
+      );
+    }
+  } else {
+    positions.forEach((rowPositions, row) => {
+      const cells = rowPositions.map(position => renderBlockCell(position, cellWidth, ramp));
+      lines.push(
+        <Text key={row}>
+          {labelPrefix(lineLabels[row])}{cells.join('')}
+        </Text>
+      );
+    });
+  }
+
+  const indent = hasRowLabels ? ' '.repeat(labelWidth + 1) : '';
+
+  // Column labels, each truncated to fit its cell
+  const columnLabelLine = columnLabels && columnLabels.length > 0
+    ? Array.from({ length: columnCount }, (_, col) => {
+        const label = truncateText(columnLabels[col] ?? '', cellWidth);
+        return label + ' '.repeat(Math.max(0, cellWidth - measureWidth(label)));
+      }).join('')
+    : null;
+
+  // Legend: min, one swatch per gradient level, max
+  const legendLine = showLegend
+    ? `${format(min)} ${Array.from({ length: GRADIENT_LEVELS }, (_, level) =>
+        renderBlockCell(level / (GRADIENT_LEVELS - 1), 1, ramp)
+      ).join('')} ${format(max)}`
+    : null;
+
+  return (
+    <Box flexDirection="column">
+      {lines}
+      {columnLabelLine !== null && <Text {...theme.label}>{indent}{columnLabelLine}</Text>}
+      {legendLine !== null && <Text>{indent}{legendLine}</Text>}
+    </Box>
+  );
+});
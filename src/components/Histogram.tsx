@@ -0,0 +1,203 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import { BarChart, type BarChartData, type BarChartValueDisplay, type BarChartCharacter } from './BarChart.js';
+import { computeBins, type Bin, type BinRule } from '../binning.js';
+import { valuesToBlockRows } from '../core/symbols.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { colorProps } from '../theme.js';
+
+/**
+ * Histogram bar orientation
+ * - 'horizontal': One row per bin with the bin range as label
+ * - 'vertical': One column per bin, growing upward
+ */
+export type HistogramOrientation = 'horizontal' | 'vertical';
+
+/**
+ * Props for the Histogram component
+ */
+export interface HistogramProps {
+  /** Raw numeric samples to bin. Non-finite values are ignored. */
+  data: number[];
+
+  /**
+   * Number of bins or rule used to derive it
+   * - number: Fixed bin count
+   * - 'sturges': ceil(log2(n)) + 1 bins (default)
+   * - 'freedman-diaconis': Bin width based on the interquartile range
+   */
+  bins?: number | BinRule;
+
+  /**
+   * Fixed bin width (takes precedence over `bins`).
+   * Bin edges are aligned to multiples of this width.
+   */
+  binWidth?: number;
+
+  /**
+   * Bar orientation
+   * @default 'horizontal'
+   */
+  orientation?: HistogramOrientation;
+
+  /**
+   * Height of the chart in rows ('vertical' orientation only).
+   * Each row provides 8 levels using eighth-block characters.
+   * @default 8
+   */
+  height?: number;
+
+  /**
+   * Width of each column in characters ('vertical' orientation only)
+   * @default 2
+   */
+  columnWidth?: number;
+
+  /**
+   * Total width constraint ('horizontal' orientation only, see BarChart)
+   */
+  width?: 'auto' | 'full' | number;
+
+  /**
+   * Where to display bin counts ('horizontal' orientation only, see BarChart)
+   * @default 'right'
+   */
+  showValue?: BarChartValueDisplay;
+
+  /**
+   * Character to use for drawing bars ('horizontal' orientation only, see BarChart)
+   */
+  barChar?: BarChartCharacter;
+
+  /**
+   * Color for the bars (hex code like "#ff0000" or Ink color names)
+   */
+  color?: string;
+
+  /**
+   * Custom formatter for bin edge labels
+   * @param value - Bin edge value
+   * @returns Formatted string representation
+   */
+  formatEdge?: (value: number) => string;
+}
+
+/**
+ * Default bin edge formatter: integers as-is, otherwise up to 2 decimals
+ */
+function defaultFormatEdge(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+}
+
+/**
+ * Renders bins as vertical columns with eighth-block precision
+ */
+function renderVerticalBins(
+  bins: Bin[],
+  height: number,
+  columnWidth: number,
+  formatEdge: (value: number) => string
+): { rows: string[]; edgeLine: string } {
+  const maxCount = Math.max(...bins.map(bin => bin.count));
+  const ratios = bins.map(bin => (maxCount > 0 ? bin.count / maxCount : 0));
+  const blockRows = valuesToBlockRows(ratios, height, true);
+
+  const rows = blockRows.map(rowSymbols =>
+    rowSymbols
+      // Empty bins get no bar at all (valuesToBlockRows always fills one eighth)
+      .map((symbol, index) => (bins[index]!.count === 0 ? ' ' : symbol).repeat(columnWidth))
+      .join('')
+  );
+
+  // Lowest edge on the left, highest edge on the right
+  const totalWidth = bins.length * columnWidth;
+  const minLabel = formatEdge(bins[0]!.x0);
+  const maxLabel = formatEdge(bins[bins.length - 1]!.x1);
+  const gap = Math.max(1, totalWidth - minLabel.length - maxLabel.length);
+  const edgeLine = minLabel + ' '.repeat(gap) + maxLabel;
+
+  return { rows, edgeLine };
+}
+
+/**
+ * A histogram component that bins raw numeric samples and renders the counts.
+ *
+ * Samples are grouped into equal-width bins using a fixed bin count, a fixed
+ * bin width, or the Sturges / Freedman-Diaconis rules. The horizontal
+ * orientation renders through BarChart with bin ranges as labels; the vertical
+ * orientation draws columns using eighth-block characters.
+ *
+ * @example
+ * ```tsx
+ * // Horizontal with automatic (Sturges) binning
+ * <Histogram data={latencies} />
+ *
+ * // Vertical with a fixed bin width
+ * <Histogram data={latencies} binWidth={50} orientation="vertical" height={6} />
+ * ```
+ *
+ * @param props - Component properties
+ * @returns React element containing the rendered histogram, or null for empty/invalid data
+ */
+export const Histogram = React.memo<HistogramProps>(function Histogram(props) {
+  const {
+    data,
+    bins: binsProp = 'sturges',
+    binWidth,
+    orientation = 'horizontal',
+    height = 8,
+    columnWidth = 2,
+    width = 'auto',
+    showValue = 'right',
+    barChar,
+    color,
+    formatEdge = defaultFormatEdge,
+  } = props;
+
+  const theme = useChartTheme();
+
+  // Handle empty data
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const bins = computeBins(data, binWidth !== undefined ? { bins: binsProp, binWidth } : { bins: binsProp });
+  if (bins.length === 0) {
+    return null;
+  }
+
+  if (orientation === 'vertical') {
+    const { rows, edgeLine } = renderVerticalBins(
+      bins,
+      Math.max(1, Math.floor(height)),
+      Math.max(1, Math.floor(columnWidth)),
+      formatEdge
+    );
+
+    return (
+      <Box flexDirection="column">
+        {rows.map((row, index) => (
+          <Text key={index} {...colorProps(color)}>{row}</Text>
+        ))}
+        <Text {...theme.axis}>{edgeLine}</Text>
+      </Box>
+    );
+  }
+
+  // Horizontal: one BarChart row per bin, empty bins render no bar
+  const barData: BarChartData[] = bins.map(bin => ({
+    label: `${formatEdge(bin.x0)}–${formatEdge(bin.x1)}`,
+    value: bin.count,
+    ...(bin.count === 0 ? { char: ' ' } : {}),
+  }));
+
+  return (
+    <BarChart
+      data={barData}
+      width={width}
+      showValue={showValue}
+      {...(barChar ? { barChar } : {})}
+      {...(color ? { color } : {})}
+    />
+  );
+});
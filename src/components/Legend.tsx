@@ -0,0 +1,184 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { measureWidth } from '../measure.js';
+import { colorProps, hasTextStyle, visibleColor } from '../theme.js';
+
+/**
+ * Default swatch glyph for legend entries
+ */
+const DEFAULT_MARKER = '■';
+
+/**
+ * Spacing between entries in horizontal layout
+ */
+const ENTRY_GAP = '  ';
+
+/**
+ * A single legend entry
+ */
+export interface LegendItem {
+  /** Name displayed next to the swatch */
+  name: string;
+  /** Color of the swatch (ink color name or hex) */
+  color?: string;
+  /** Glyph used as swatch (overrides the legend marker) */
+  marker?: string;
+}
+
+/**
+ * Legend layout
+ * - 'horizontal': Entries side by side, wrapping to the available width
+ * - 'vertical': One entry per line
+ */
+export type LegendLayout = 'horizontal' | 'vertical';
+
+/**
+ * Value of the `legend` prop accepted by charts
+ * - false: No legend
+ * - true / 'horizontal': Horizontal legend below the chart
+ * - 'vertical': Vertical legend below the chart
+ */
+export type ChartLegendOption = boolean | LegendLayout;
+
+/**
+ * Props for the Legend component
+ */
+export interface LegendProps {
+  /** Entries to display */
+  items: LegendItem[];
+
+  /**
+   * Layout of the entries
+   * @default 'horizontal'
+   */
+  layout?: LegendLayout;
+
+  /**
+   * Default swatch glyph for entries without their own marker
+   * @default '■'
+   */
+  marker?: string;
+
+  /**
+   * Width available for wrapping horizontal entries
+   * - 'auto': Terminal width
+   * - 'full': Terminal width with margin
+   * - number: Fixed width
+   */
+  width?: 'auto' | 'full' | number;
+}
+
+/**
+ * Resolves a chart's `legend` prop to a layout, or null when disabled
+ */
+export function resolveLegendLayout(option: ChartLegendOption | undefined): LegendLayout | null {
+  if (option === undefined || option === false) {
+    return null;
+  }
+  return option === true ? 'horizontal' : option;
+}
+
+/**
+ * Groups entries into lines so each line fits within maxWidth.
+ * An entry wider than maxWidth gets a line of its own.
+ */
+function wrapEntries(entryWidths: number[], maxWidth: number): number[][] {
+  const lines: number[][] = [];
+  let current: number[] = [];
+  let currentWidth = 0;
+
+  entryWidths.forEach((entryWidth, index) => {
+    const needed = current.length === 0 ? entryWidth : currentWidth + ENTRY_GAP.length + entryWidth;
+    if (current.length > 0 && needed > maxWidth) {
+      lines.push(current);
+      current = [index];
+      currentWidth = entryWidth;
+    } else {
+      current.push(index);
+      currentWidth = needed;
+    }
+  });
+
+  if (current.length > 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * A legend component listing series names with colored swatches.
+ *
+ * Charts render it automatically through their `legend` prop, and it can also be
+ * used standalone, e.g. to share one legend between several charts. Horizontal
+ * legends wrap to the terminal width.
+ *
+ * @example
+ * ```tsx
+ * <Legend
+ *   items={[
+ *     { name: 'main', color: 'gray' },
+ *     { name: 'PR branch', color: 'cyan' },
+ *   ]}
+ * />
+ *
+ * // One entry per line with custom swatches
+ * <Legend items={[{ name: 'p50', marker: '─' }, { name: 'p99', marker: '┄' }]} layout="vertical" />
+ * ```
+ *
+ * @param props - Component properties
+ * @returns React element containing the rendered legend, or null for no entries
+ */
+export const Legend = React.memo<LegendProps>(function Legend(props) {
+  const {
+    items,
+    layout = 'horizontal',
+    marker = DEFAULT_MARKER,
+    width = 'auto',
+  } = props;
+
+  const autoWidth = useAutoWidth();
+  const theme = useChartTheme();
+
+  if (!items || items.length === 0) {
+    return null;
+  }
+
+  const renderEntry = (item: LegendItem, index: number, separator: string) => (
+    <Text key={`${item.name}-${index}`}>
+      {separator}
+      {visibleColor(item.color) ? (
+        <Text {...colorProps(item.color)}>{item.marker ?? marker}</Text>
+      ) : (
+        item.marker ?? marker
+      )}
+      {hasTextStyle(theme.label) ? <Text {...theme.label}>{` ${item.name}`}</Text> : ` ${item.name}`}
+    </Text>
+  );
+
+  if (layout === 'vertical') {
+    return (
+      <Box flexDirection="column">
+        {items.map((item, index) => renderEntry(item, index, ''))}
+      </Box>
+    );
+  }
+
+  const calculated = calculateEffectiveWidth(width, autoWidth.width);
+  const maxWidth = typeof calculated === 'number' ? calculated : autoWidth.width;
+  const entryWidths = items.map(item => measureWidth(item.marker ?? marker) + 1 + measureWidth(item.name));
+
+  return (
+    <Box flexDirection="column">
+      {wrapEntries(entryWidths, maxWidth).map((line, lineIndex) => (
+        <Text key={lineIndex}>
+          {line.map((itemIndex, position) =>
+            renderEntry(items[itemIndex]!, itemIndex, position > 0 ? ENTRY_GAP : '')
+          )}
+        </Text>
+      ))}
+    </Box>
+  );
+});
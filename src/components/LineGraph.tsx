@@ -1,7 +1,17 @@
 import React from 'react';
 import { Text, Box } from 'ink';
 import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
 import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { Canvas, BrailleCanvas } from '../core/canvas.js';
+import { calculateYAxisLabelWidth, buildYAxisLabels, buildXAxisLabelLine } from '../core/axis.js';
+import { Legend, resolveLegendLayout, type ChartLegendOption } from './Legend.js';
+import { createScale, extent, logDomainMin, scaleNice, scaleTicks, type ScaleType } from '../scale.js';
+import { timeInterval, timeTickFormat, timeTicks, toTimestamp, type TimeValue } from '../time.js';
+import { measureWidth } from '../measure.js';
+import { downsample as downsamplePoints, type DownsampleStrategy, type SamplePoint } from '../downsample.js';
+import { fillMissing, isMissing, presentRuns, type MissingDataMode } from '../missing.js';
+import { fillPattern, paletteColor, pointMarker, type ChartTheme } from '../theme.js';
 
 /**
  * Characters for line rendering (5 vertical positions within a row)
@@ -16,18 +26,126 @@ const LINE_CHARS: [string, string, string, string, string] = [
   '⎽', // U+23BD HORIZONTAL SCAN LINE-9 (bottom)
 ];
 
+/**
+ * Columns between two pattern markers on a line
+ */
+const PATTERN_MARKER_SPACING = 6;
+
+/**
+ * Rendering mode for the line graph
+ * - 'line': Scan line characters, 1 column and 5 vertical levels per cell
+ * - 'braille': Braille dots, 2 columns and 4 vertical levels per cell
+ */
+export type LineGraphMode = 'line' | 'braille';
+
+/**
+ * Area filled beneath a series
+ * - 'none': Line only
+ * - 'below': Area between the line and the bottom of the graph
+ * - 'between': Area between the line and the previous series
+ *   (the bottom of the graph for the first series)
+ */
+export type LineGraphFill = 'none' | 'below' | 'between';
+
+/**
+ * Y-axis a series is plotted against
+ */
+export type LineGraphAxis = 'left' | 'right';
+
 /**
  * A single data series with values and optional color
  */
 export interface LineGraphSeries {
   /**
-   * Array of numeric values for this series
+   * Array of numeric values for this series.
+   * null, NaN and ±Infinity mark missing samples (see the `missing` prop).
+   */
+  values: Array<number | null>;
+
+  /**
+   * Color for this series (ink color name or hex; default: the theme palette color for its index)
    */
-  values: number[];
+  color?: string;
+
+  /**
+   * Name of this series shown in the legend
+   */
+  name?: string;
 
   /**
-   * Color for this series (ink color name or hex)
+   * Time of each value (milliseconds since the epoch or Date), in the same order as `values`.
+   * When any series has timestamps the X-axis becomes a time scale: samples are
+   * positioned by time, so irregular sampling is drawn correctly, and time tick
+   * labels are generated below the graph.
    */
+  timestamps?: TimeValue[];
+
+  /**
+   * Area to fill with block glyphs beneath the line (default: 'none').
+   * Fills are drawn under all lines; use 'between' with `stacked` for stacked areas.
+   */
+  fill?: LineGraphFill;
+
+  /**
+   * Y-axis this series is plotted against (default: 'left').
+   * Right-axis series use `rightYDomain` and `rightYLabels`.
+   */
+  axis?: LineGraphAxis;
+}
+
+/**
+ * Horizontal reference line at a Y value (e.g. an SLO threshold)
+ */
+export interface LineGraphReferenceLine {
+  /** Y value of the line */
+  y: number;
+  /** Text shown at the right end of the line */
+  label?: string;
+  /** Glyph repeated along the line (default: the theme's reference line glyph, '┄') */
+  char?: string;
+  /** Ink color name or hex (default: the theme's overlay color, 'gray') */
+  color?: string;
+}
+
+/**
+ * Shaded range of Y values (e.g. an acceptable range)
+ */
+export interface LineGraphBand {
+  /** One end of the range */
+  from: number;
+  /** Other end of the range */
+  to: number;
+  /** Glyph filling the band (default: the theme's band glyph, '░') */
+  char?: string;
+  /** Ink color name or hex (default: the theme's overlay color, 'gray') */
+  color?: string;
+}
+
+/**
+ * Vertical marker at an X position (e.g. a deploy event)
+ */
+export interface LineGraphMarker {
+  /** Sample index, or time for series with timestamps */
+  x: TimeValue;
+  /** Text shown at the top, next to the marker */
+  label?: string;
+  /** Glyph repeated down the marker (default: the theme's marker glyph, '┆') */
+  char?: string;
+  /** Ink color name or hex (default: the theme's overlay color, 'gray') */
+  color?: string;
+}
+
+/**
+ * Short text anchored to a point, written on the row above it
+ */
+export interface LineGraphAnnotation {
+  /** Sample index, or time for series with timestamps */
+  x: TimeValue;
+  /** Y value of the point */
+  y: number;
+  /** Annotation text */
+  text: string;
+  /** Ink color name or hex (default: the terminal's default color) */
   color?: string;
 }
 
@@ -52,12 +170,22 @@ export interface LineGraphProps {
 
   /**
    * Height of the graph in rows (lines).
-   * Each row provides 5 levels of resolution using scan line characters.
-   * So height=5 gives 25 vertical levels of resolution.
+   * Each row provides 5 levels of resolution using scan line characters,
+   * or 4 levels in 'braille' mode.
+   * So height=5 gives 25 vertical levels of resolution (20 in 'braille' mode).
    * @default 10
    */
   height?: number;
 
+  /**
+   * Rendering mode for the lines
+   * - 'line': Scan line characters (⎺ ⎻ ─ ⎼ ⎽), one sample per column
+   * - 'braille': 2x4 braille dot canvas with connected line segments,
+   *   doubling horizontal resolution (two samples per column)
+   * @default 'line'
+   */
+  mode?: LineGraphMode;
+
   /**
    * Y-axis domain for value mapping
    * - 'auto': Automatically scales to min/max of all data
@@ -65,13 +193,32 @@ export interface LineGraphProps {
    */
   yDomain?: 'auto' | [number, number];
 
+  /**
+   * Y-axis domain for series with `axis: 'right'`
+   * - 'auto': Automatically scales to min/max of the right-axis series
+   * - [min, max]: Fixed domain range for consistent scaling
+   */
+  rightYDomain?: 'auto' | [number, number];
+
+  /**
+   * Scale used to map values onto the Y-axis
+   * - 'linear': Proportional (default)
+   * - 'log': Logarithmic; an 'auto' yDomain starts at the smallest positive value
+   *   and non-positive values sit on the bottom row
+   * - 'symlog': Symmetric log, supports zero and negative values
+   * - 'sqrt' / { type: 'pow', exponent }: Power scales
+   */
+  scale?: ScaleType;
+
   /**
    * Optional caption to display below the graph
    */
   caption?: string;
 
   /**
-   * Whether to show Y-axis labels (shows min/max by default)
+   * Whether to show Y-axis labels.
+   * Without yLabels, round tick values (1-2-5 steps) are generated and an
+   * 'auto' yDomain is extended to the nearest ticks.
    * @default false
    */
   showYAxis?: boolean;
@@ -84,45 +231,100 @@ export interface LineGraphProps {
    */
   yLabels?: (string | number)[];
 
+  /**
+   * Labels for the right Y-axis, shown when any series has `axis: 'right'`.
+   * Follows the same rules as yLabels. The right axis is drawn when
+   * showYAxis is true or rightYLabels is provided; without rightYLabels,
+   * round tick values are generated as for the left axis.
+   */
+  rightYLabels?: (string | number)[];
+
   /**
    * X-axis labels
    * - Strings: distributed evenly across the axis (e.g., ['Q1', 'Q2', 'Q3', 'Q4'])
    * - Numbers: positioned at their actual data positions (e.g., [0, 25, 50, 75, 100])
    */
   xLabels?: (string | number)[];
-}
 
-/**
- * Grid cell containing character and color
- */
-interface GridCell {
-  char: string;
-  color: string | undefined;
-}
+  /**
+   * Formatter for generated time axis labels (series with timestamps only)
+   * - function: Receives the tick time as a Date
+   * - Intl.DateTimeFormat: Used to format each tick
+   * - undefined: Chosen from the tick interval, e.g. '14:30' for minutes or 'Jan 5' for days
+   */
+  timeFormat?: ((date: Date) => string) | Intl.DateTimeFormat;
 
-/**
- * Creates a 2D grid filled with empty cells
- */
-function createGrid(width: number, height: number): GridCell[][] {
-  return Array.from({ length: height }, () =>
-    Array.from({ length: width }, () => ({ char: ' ', color: undefined }))
-  );
+  /**
+   * How series with more samples than columns are reduced
+   * - undefined: Sample by linear interpolation (default; spikes between samples can be lost)
+   * - 'lttb': Largest-Triangle-Three-Buckets, keeps peaks while following the shape
+   * - 'minmax': Draws the minimum and maximum of every column, so no spike is hidden
+   * - 'mean': Average of every column, smooths noise
+   */
+  downsample?: DownsampleStrategy;
+
+  /**
+   * How missing values (null, NaN, ±Infinity) are drawn
+   * - 'gap': The line is broken at missing samples (default)
+   * - 'interpolate': A straight line connects the samples around the gap
+   * - 'hold': The last value before the gap is repeated
+   */
+  missing?: MissingDataMode;
+
+  /**
+   * Whether to stack series: each series is drawn at the sum of its values and
+   * the values of the series before it (matched by index, so stacked series
+   * should share their sampling). An 'auto' yDomain then starts at zero.
+   * Combine with `fill: 'between'` to draw stacked areas.
+   * @default false
+   */
+  stacked?: boolean;
+
+  /**
+   * Horizontal reference lines, drawn beneath the series.
+   * An 'auto' yDomain is extended to include them; lines outside a fixed yDomain are not drawn.
+   */
+  referenceLines?: LineGraphReferenceLine[];
+
+  /**
+   * Shaded Y ranges, drawn beneath reference lines and series.
+   * An 'auto' yDomain is extended to include them; a fixed yDomain clips them.
+   */
+  bands?: LineGraphBand[];
+
+  /**
+   * Vertical markers at X positions, drawn beneath the series (skipped outside the X range)
+   */
+  markers?: LineGraphMarker[];
+
+  /**
+   * Text annotations anchored to points, drawn beneath the series (skipped outside the X or Y domain)
+   */
+  annotations?: LineGraphAnnotation[];
+
+  /**
+   * Legend listing series names (unnamed series are shown as "Series N")
+   * - false: No legend (default)
+   * - true / 'horizontal': Entries side by side below the graph
+   * - 'vertical': One entry per line below the graph
+   */
+  legend?: ChartLegendOption;
+
+  /**
+   * Whether to tell series apart by glyph as well as by color, for readers with
+   * color vision deficiency and monochrome output: each line carries its own point
+   * marker ('●', '■', '▲', '◆', ...) at regular intervals and, in 'line' mode,
+   * areas are filled with their own pattern ('█', '▓', '▒', '░')
+   * @default the theme's setting (on for the monochrome theme)
+   */
+  patterns?: boolean;
 }
 
 /**
- * Converts a value to a position index (0 to totalLevels-1)
+ * Converts a normalized value (0 to 1, clamped) to a position index (0 to totalLevels-1)
  * where 0 is bottom and totalLevels-1 is top
  */
-function valueToPosition(
-  value: number,
-  min: number,
-  max: number,
-  totalLevels: number
-): number {
-  if (max === min) {
-    return Math.floor(totalLevels / 2);
-  }
-  const normalized = (value - min) / (max - min);
+function valueToPosition(normalized: number, totalLevels: number): number {
   const clamped = Math.max(0, Math.min(1, normalized));
   return Math.round(clamped * (totalLevels - 1));
 }
@@ -144,93 +346,371 @@ function positionToRowAndSub(
 }
 
 /**
- * Scales data to match target width using linear interpolation
+ * Draws a series onto a braille canvas as connected line segments
+ * between samples given as [dot column, value] pairs.
  */
-function scaleDataToWidth(data: number[], targetWidth: number): number[] {
-  if (data.length === targetWidth) {
-    return data;
+function drawBrailleSeries(
+  canvas: BrailleCanvas,
+  samples: Array<[number, number]>,
+  toUnit: (value: number) => number,
+  color: string | undefined
+): void {
+  const pixelHeight = canvas.pixelHeight;
+
+  // Pixel coordinates (y: 0 = top) for each sample
+  const points = samples.map(([x, value]) => [x, pixelHeight - 1 - valueToPosition(toUnit(value), pixelHeight)] as const);
+
+  if (points.length === 1) {
+    canvas.setPixel(points[0]![0], points[0]![1], color);
+    return;
   }
 
-  if (data.length === 1) {
-    return Array(targetWidth).fill(data[0]);
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x0, y0] = points[i]!;
+    const [x1, y1] = points[i + 1]!;
+    canvas.line(x0, y0, x1, y1, color);
   }
+}
+
+/**
+ * Converts a value to the pixel row (0 = top) holding the line on a canvas:
+ * the cell row in 'line' mode, the dot row in 'braille' mode
+ */
+function valueToPixelY(canvas: Canvas, value: number, toUnit: (value: number) => number): number {
+  if (canvas instanceof BrailleCanvas) {
+    return canvas.pixelHeight - 1 - valueToPosition(toUnit(value), canvas.pixelHeight);
+  }
+  return positionToRowAndSub(valueToPosition(toUnit(value), canvas.height * 5), canvas.height)[0];
+}
+
+/**
+ * Converts a value to the cell row (0 = top) holding it on a canvas
+ */
+function valueToRow(canvas: Canvas, value: number, toUnit: (value: number) => number): number {
+  const y = valueToPixelY(canvas, value, toUnit);
+  return canvas instanceof BrailleCanvas ? Math.floor(y / 4) : y;
+}
+
+/**
+ * Writes text at a cell, shifted left when it would run past the right edge
+ */
+function placeText(canvas: Canvas, x: number, y: number, text: string, color: string | undefined): void {
+  const length = Array.from(text).length;
+  canvas.text(Math.max(0, Math.min(x, canvas.width - length)), y, text, color);
+}
+
+/**
+ * Tolerance for rounding errors when checking whether a value lies within the Y domain
+ */
+const DOMAIN_EPSILON = 1e-9;
 
-  const scaled: number[] = [];
-  for (let i = 0; i < targetWidth; i++) {
-    const sourceIndex = (i / (targetWidth - 1)) * (data.length - 1);
-    const lowerIndex = Math.floor(sourceIndex);
-    const upperIndex = Math.ceil(sourceIndex);
-    const fraction = sourceIndex - lowerIndex;
-
-    if (lowerIndex === upperIndex || upperIndex >= data.length) {
-      scaled.push(data[lowerIndex] ?? data[data.length - 1]!);
-    } else {
-      const lowerValue = data[lowerIndex]!;
-      const upperValue = data[upperIndex]!;
-      scaled.push(lowerValue + fraction * (upperValue - lowerValue));
+/**
+ * Draws bands, reference lines, markers and annotations into the canvas cells.
+ * Drawn before the series, so lines and areas cover them where they overlap.
+ * Overlays outside the domains are skipped rather than pinned to an edge,
+ * and bands are clipped to the Y domain.
+ */
+function drawOverlays(
+  canvas: Canvas,
+  props: Pick<LineGraphProps, 'bands' | 'referenceLines' | 'markers' | 'annotations'>,
+  xDomain: [number, number],
+  toUnit: (value: number) => number,
+  theme: ChartTheme
+): void {
+  const { bands = [], referenceLines = [], markers = [], annotations = [] } = props;
+  const { overlayColor, glyphs } = theme;
+  const toColumn = (x: TimeValue) => positionToColumn(toTimestamp(x), xDomain, canvas.width);
+  const inXDomain = (x: TimeValue) => {
+    const position = toTimestamp(x);
+    return position >= xDomain[0] && position <= xDomain[1];
+  };
+  const inYDomain = (value: number) => {
+    const unit = toUnit(value);
+    return unit >= -DOMAIN_EPSILON && unit <= 1 + DOMAIN_EPSILON;
+  };
+
+  for (const band of bands) {
+    const high = Math.max(band.from, band.to);
+    const low = Math.min(band.from, band.to);
+    if (toUnit(high) < -DOMAIN_EPSILON || toUnit(low) > 1 + DOMAIN_EPSILON) {
+      continue;
+    }
+    const top = valueToRow(canvas, high, toUnit);
+    const bottom = valueToRow(canvas, low, toUnit);
+    for (let row = top; row <= bottom; row++) {
+      canvas.text(0, row, (band.char ?? glyphs.band).repeat(canvas.width), band.color ?? overlayColor);
     }
   }
 
-  return scaled;
+  for (const line of referenceLines) {
+    if (!inYDomain(line.y)) {
+      continue;
+    }
+    const row = valueToRow(canvas, line.y, toUnit);
+    const color = line.color ?? overlayColor;
+    canvas.text(0, row, (line.char ?? glyphs.referenceLine).repeat(canvas.width), color);
+    if (line.label) {
+      placeText(canvas, canvas.width, row, line.label, color);
+    }
+  }
+
+  for (const marker of markers) {
+    if (!inXDomain(marker.x)) {
+      continue;
+    }
+    const column = toColumn(marker.x);
+    const color = marker.color ?? overlayColor;
+    for (let row = 0; row < canvas.height; row++) {
+      canvas.setCell(column, row, marker.char ?? glyphs.marker, color);
+    }
+    if (marker.label) {
+      placeText(canvas, column + 1, 0, marker.label, color);
+    }
+  }
+
+  for (const annotation of annotations) {
+    if (!inXDomain(annotation.x) || !inYDomain(annotation.y)) {
+      continue;
+    }
+    const row = valueToRow(canvas, annotation.y, toUnit);
+    // Above the point, or below it on the top row
+    placeText(canvas, toColumn(annotation.x), row > 0 ? row - 1 : row + 1, annotation.text, annotation.color);
+  }
 }
 
 /**
- * Formats Y-axis label
+ * Collects the value drawn in each column from [column, value] samples (in column
+ * order), interpolating across skipped columns. Columns with several samples keep
+ * the highest one, so an area covers a min-max envelope.
  */
-function formatAxisLabel(value: number, maxLabelWidth: number): string {
-  let label: string;
-  if (Math.abs(value) >= 1000) {
-    label = value.toExponential(0);
-  } else if (Number.isInteger(value)) {
-    label = String(value);
-  } else {
-    label = value.toFixed(1);
+function samplesToColumnValues(
+  samples: Array<[number, number]>,
+  columnValues: Array<number | undefined>
+): void {
+  const setValue = (x: number, value: number) => {
+    const current = columnValues[x];
+    if (x >= 0 && x < columnValues.length && (current === undefined || value > current)) {
+      columnValues[x] = value;
+    }
+  };
+
+  samples.forEach(([x, value], index) => {
+    setValue(x, value);
+    const next = samples[index + 1];
+    if (next) {
+      for (let gap = x + 1; gap < next[0]; gap++) {
+        setValue(gap, value + ((gap - x) / (next[0] - x)) * (next[1] - value));
+      }
+    }
+  });
+}
+
+/**
+ * Fills the pixels beneath a series' line with `char` (or the canvas pixel glyph),
+ * down to the bottom of the graph or to just above the lower series' line
+ */
+function fillArea(
+  canvas: Canvas,
+  upper: Array<number | undefined>,
+  lower: Array<number | undefined> | undefined,
+  toUnit: (value: number) => number,
+  color: string | undefined,
+  char: string | undefined
+): void {
+  upper.forEach((value, x) => {
+    if (value === undefined) {
+      return;
+    }
+    const top = valueToPixelY(canvas, value, toUnit);
+    const lowerValue = lower?.[x];
+    const bottom = lowerValue === undefined ? canvas.pixelHeight : valueToPixelY(canvas, lowerValue, toUnit);
+    for (let y = top + 1; y < bottom; y++) {
+      if (char) {
+        canvas.setCell(x, y, char, color);
+      } else {
+        canvas.setPixel(x, y, color);
+      }
+    }
+  });
+}
+
+/**
+ * Places a marker on a series' line every PATTERN_MARKER_SPACING cells, starting at
+ * column `offset` so that the markers of different series are staggered
+ */
+function drawPatternMarkers(
+  canvas: Canvas,
+  columnValues: Array<number | undefined>,
+  toUnit: (value: number) => number,
+  marker: string,
+  offset: number,
+  color: string | undefined
+): void {
+  const samplesPerCell = canvas instanceof BrailleCanvas ? 2 : 1;
+  for (let x = offset; x < canvas.width; x += PATTERN_MARKER_SPACING) {
+    const value = columnValues[x * samplesPerCell];
+    if (value !== undefined) {
+      canvas.setCell(x, valueToRow(canvas, value, toUnit), marker, color);
+    }
   }
-  return label.padStart(maxLabelWidth);
 }
 
 /**
- * Renders a row with colored segments
+ * Maps an x position (sample index or time) to a column (0 to columns-1) within its domain
  */
-function renderColoredRow(cells: GridCell[]): React.ReactElement[] {
-  const segments: React.ReactElement[] = [];
-  let currentColor: string | undefined;
-  let currentText = '';
-  let segmentIndex = 0;
-
-  for (const cell of cells) {
-    if (cell.color !== currentColor) {
-      if (currentText) {
-        if (currentColor) {
-          segments.push(<Text key={segmentIndex++} color={currentColor}>{currentText}</Text>);
-        } else {
-          segments.push(<Text key={segmentIndex++}>{currentText}</Text>);
-        }
+function positionToColumn(position: number, domain: [number, number], columns: number): number {
+  const range = domain[1] - domain[0];
+  return range > 0 ? Math.round(((position - domain[0]) / range) * (columns - 1)) : 0;
+}
+
+/**
+ * Draws [column, value] samples (in column order) with scan line characters.
+ * Columns skipped between two samples are filled by linear interpolation;
+ * several samples in one column (e.g. a min-max envelope) are all drawn.
+ */
+function drawLineSamples(
+  canvas: Canvas,
+  samples: Array<[number, number]>,
+  toUnit: (value: number) => number,
+  height: number,
+  color: string | undefined
+): void {
+  const totalLevels = height * 5;
+  const plot = (x: number, value: number) => {
+    const position = valueToPosition(toUnit(value), totalLevels);
+    const [rowIndex, subPosition] = positionToRowAndSub(position, height);
+    canvas.setCell(x, rowIndex, LINE_CHARS[subPosition]!, color);
+  };
+
+  samples.forEach(([x, value], index) => {
+    plot(x, value);
+    const next = samples[index + 1];
+    if (next) {
+      for (let gap = x + 1; gap < next[0]; gap++) {
+        plot(gap, value + ((gap - x) / (next[0] - x)) * (next[1] - value));
       }
-      currentColor = cell.color;
-      currentText = cell.char;
-    } else {
-      currentText += cell.char;
     }
+  });
+}
+
+/**
+ * Resamples points (sorted by x position) to one value per column by linear
+ * interpolation between neighboring points. Columns outside the points' x span
+ * are left out, so the result is a list of [column, value] samples.
+ */
+function resampleToColumns(
+  points: SamplePoint[],
+  domain: [number, number],
+  columns: number
+): Array<[number, number]> {
+  const range = domain[1] - domain[0];
+  const first = points[0]![0];
+  const last = points[points.length - 1]![0];
+  const resampled: Array<[number, number]> = [];
+  let index = 0;
+
+  for (let x = 0; x < columns; x++) {
+    const position = range > 0 && columns > 1 ? domain[0] + (x / (columns - 1)) * range : domain[0];
+    if (position < first || position > last) {
+      continue;
+    }
+    while (index < points.length - 2 && points[index + 1]![0] < position) {
+      index++;
+    }
+    const [x0, v0] = points[index]!;
+    const [x1, v1] = points[index + 1] ?? points[index]!;
+    resampled.push([x, x1 > x0 ? v0 + ((position - x0) / (x1 - x0)) * (v1 - v0) : v0]);
   }
 
-  // Push the last segment
-  if (currentText) {
-    if (currentColor) {
-      segments.push(<Text key={segmentIndex++} color={currentColor}>{currentText}</Text>);
-    } else {
-      segments.push(<Text key={segmentIndex++}>{currentText}</Text>);
+  return resampled;
+}
+
+/**
+ * Builds the time axis label line with as many calendar ticks as fit without overlapping
+ */
+function buildTimeAxisLabelLine(
+  domain: [number, number],
+  width: number,
+  timeFormat: LineGraphProps['timeFormat']
+): string {
+  for (let count = Math.max(1, Math.floor(width / 6)); ; count--) {
+    const tickTimes = timeTicks(domain, count);
+    const format = typeof timeFormat === 'function'
+      ? (time: number) => timeFormat(new Date(time))
+      : timeFormat
+        ? (time: number) => timeFormat.format(time)
+        : timeTickFormat(timeInterval(domain, count));
+
+    const widest = Math.max(0, ...tickTimes.map(time => measureWidth(format(time))));
+    const spacing = tickTimes.length > 1
+      ? Math.min(...tickTimes.slice(1).map((time, i) => (time - tickTimes[i]!) / (domain[1] - domain[0]))) * (width - 1)
+      : Infinity;
+
+    if (count <= 1 || spacing >= widest + 1) {
+      return buildXAxisLabelLine(tickTimes, width, domain, format);
     }
   }
+}
 
-  return segments;
+/**
+ * Value range, value mapping and labels of a Y-axis
+ */
+interface YAxisRange {
+  min: number;
+  max: number;
+  toUnit: (value: number) => number;
+  labelValues: (string | number)[] | undefined;
+}
+
+/**
+ * Resolves a Y-axis from its values, domain and labels. Without explicit labels,
+ * a shown axis gets round tick labels and an 'auto' domain is extended to them.
+ */
+function resolveYAxis(
+  values: number[],
+  yDomain: 'auto' | [number, number],
+  labels: (string | number)[] | undefined,
+  options: { scale: ScaleType; height: number; showAxis: boolean; fromZero: boolean }
+): YAxisRange {
+  const { scale, height, showAxis, fromZero } = options;
+  let min: number;
+  let max: number;
+  if (yDomain === 'auto') {
+    // A log scale cannot start at or below zero
+    const [valueMin, valueMax] = extent(values);
+    min = scale === 'log' ? logDomainMin(values) : valueMin;
+    if (fromZero && scale !== 'log') {
+      min = Math.min(min, 0);
+    }
+    max = Math.max(valueMax, min);
+  } else {
+    [min, max] = yDomain;
+  }
+
+  // Generate round tick labels when the axis is shown without explicit labels
+  let tickLabels: number[] | undefined;
+  if (showAxis && !(labels && labels.length > 0)) {
+    const tickCount = Math.max(1, Math.floor(height / 2));
+    if (yDomain === 'auto') {
+      [min, max] = scaleNice(scale, [min, max], tickCount);
+    }
+    tickLabels = scaleTicks(scale, [min, max], tickCount);
+  }
+
+  return {
+    min,
+    max,
+    toUnit: min === max ? () => 0.5 : createScale(scale, [min, max]),
+    labelValues: tickLabels ?? labels,
+  };
 }
 
 /**
  * A high-resolution line graph component that visualizes multiple data series.
  *
  * Uses Unicode horizontal scan line characters (⎺ ⎻ ─ ⎼ ⎽) at different vertical positions
- * within each row to achieve 5x the vertical resolution.
+ * within each row to achieve 5x the vertical resolution. In 'braille' mode, each cell
+ * is a 2x4 braille dot matrix with connected line segments between samples.
  *
  * @example
  * ```tsx
@@ -248,12 +728,31 @@ function renderColoredRow(cells: GridCell[]): React.ReactElement[] {
  *   caption="Comparison"
  * />
  *
+ * // Named series with a legend
+ * <LineGraph
+ *   data={[
+ *     { values: [10, 20, 15], color: 'red', name: 'errors' },
+ *     { values: [5, 15, 20], color: 'blue', name: 'retries' },
+ *   ]}
+ *   legend={true}
+ * />
+ *
+ * // Braille mode (2x horizontal resolution)
+ * <LineGraph data={[{ values: [1, 3, 2, 5, 4, 6] }]} height={4} mode="braille" />
+ *
  * // With Y-axis labels
  * <LineGraph
  *   data={[{ values: [100, 200, 150, 300] }]}
  *   height={6}
  *   showYAxis={true}
  * />
+ *
+ * // Irregularly sampled time series with a time axis
+ * <LineGraph
+ *   data={[{ values: [12, 40, 18], timestamps: [t0, t0 + 60_000, t0 + 600_000] }]}
+ *   width={40}
+ *   timeFormat={date => date.toISOString().slice(11, 16)}
+ * />
  * ```
  */
 export const LineGraph = React.memo<LineGraphProps>(function LineGraph(props) {
@@ -261,226 +760,306 @@ export const LineGraph = React.memo<LineGraphProps>(function LineGraph(props) {
     data,
     width = 'auto',
     height = 10,
+    mode = 'line',
     yDomain = 'auto',
+    rightYDomain = 'auto',
+    scale = 'linear',
     caption,
     showYAxis = false,
     yLabels: yLabelsProp,
+    rightYLabels,
     xLabels,
+    timeFormat,
+    downsample,
+    missing = 'gap',
+    stacked = false,
+    referenceLines = [],
+    bands = [],
+    markers = [],
+    annotations = [],
+    legend,
   } = props;
 
   // Enable Y-axis if yLabels is provided
   const hasYAxis = showYAxis || (yLabelsProp && yLabelsProp.length > 0);
 
   const autoWidth = useAutoWidth();
+  const theme = useChartTheme();
+  const patterns = props.patterns ?? theme.patterns;
 
   // Handle empty data
   if (!data || data.length === 0) {
     return null;
   }
 
-  // Collect all valid values from all series
-  const allValidValues: number[] = [];
-  const validSeries: Array<{ values: number[]; color: string | undefined }> = [];
+  // Collect all valid values from all series, with the x position of each value
+  // (its index, or its time for series with timestamps, sorted by time).
+  // Missing values are filled according to `missing` or kept as null gaps.
+  const axisValues: Record<LineGraphAxis, number[]> = { left: [], right: [] };
+  const validSeries: Array<{
+    index: number;
+    positions: number[];
+    values: Array<number | null>;
+    timed: boolean;
+    color: string | undefined;
+    fill: LineGraphFill;
+    axis: LineGraphAxis;
+  }> = [];
 
-  for (const series of data) {
-    const validValues = series.values.filter(Number.isFinite);
-    if (validValues.length > 0) {
-      validSeries.push({ values: validValues, color: series.color });
-      allValidValues.push(...validValues);
+  // Stacked series are drawn at the running total of the series before them on the same axis
+  const stackTotals: Record<LineGraphAxis, number[]> = { left: [], right: [] };
+  const seriesValues = data.map(series => {
+    if (!stacked) {
+      return series.values;
     }
-  }
-
-  if (validSeries.length === 0 || allValidValues.length === 0) {
-    return null;
-  }
+    const totals = stackTotals[series.axis ?? 'left'];
+    return series.values.map((value, index) => {
+      if (isMissing(value)) {
+        return null;
+      }
+      totals[index] = (totals[index] ?? 0) + value;
+      return totals[index]!;
+    });
+  });
 
-  // Calculate Y domain from all data
-  let min: number;
-  let max: number;
-  if (yDomain === 'auto') {
-    min = Math.min(...allValidValues);
-    max = Math.max(...allValidValues);
-  } else {
-    [min, max] = yDomain;
-  }
+  data.forEach((series, seriesIndex) => {
+    const timed = Boolean(series.timestamps && series.timestamps.length > 0);
+    const samples = seriesValues[seriesIndex]!.map((value, index) => [
+      timed ? toTimestamp(series.timestamps![index] ?? NaN) : index,
+      value,
+    ] as const);
+    if (timed) {
+      samples.sort((a, b) => a[0] - b[0]);
+    }
+    const validSamples = samples.filter(([position]) => Number.isFinite(position));
+    const positions = validSamples.map(([position]) => position);
+    const values = fillMissing(validSamples.map(([, value]) => value), missing, positions);
 
-  // Calculate Y-axis label width based on actual values or provided labels
-  let yAxisLabelWidth = 0;
-  if (hasYAxis) {
-    if (yLabelsProp && yLabelsProp.length > 0) {
-      // Use provided labels to calculate width
-      for (const label of yLabelsProp) {
-        const labelStr = typeof label === 'number' ? formatAxisLabel(label, 1) : String(label);
-        yAxisLabelWidth = Math.max(yAxisLabelWidth, labelStr.length);
+    const presentValues = values.filter((value): value is number => value !== null);
+    if (presentValues.length > 0) {
+      const axis = series.axis ?? 'left';
+      validSeries.push({ index: seriesIndex, positions, values, timed, color: series.color || paletteColor(theme, seriesIndex), fill: series.fill ?? 'none', axis });
+      for (const value of presentValues) {
+        axisValues[axis].push(value);
       }
-    } else {
-      // Use min/max for default labels
-      const maxLabel = formatAxisLabel(max, 1);
-      const minLabel = formatAxisLabel(min, 1);
-      yAxisLabelWidth = Math.max(maxLabel.length, minLabel.length);
     }
+  });
+
+  if (validSeries.length === 0) {
+    return null;
   }
+
+  // Time domain shared by all series with timestamps
+  const allTimes = validSeries.flatMap(series => (series.timed ? series.positions : []));
+  const timeDomain: [number, number] | null = allTimes.length > 0 ? extent(allTimes) : null;
+  const longestSeries = extent(validSeries.map(series => series.values.length))[1];
+
+  // Calculate the left Y domain from its series, reference lines and bands
+  // (stacked totals are measured from zero). Without left-axis series the
+  // left axis spans the right-axis series, so overlays still have a range.
+  const leftValues = [
+    ...(axisValues.left.length > 0 ? axisValues.left : axisValues.right),
+    ...referenceLines.map(line => line.y),
+    ...bands.flatMap(band => [band.from, band.to]),
+  ].filter(Number.isFinite);
+  const axisOptions = { scale, height, fromZero: stacked };
+  const { min, max, toUnit, labelValues: yAxisLabelValues } = resolveYAxis(
+    leftValues,
+    yDomain,
+    yLabelsProp,
+    { ...axisOptions, showAxis: Boolean(hasYAxis) }
+  );
+
+  // The right Y-axis has its own domain and labels for the series bound to it
+  const hasRightSeries = axisValues.right.length > 0;
+  const hasRightAxis = hasRightSeries && Boolean(showYAxis || (rightYLabels && rightYLabels.length > 0));
+  const rightAxis = hasRightSeries
+    ? resolveYAxis(axisValues.right, rightYDomain, rightYLabels, { ...axisOptions, showAxis: hasRightAxis })
+    : null;
+
+  // Calculate Y-axis label widths based on actual values or provided labels
+  const yAxisLabelWidth = hasYAxis ? calculateYAxisLabelWidth(min, max, yAxisLabelValues) : 0;
   const yAxisWidth = hasYAxis ? yAxisLabelWidth + 1 : 0; // +1 for │
+  const rightAxisLabelWidth = hasRightAxis && rightAxis
+    ? calculateYAxisLabelWidth(rightAxis.min, rightAxis.max, rightAxis.labelValues)
+    : 0;
+  const rightAxisWidth = hasRightAxis ? rightAxisLabelWidth + 1 : 0; // +1 for │
 
   // Determine effective width (use longest series for 'auto')
+  // Braille mode fits two samples per column
+  const samplesPerColumn = mode === 'braille' ? 2 : 1;
+  const autoDataWidth = Math.ceil(longestSeries / samplesPerColumn);
   let effectiveWidth: number;
   if (width === 'auto') {
-    effectiveWidth = Math.max(...validSeries.map(s => s.values.length));
+    effectiveWidth = autoDataWidth;
   } else {
     const calculated = calculateEffectiveWidth(width, autoWidth.width);
-    effectiveWidth = typeof calculated === 'number'
-      ? calculated
-      : Math.max(...validSeries.map(s => s.values.length));
+    effectiveWidth = typeof calculated === 'number' ? calculated : autoDataWidth;
   }
 
-  const graphWidth = Math.max(1, effectiveWidth - yAxisWidth);
+  const graphWidth = Math.max(1, effectiveWidth - yAxisWidth - rightAxisWidth);
 
-  // Create grid with cells that track character and color
-  const grid = createGrid(graphWidth, height);
-  const totalLevels = height * 5;
+  // Reduce each series to [column, value] samples per run of present values
+  const canvas = mode === 'braille' ? new BrailleCanvas(graphWidth, height) : new Canvas(graphWidth, height, theme.glyphs.area);
+  const columns = canvas instanceof BrailleCanvas ? canvas.pixelWidth : graphWidth;
+  const seriesSamples = validSeries.map(series => {
+    const domain: [number, number] = series.timed && timeDomain ? timeDomain : [0, series.values.length - 1];
+    const toColumn = ([position, value]: SamplePoint): [number, number] =>
+      [positionToColumn(position, domain, columns), value];
 
-  // Place characters on grid for each series (first series has priority)
-  for (const series of validSeries) {
-    const scaledData = scaleDataToWidth(series.values, graphWidth);
-
-    for (let x = 0; x < scaledData.length; x++) {
-      const value = scaledData[x]!;
-      const position = valueToPosition(value, min, max, totalLevels);
-      const [rowIndex, subPosition] = positionToRowAndSub(position, height);
-
-      if (rowIndex >= 0 && rowIndex < height) {
-        const cell = grid[rowIndex]![x]!;
-        // Only place if cell is empty (first series wins)
-        if (cell.char === ' ') {
-          cell.char = LINE_CHARS[subPosition]!;
-          cell.color = series.color;
+    // Each run of present values is drawn on its own, leaving gaps in between
+    return presentRuns(series.values).map(([start, end]) => {
+      const points = series.values
+        .slice(start, end)
+        .map((value, i): SamplePoint => [series.positions[start + i]!, value!]);
+
+      // Runs longer than the available columns are reduced with the chosen strategy
+      let samples: Array<[number, number]>;
+      if (downsample && points.length > columns) {
+        samples = downsamplePoints(points, columns, downsample).map(toColumn);
+      } else if (series.timed && canvas instanceof BrailleCanvas) {
+        samples = points.map(toColumn);
+      } else {
+        samples = resampleToColumns(points, domain, columns);
+        // A run between two columns still shows up in the nearest one
+        if (samples.length === 0) {
+          samples = points.map(toColumn);
         }
       }
-    }
-  }
+      return samples;
+    });
+  });
 
-  // Convert grid to React elements
-  const lines: React.ReactElement[] = [];
+  const axisToUnit = (axis: LineGraphAxis) => (axis === 'right' && rightAxis ? rightAxis.toUnit : toUnit);
 
-  // Calculate Y-axis labels
-  const yLabels: string[] = [];
-  if (hasYAxis) {
-    // Initialize all rows with empty labels
-    for (let row = 0; row < height; row++) {
-      yLabels.push(' '.repeat(yAxisLabelWidth));
+  // Overlays go beneath the series (on the left axis); markers and annotations use the longest series' indices
+  // (or times) as X positions
+  const xDomain: [number, number] = timeDomain ?? [0, longestSeries - 1];
+  drawOverlays(canvas, { referenceLines, bands, markers, annotations }, xDomain, toUnit, theme);
+
+  // Value of each series per column, for area fills and pattern markers
+  const hasFill = validSeries.some(series => series.fill !== 'none');
+  const columnValues = hasFill || patterns
+    ? seriesSamples.map(runs => {
+        const values: Array<number | undefined> = Array(columns).fill(undefined);
+        runs.forEach(samples => samplesToColumnValues(samples, values));
+        return values;
+      })
+    : [];
+
+  // Filled areas go beneath every line. Series are drawn in reverse order so that
+  // earlier series end up on top where areas or lines overlap.
+  if (hasFill) {
+    for (let index = validSeries.length - 1; index >= 0; index--) {
+      const { index: seriesIndex, fill, color, axis } = validSeries[index]!;
+      if (fill !== 'none') {
+        // 'between' fills down to the previous series on the same axis
+        const previous = validSeries.slice(0, index).map(series => series.axis).lastIndexOf(axis);
+        const lower = fill === 'between' && previous >= 0 ? columnValues[previous] : undefined;
+        // Braille areas stay dots; patterns are cell glyphs
+        const char = patterns && !(canvas instanceof BrailleCanvas) ? fillPattern(theme, seriesIndex) : undefined;
+        fillArea(canvas, columnValues[index]!, lower, axisToUnit(axis), color, char);
+      }
     }
+  }
 
-    if (yLabelsProp && yLabelsProp.length > 0) {
-      // Check if all labels are numbers
-      const allNumbers = yLabelsProp.every(l => typeof l === 'number');
-
-      if (allNumbers) {
-        // Position-based placement for numbers
-        for (const label of yLabelsProp) {
-          const value = label as number;
-          // Skip labels outside yDomain range
-          if (value < min || value > max) {
-            continue;
-          }
-          // Calculate which row this value corresponds to
-          const normalizedPos = max === min ? 0.5 : (value - min) / (max - min);
-          const row = Math.round((1 - normalizedPos) * (height - 1));
-          if (row >= 0 && row < height) {
-            yLabels[row] = formatAxisLabel(value, yAxisLabelWidth);
-          }
-        }
+  for (let index = validSeries.length - 1; index >= 0; index--) {
+    const { color, axis } = validSeries[index]!;
+    for (const samples of seriesSamples[index]!) {
+      if (canvas instanceof BrailleCanvas) {
+        drawBrailleSeries(canvas, samples, axisToUnit(axis), color);
       } else {
-        // Even distribution for strings
-        for (let i = 0; i < yLabelsProp.length; i++) {
-          const row = yLabelsProp.length === 1
-            ? 0
-            : Math.round((i / (yLabelsProp.length - 1)) * (height - 1));
-          if (row >= 0 && row < height) {
-            const labelStr = String(yLabelsProp[i]);
-            yLabels[row] = labelStr.padStart(yAxisLabelWidth);
-          }
-        }
+        drawLineSamples(canvas, samples, axisToUnit(axis), height, color);
       }
-    } else {
-      // Default: show min/max only
-      yLabels[0] = formatAxisLabel(max, yAxisLabelWidth);
-      yLabels[height - 1] = formatAxisLabel(min, yAxisLabelWidth);
     }
   }
 
+  if (patterns) {
+    for (let index = validSeries.length - 1; index >= 0; index--) {
+      const { index: seriesIndex, color, axis } = validSeries[index]!;
+      const offset = (seriesIndex * 2) % PATTERN_MARKER_SPACING;
+      drawPatternMarkers(canvas, columnValues[index]!, axisToUnit(axis), pointMarker(theme, seriesIndex), offset, color);
+    }
+  }
+
+  // Convert canvas to React elements
+  const lines: React.ReactElement[] = [];
+
+  // Calculate Y-axis labels
+  const yLabels = hasYAxis
+    ? buildYAxisLabels(height, yAxisLabelWidth, min, max, yAxisLabelValues, toUnit)
+    : [];
+  // Right-axis labels are left-aligned next to the graph
+  const rightYAxisLabels = hasRightAxis && rightAxis
+    ? buildYAxisLabels(
+        height,
+        rightAxisLabelWidth,
+        rightAxis.min,
+        rightAxis.max,
+        rightAxis.labelValues,
+        rightAxis.toUnit,
+        'left'
+      )
+    : [];
+
   for (let row = 0; row < height; row++) {
-    const coloredSegments = renderColoredRow(grid[row]!);
+    const coloredSegments = canvas.renderRow(row);
 
     lines.push(
       <Text key={row}>
-        {hasYAxis && <Text dimColor>{yLabels[row]}│</Text>}
+        {hasYAxis && <Text {...theme.axis}>{yLabels[row]}│</Text>}
         {coloredSegments}
+        {hasRightAxis && <Text {...theme.axis}>│{rightYAxisLabels[row]}</Text>}
       </Text>
     );
   }
 
   // Render X-axis line and labels
+  // (time series get generated calendar ticks unless xLabels are given)
   const xAxisElements: React.ReactElement[] = [];
-  if (xLabels && xLabels.length > 0) {
+  const hasXLabels = xLabels && xLabels.length > 0;
+  if (hasXLabels || timeDomain) {
     const yAxisPadding = hasYAxis ? ' '.repeat(yAxisWidth - 1) + '└' : '';
-    const axisLine = '─'.repeat(graphWidth);
+    const axisLine = '─'.repeat(graphWidth) + (hasRightAxis ? '┘' : '');
 
     // X-axis line
     xAxisElements.push(
-      <Text key="xaxis-line" dimColor>
+      <Text key="xaxis-line" {...theme.axis}>
         {yAxisPadding}{axisLine}
       </Text>
     );
 
     // Build label line with proper positioning
-    const labelLine = Array(graphWidth).fill(' ');
-    const labelCount = xLabels.length;
-
-    // Check if all labels are numbers (for position-based placement)
-    const allNumbers = xLabels.every(l => typeof l === 'number');
-
-    if (allNumbers && labelCount > 1) {
-      // Position-based placement for numbers
-      const numLabels = xLabels as number[];
-      const minLabel = Math.min(...numLabels);
-      const maxLabel = Math.max(...numLabels);
-      const range = maxLabel - minLabel;
-
-      for (const label of numLabels) {
-        const labelStr = String(label);
-        const normalizedPos = range > 0 ? (label - minLabel) / range : 0;
-        const pos = Math.round(normalizedPos * (graphWidth - 1));
-        const startPos = Math.max(0, Math.min(graphWidth - labelStr.length, pos - Math.floor(labelStr.length / 2)));
-        for (let i = 0; i < labelStr.length && startPos + i < graphWidth; i++) {
-          labelLine[startPos + i] = labelStr[i]!;
-        }
-      }
-    } else {
-      // Even distribution for strings (or single label)
-      for (let i = 0; i < labelCount; i++) {
-        const labelStr = String(xLabels[i]);
-        const pos = labelCount === 1
-          ? 0
-          : Math.round((i / (labelCount - 1)) * (graphWidth - 1));
-        const startPos = Math.max(0, Math.min(graphWidth - labelStr.length, pos - Math.floor(labelStr.length / 2)));
-        for (let j = 0; j < labelStr.length && startPos + j < graphWidth; j++) {
-          labelLine[startPos + j] = labelStr[j]!;
-        }
-      }
-    }
+    const labelLine = hasXLabels
+      ? buildXAxisLabelLine(xLabels, graphWidth)
+      : buildTimeAxisLabelLine(timeDomain!, graphWidth, timeFormat);
 
     const labelPadding = hasYAxis ? ' '.repeat(yAxisWidth) : '';
     xAxisElements.push(
-      <Text key="xaxis-labels" dimColor>
-        {labelPadding}{labelLine.join('')}
+      <Text key="xaxis-labels" {...theme.axis}>
+        {labelPadding}{labelLine}
       </Text>
     );
   }
 
+  const legendLayout = resolveLegendLayout(legend);
+  const legendItems = data.map((series, index) => {
+    const color = series.color || paletteColor(theme, index);
+    return {
+      // Right-axis series are marked when both axes are in use
+      name: (series.name ?? `Series ${index + 1}`) + (series.axis === 'right' && axisValues.left.length > 0 ? ' (right)' : ''),
+      marker: series.fill && series.fill !== 'none'
+        ? patterns ? fillPattern(theme, index) : theme.glyphs.area
+        : patterns ? pointMarker(theme, index) : mode === 'braille' ? '⣀' : LINE_CHARS[2],
+      ...(color ? { color } : {}),
+    };
+  });
+
   return (
     <Box flexDirection="column">
       {lines}
       {xAxisElements}
+      {legendLayout && <Legend items={legendItems} layout={legendLayout} />}
       {caption && caption.trim() !== '' && <Text>{caption}</Text>}
     </Box>
   );
@@ -0,0 +1,326 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { Canvas } from '../core/canvas.js';
+import { calculateYAxisLabelWidth, buildYAxisLabels, buildXAxisLabelLine } from '../core/axis.js';
+import { Legend, resolveLegendLayout, type ChartLegendOption } from './Legend.js';
+import { extent, nice, ticks } from '../scale.js';
+import { paletteColor, pointMarker } from '../theme.js';
+
+/**
+ * Marker used when more than 9 points share a cell in 'count' overlap mode
+ */
+const OVERFLOW_MARKER = '+';
+
+/**
+ * A single point on the scatter plot
+ */
+export interface ScatterPoint {
+  /** Position on the X axis */
+  x: number;
+  /** Position on the Y axis */
+  y: number;
+  /** Optional color for this point (overrides the series color) */
+  color?: string;
+  /** Optional marker character for this point (overrides the series marker) */
+  marker?: string;
+}
+
+/**
+ * A series of points sharing a default color and marker
+ */
+export interface ScatterPlotSeries {
+  /** Points belonging to this series */
+  points: ScatterPoint[];
+  /** Color for points in this series (ink color name or hex; default: the theme palette color for its index) */
+  color?: string;
+  /** Marker character for points in this series (default: the theme's point glyph, '●') */
+  marker?: string;
+  /** Name of this series shown in the legend */
+  name?: string;
+}
+
+/**
+ * How to render cells that contain more than one point
+ * - 'count': Show the number of points (2-9, '+' above 9) in the color of the first point
+ * - 'first': Keep the first point drawn (earlier series take priority)
+ * - 'last': Keep the last point drawn
+ */
+export type ScatterPlotOverlap = 'count' | 'first' | 'last';
+
+/**
+ * Props for the ScatterPlot component
+ */
+export interface ScatterPlotProps {
+  /**
+   * Array of point series to visualize
+   */
+  data: ScatterPlotSeries[];
+
+  /**
+   * Width of the plot in characters (including the Y-axis).
+   * - 'auto': Uses 40 characters as default width
+   * - 'full': Uses full terminal width with margin
+   * - number: Fixed width
+   */
+  width?: 'auto' | 'full' | number;
+
+  /**
+   * Height of the plot in rows
+   * @default 10
+   */
+  height?: number;
+
+  /**
+   * X-axis domain for point placement
+   * - 'auto': Automatically scales to min/max of all x values
+   * - [min, max]: Fixed domain range; points outside are not drawn
+   */
+  xDomain?: 'auto' | [number, number];
+
+  /**
+   * Y-axis domain for point placement
+   * - 'auto': Automatically scales to min/max of all y values
+   * - [min, max]: Fixed domain range; points outside are not drawn
+   */
+  yDomain?: 'auto' | [number, number];
+
+  /**
+   * How to render cells containing multiple points
+   * @default 'count'
+   */
+  overlap?: ScatterPlotOverlap;
+
+  /**
+   * Optional caption to display below the plot
+   */
+  caption?: string;
+
+  /**
+   * Whether to show Y-axis labels.
+   * Without yLabels, round tick values (1-2-5 steps) are generated and an
+   * 'auto' yDomain is extended to the nearest ticks.
+   * @default false
+   */
+  showYAxis?: boolean;
+
+  /**
+   * Y-axis labels
+   * - Numbers: positioned at their actual Y values (e.g., [0, 50, 100])
+   * - Strings: distributed evenly across the axis
+   * When specified, showYAxis is automatically enabled
+   */
+  yLabels?: (string | number)[];
+
+  /**
+   * X-axis labels
+   * - Strings: distributed evenly across the axis
+   * - Numbers: positioned at their actual X values within the X domain
+   */
+  xLabels?: (string | number)[];
+
+  /**
+   * Legend listing series names and markers (unnamed series are shown as "Series N")
+   * - false: No legend (default)
+   * - true / 'horizontal': Entries side by side below the plot
+   * - 'vertical': One entry per line below the plot
+   */
+  legend?: ChartLegendOption;
+
+  /**
+   * Whether to tell series apart by marker ('●', '■', '▲', '◆', ...) as well as by color,
+   * for readers with color vision deficiency and monochrome output.
+   * Series and points with their own `marker` keep it.
+   * @default the theme's setting (on for the monochrome theme)
+   */
+  patterns?: boolean;
+}
+
+/**
+ * Resolves a domain from the configured value or the data extent
+ */
+function resolveDomain(domain: 'auto' | [number, number], values: number[]): [number, number] {
+  if (domain !== 'auto') {
+    return domain[0] <= domain[1] ? domain : [domain[1], domain[0]];
+  }
+  return extent(values);
+}
+
+/**
+ * Maps a value within [min, max] to a cell index (0 to cells-1)
+ */
+function valueToCell(value: number, min: number, max: number, cells: number): number {
+  if (max === min) {
+    return Math.floor((cells - 1) / 2);
+  }
+  return Math.round(((value - min) / (max - min)) * (cells - 1));
+}
+
+/**
+ * A scatter plot component for visualizing (x, y) points with independent axes.
+ *
+ * Each point occupies one character cell. When several points land in the same
+ * cell, the `overlap` prop decides whether the count, the first or the last
+ * point is shown.
+ *
+ * @example
+ * ```tsx
+ * <ScatterPlot
+ *   data={[
+ *     { points: [{ x: 120, y: 35 }, { x: 512, y: 80 }], color: 'cyan' },
+ *     { points: [{ x: 2048, y: 210 }], color: 'red', marker: '✕' },
+ *   ]}
+ *   width={50}
+ *   height={10}
+ *   showYAxis={true}
+ *   xLabels={[0, 1024, 2048]}
+ *   xDomain={[0, 2048]}
+ * />
+ * ```
+ */
+export const ScatterPlot = React.memo<ScatterPlotProps>(function ScatterPlot(props) {
+  const {
+    data,
+    width = 'auto',
+    height = 10,
+    xDomain = 'auto',
+    yDomain = 'auto',
+    overlap = 'count',
+    caption,
+    showYAxis = false,
+    yLabels: yLabelsProp,
+    xLabels,
+    legend,
+  } = props;
+
+  // Enable Y-axis if yLabels is provided
+  const hasYAxis = showYAxis || (yLabelsProp && yLabelsProp.length > 0);
+
+  const autoWidth = useAutoWidth();
+  const theme = useChartTheme();
+  const patterns = props.patterns ?? theme.patterns;
+
+  // Handle empty data
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const seriesMarkers = data.map((series, index) =>
+    series.marker ?? (patterns ? pointMarker(theme, index) : theme.glyphs.point)
+  );
+  const seriesColors = data.map((series, index) => series.color || paletteColor(theme, index));
+
+  // Collect valid points with resolved color and marker
+  const points: Array<{ x: number; y: number; color: string | undefined; marker: string }> = [];
+  data.forEach((series, seriesIndex) => {
+    for (const point of series.points ?? []) {
+      if (Number.isFinite(point.x) && Number.isFinite(point.y)) {
+        points.push({
+          x: point.x,
+          y: point.y,
+          color: point.color ?? seriesColors[seriesIndex],
+          marker: point.marker ?? seriesMarkers[seriesIndex]!,
+        });
+      }
+    }
+  });
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const [xMin, xMax] = resolveDomain(xDomain, points.map(p => p.x));
+  let [yMin, yMax] = resolveDomain(yDomain, points.map(p => p.y));
+
+  // Generate round tick labels when the axis is shown without explicit labels,
+  // extending an 'auto' domain to the nearest ticks
+  let yLabelValues = yLabelsProp;
+  if (hasYAxis && !(yLabelsProp && yLabelsProp.length > 0)) {
+    const tickCount = Math.max(1, Math.floor(height / 2));
+    if (yDomain === 'auto') {
+      [yMin, yMax] = nice([yMin, yMax], tickCount);
+    }
+    yLabelValues = ticks([yMin, yMax], tickCount);
+  }
+
+  // Calculate Y-axis label width based on actual values or provided labels
+  const yAxisLabelWidth = hasYAxis ? calculateYAxisLabelWidth(yMin, yMax, yLabelValues) : 0;
+  const yAxisWidth = hasYAxis ? yAxisLabelWidth + 1 : 0; // +1 for │
+
+  const calculated = calculateEffectiveWidth(width, autoWidth.width);
+  const effectiveWidth = typeof calculated === 'number' ? calculated : 40;
+  const graphWidth = Math.max(1, effectiveWidth - yAxisWidth);
+
+  // Count points per cell so overlaps can be resolved
+  const canvas = new Canvas(graphWidth, height);
+  const counts = new Map<string, number>();
+
+  for (const point of points) {
+    if (point.x < xMin || point.x > xMax || point.y < yMin || point.y > yMax) {
+      continue;
+    }
+    const col = valueToCell(point.x, xMin, xMax, graphWidth);
+    const row = height - 1 - valueToCell(point.y, yMin, yMax, height);
+    const key = `${col},${row}`;
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+
+    if (count === 1 || overlap === 'last') {
+      canvas.setCell(col, row, point.marker, point.color);
+    } else if (overlap === 'count') {
+      const cell = canvas.getCell(col, row);
+      canvas.setCell(col, row, count > 9 ? OVERFLOW_MARKER : String(count), cell?.color);
+    }
+  }
+
+  // Calculate Y-axis labels
+  const yLabels = hasYAxis
+    ? buildYAxisLabels(height, yAxisLabelWidth, yMin, yMax, yLabelValues)
+    : [];
+
+  const lines: React.ReactElement[] = [];
+  for (let row = 0; row < height; row++) {
+    lines.push(
+      <Text key={row}>
+        {hasYAxis && <Text {...theme.axis}>{yLabels[row]}│</Text>}
+        {canvas.renderRow(row)}
+      </Text>
+    );
+  }
+
+  // Render X-axis line and labels
+  const xAxisElements: React.ReactElement[] = [];
+  if (xLabels && xLabels.length > 0) {
+    const yAxisPadding = hasYAxis ? ' '.repeat(yAxisWidth - 1) + '└' : '';
+    const labelPadding = hasYAxis ? ' '.repeat(yAxisWidth) : '';
+
+    xAxisElements.push(
+      <Text key="xaxis-line" {...theme.axis}>
+        {yAxisPadding}{'─'.repeat(graphWidth)}
+      </Text>
+    );
+    xAxisElements.push(
+      <Text key="xaxis-labels" {...theme.axis}>
+        {labelPadding}{buildXAxisLabelLine(xLabels, graphWidth, [xMin, xMax])}
+      </Text>
+    );
+  }
+
+  const legendLayout = resolveLegendLayout(legend);
+  const legendItems = data.map((series, index) => ({
+    name: series.name ?? `Series ${index + 1}`,
+    marker: seriesMarkers[index]!,
+    ...(seriesColors[index] ? { color: seriesColors[index] } : {}),
+  }));
+
+  return (
+    <Box flexDirection="column">
+      {lines}
+      {xAxisElements}
+      {legendLayout && <Legend items={legendItems} layout={legendLayout} />}
+      {caption && caption.trim() !== '' && <Text>{caption}</Text>}
+    </Box>
+  );
+});
@@ -1,18 +1,24 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Text, Box } from 'ink';
-import { valuesToSymbols } from '../core/symbols.js';
+import { valuesToSymbols, valuesToBlockRows } from '../core/symbols.js';
 import { ThresholdColorizer, type ColorScheme } from '../core/thresholdColorizer.js';
 import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
+import { resolveGradient } from '../theme.js';
 import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { createScale, extent, logDomainMin, type ScaleType } from '../scale.js';
+import { downsample as downsamplePoints, type DownsampleStrategy, type SamplePoint } from '../downsample.js';
+import { fillMissing, presentRuns, type MissingDataMode } from '../missing.js';
 
 /**
  * Props for the Sparkline component
  */
 export interface SparklineProps {
   /** 
-   * Array of numeric values to visualize 
+   * Array of numeric values to visualize.
+   * null, NaN and ±Infinity mark missing values (see the `missing` prop).
    */
-  data: number[];
+  data: Array<number | null>;
   
   /** 
    * Width of the sparkline in characters. 
@@ -23,9 +29,13 @@ export interface SparklineProps {
   width?: 'auto' | 'full' | number;
   
   /** 
-   * Height of the sparkline (future use, currently unused) 
+   * Height of the sparkline in terminal rows
+   * - number: Stacks block symbols across N rows, giving N * 8 vertical levels
+   *   (e.g. 2 rows = 16 levels, 4 rows = 32 levels). Only applies to 'block' mode.
+   * - 'braille': Single row (kept for backward compatibility)
+   * @default 1
    */
-  height?: 1 | 2 | 'braille';
+  height?: number | 'braille';
   
   /** 
    * Rendering mode for the sparkline symbols
@@ -40,6 +50,33 @@ export interface SparklineProps {
    * - [min, max]: Fixed domain range for consistent scaling across datasets
    */
   yDomain?: 'auto' | [number, number];
+
+  /**
+   * Scale used to map values onto symbol heights
+   * - 'linear': Proportional (default)
+   * - 'log': Logarithmic; an 'auto' yDomain starts at the smallest positive
+   *   value and non-positive values map to the lowest symbol
+   * - 'symlog': Symmetric log, supports zero and negative values
+   * - 'sqrt' / { type: 'pow', exponent }: Power scales
+   */
+  scale?: ScaleType;
+
+  /**
+   * How data with more values than the width is reduced
+   * - undefined: Pick evenly spaced values (default; spikes in between can be lost)
+   * - 'lttb': Largest-Triangle-Three-Buckets, keeps peaks while following the shape
+   * - 'minmax': Minimum and maximum of every pair of columns, so no spike is hidden
+   * - 'mean': Average of every column, smooths noise
+   */
+  downsample?: DownsampleStrategy;
+
+  /**
+   * How missing values (null, NaN, ±Infinity) are shown
+   * - 'gap': As blank cells (default)
+   * - 'interpolate': Filled linearly from the values around the gap
+   * - 'hold': Filled with the last value before the gap
+   */
+  missing?: MissingDataMode;
   
   /** 
    * Threshold value(s) for highlighting. 
@@ -49,10 +86,14 @@ export interface SparklineProps {
   threshold?: number | number[];
   
   /**
-   * Color scheme for threshold highlighting
+   * Color scheme for threshold highlighting (the theme's gradient for named schemes)
    * - 'red': Red gradient (default)
    * - 'blue': Blue gradient  
    * - 'green': Green gradient
+   * - 'viridis' | 'magma' | 'cividis': Perceptual palettes, spread over the thresholds
+   * - string[]: Custom stops (hex codes or color names), spread over the thresholds.
+   *   Invalid stops fall back to 'red' with a warning; keep the array stable across renders
+   *   so that its ramp is built once.
    */
   colorScheme?: ColorScheme;
   
@@ -89,6 +130,9 @@ export interface SparklineProps {
  *   width="full"
  *   mode="braille"
  * />
+ *
+ * // Missing samples as blank cells
+ * <Sparkline data={[3, 5, null, null, 4, 6]} />
  * ```
  * 
  * @param props - Component properties
@@ -151,6 +195,40 @@ function processDataWithDomain(data: number[], yDomain: SparklineProps['yDomain'
   return { processedData, isPreNormalized: true };
 }
 
+/**
+ * Processes data for a non-linear scale by normalizing it to 0-1 within the
+ * domain (yDomain or the data extent) through the scale
+ * @param data - Raw numeric data (finite values only)
+ * @param yDomain - Domain configuration
+ * @param scale - Scale type
+ * @returns Object with processed data and normalization flag
+ */
+function processDataWithScale(data: number[], yDomain: SparklineProps['yDomain'], scale: ScaleType) {
+  if (scale === 'linear') {
+    return processDataWithDomain(data, yDomain);
+  }
+
+  let min: number;
+  let max: number;
+  if (yDomain && yDomain !== 'auto' && Number.isFinite(yDomain[0]) && Number.isFinite(yDomain[1])) {
+    min = Math.min(...yDomain);
+    max = Math.max(...yDomain);
+  } else {
+    const [dataMin, dataMax] = extent(data);
+    min = scale === 'log' ? logDomainMin(data) : dataMin;
+    max = dataMax;
+  }
+
+  if (max <= min) {
+    // Constant data or an empty domain renders the same on every scale
+    return processDataWithDomain(data, yDomain);
+  }
+
+  const toUnit = createScale(scale, [min, max]);
+  const processedData = data.map(value => Math.max(0, Math.min(1, toUnit(value))));
+  return { processedData, isPreNormalized: true };
+}
+
 /**
  * Scales symbols array to match target width
  * @param symbols - Array of symbol characters
@@ -181,13 +259,55 @@ function scaleSymbolsToWidth(symbols: string[], targetWidth: number): string[] {
   return newSymbols;
 }
 
+/**
+ * Reduces data to about `width` values with a downsampling strategy. Each run of
+ * present values is reduced on its own to its share of the width, and each gap
+ * between runs keeps at least one missing value.
+ */
+function downsampleToWidth(data: Array<number | null>, width: number, strategy: DownsampleStrategy): Array<number | null> {
+  // Cells from the start of the data up to an index
+  const toCell = (index: number) => Math.round((index / data.length) * width);
+  const cellsBetween = (start: number, end: number) => Math.max(1, toCell(end) - toCell(start));
+  const gap = (start: number, end: number) => Array<null>(cellsBetween(start, end)).fill(null);
+
+  const result: Array<number | null> = [];
+  let previousEnd = 0;
+  for (const [start, end] of presentRuns(data)) {
+    if (start > previousEnd) {
+      result.push(...gap(previousEnd, start));
+    }
+    const points = data.slice(start, end).map((value, i): SamplePoint => [start + i, value!]);
+    const cells = cellsBetween(start, end);
+    // 'minmax' yields up to two values per bucket
+    const columns = strategy === 'minmax' ? Math.max(1, Math.floor(cells / 2)) : cells;
+    result.push(...downsamplePoints(points, columns, strategy).map(([, value]) => value));
+    previousEnd = end;
+  }
+  if (data.length > previousEnd) {
+    result.push(...gap(previousEnd, data.length));
+  }
+  return result;
+}
+
+/**
+ * Spreads the symbols of the present values over all positions, leaving blank
+ * cells for missing values
+ */
+function insertGaps(symbols: string[], values: Array<number | null>): string[] {
+  let next = 0;
+  return values.map(value => (value === null ? ' ' : symbols[next++]!));
+}
 
 export function Sparkline(props: SparklineProps): React.ReactElement | null {
   const {
     data,
     width = 'auto',
+    height = 1,
     mode = 'block',
     yDomain = 'auto',
+    scale = 'linear',
+    downsample,
+    missing = 'gap',
     threshold,
     colorScheme = 'red',
     caption
@@ -195,6 +315,15 @@ export function Sparkline(props: SparklineProps): React.ReactElement | null {
 
   // Use auto-width hook for terminal width detection
   const autoWidth = useAutoWidth();
+  const theme = useChartTheme();
+  // Only thresholds are colored; the colorizer and its ramp are rebuilt when the scheme or theme changes
+  const hasThreshold = threshold !== undefined;
+  const colorizer = useMemo(
+    () => (hasThreshold
+      ? new ThresholdColorizer(colorScheme, { ramp: resolveGradient(theme, colorScheme), highlight: theme.highlight })
+      : null),
+    [hasThreshold, colorScheme, theme]
+  );
   
   // Determine effective width based on width prop
   let effectiveWidth: number;
@@ -217,32 +346,62 @@ export function Sparkline(props: SparklineProps): React.ReactElement | null {
     // Fall back to data length for invalid width
   }
 
-  // Filter out non-finite values and warn if found
-  const validData = data.filter(Number.isFinite);
-  if (validData.length !== data.length) {
-    console.warn(`Sparkline: ${data.length - validData.length} non-finite values removed from data`);
-  }
+  // Missing values (null or non-finite) become null gaps unless filled
+  const filledData = fillMissing(data, missing);
 
   // Handle case where all data was invalid
-  if (validData.length === 0) {
+  if (filledData.every(value => value === null)) {
     console.warn('Sparkline: No valid data points found');
     return null;
   }
 
+  const hasValidWidth = typeof effectiveWidth === 'number' && effectiveWidth > 0 && Number.isInteger(effectiveWidth);
+
+  // Reduce long data before symbol mapping so thresholds see the same values
+  const validData: Array<number | null> = downsample && hasValidWidth && filledData.length > effectiveWidth
+    ? downsampleToWidth(filledData, effectiveWidth, downsample)
+    : filledData;
+  const presentData = validData.filter((value): value is number => value !== null);
+
   // Process data based on yDomain configuration
-  const { processedData, isPreNormalized } = processDataWithDomain(validData, yDomain);
+  const { processedData, isPreNormalized } = processDataWithScale(presentData, yDomain, scale);
+
+  // Determine number of rows to stack (multi-row stacking is block mode only)
+  const rowCount = typeof height === 'number' && Number.isFinite(height) && mode === 'block'
+    ? Math.max(1, Math.floor(height))
+    : 1;
+
+  // Multi-row rendering: one line per row, each scaled and highlighted independently
+  if (rowCount > 1) {
+    const rowTexts = valuesToBlockRows(processedData, rowCount, isPreNormalized).map(rowSymbols => {
+      const gappedSymbols = insertGaps(rowSymbols, validData);
+      const scaledSymbols = hasValidWidth ? scaleSymbolsToWidth(gappedSymbols, effectiveWidth) : gappedSymbols;
+      return colorizer && threshold !== undefined
+        ? colorizer.applyHighlighting(scaledSymbols, validData, threshold)
+        : scaledSymbols.join('');
+    });
+
+    return (
+      <Box flexDirection="column">
+        {rowTexts.map((rowText, index) => (
+          <Text key={index}>{rowText}</Text>
+        ))}
+        {caption && caption.trim() !== '' && <Text>{caption}</Text>}
+      </Box>
+    );
+  }
 
   // Generate symbols for the sparkline
-  let symbols = valuesToSymbols(processedData, mode, isPreNormalized);
+  let symbols = insertGaps(valuesToSymbols(processedData, mode, isPreNormalized), validData);
 
   // Handle width specification
-  if (typeof effectiveWidth === 'number' && effectiveWidth > 0 && Number.isInteger(effectiveWidth)) {
+  if (hasValidWidth) {
     symbols = scaleSymbolsToWidth(symbols, effectiveWidth);
   }
 
   // Apply threshold highlighting if specified
-  const sparklineText = threshold !== undefined 
-    ? new ThresholdColorizer(colorScheme).applyHighlighting(symbols, validData, threshold)
+  const sparklineText = colorizer && threshold !== undefined
+    ? colorizer.applyHighlighting(symbols, validData, threshold)
     : symbols.join('');
 
   // Render component with or without caption
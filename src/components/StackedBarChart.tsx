@@ -1,7 +1,13 @@
 import React from 'react';
 import { Text, Box } from 'ink';
 import { useAutoWidth } from '../core/useAutoWidth.js';
+import { useChartTheme } from '../core/useChartTheme.js';
 import { calculateEffectiveWidth } from '../core/widthUtils.js';
+import { measureWidth, truncateText } from '../measure.js';
+import { calculateLayout } from '../barChartLayout.js';
+import { Legend, resolveLegendLayout, type ChartLegendOption } from './Legend.js';
+import { formatCompact, formatPercent } from '../format.js';
+import { colorProps, fillPattern, hasTextStyle, paletteColor } from '../theme.js';
 
 /**
  * Data point for a stacked bar chart segment
@@ -11,9 +17,9 @@ export interface StackedBarSegment {
   label: string;
   /** The numeric value for this segment */
   value: number;
-  /** Optional color for this specific segment (hex code or Ink color name) */
+  /** Optional color for this specific segment (hex code or Ink color name; default: the theme palette color for its index) */
   color?: string;
-  /** Optional character to use for this segment (default varies by index) */
+  /** Optional character to use for this segment (default: the theme's segment glyph) */
   char?: string;
 }
 
@@ -23,10 +29,9 @@ export interface StackedBarSegment {
 export type StackedBarCharacter = '█' | '▓' | '▒' | '░' | '▆' | '▪' | '■';
 
 /**
- * Default characters for segments (cycles through these)
- * All use Full Block (U+2588) for consistent appearance - differentiate by color
+ * Bar width used by multi-row charts in 'auto' width mode
  */
-const DEFAULT_CHARS: StackedBarCharacter[] = ['█', '█', '█', '█'];
+const AUTO_BAR_WIDTH = 40;
 
 /**
  * Stacked bar chart display mode
@@ -78,11 +83,28 @@ export interface StackedBarChartProps {
 
   /**
    * Custom formatter for values
+   * (default: `formatPercent` in percentage mode, `formatCompact` in absolute mode)
    * @param value - The value to format (percentage in percentage mode, absolute value in absolute mode)
    * @param mode - The current display mode
    * @returns Formatted string representation
    */
   format?: (value: number, mode: StackedBarChartMode) => string;
+
+  /**
+   * Legend listing segment labels with their colors
+   * - false: No legend (default, labels are shown above the bar)
+   * - true / 'horizontal': Entries side by side below the chart
+   * - 'vertical': One entry per line below the chart
+   */
+  legend?: ChartLegendOption;
+
+  /**
+   * Whether to tell segments apart by fill pattern ('█', '▓', '▒', '░', ...) as well as
+   * by color, for readers with color vision deficiency and monochrome output.
+   * Segments with their own `char` keep it.
+   * @default the theme's setting (on for the monochrome theme)
+   */
+  patterns?: boolean;
 }
 
 /**
@@ -105,12 +127,14 @@ function calculateTotal(data: StackedBarSegment[]): number {
 
 /**
  * Calculate positions and dimensions for all segments
+ * (`defaultChar` gives the character of segments without their own)
  */
 function calculateSegmentPositions(
   data: StackedBarSegment[],
   barWidth: number,
   mode: StackedBarChartMode,
-  max: 'auto' | number
+  max: 'auto' | number,
+  defaultChar: (segment: StackedBarSegment, index: number) => string
 ): PositionedSegment[] {
   const total = calculateTotal(data);
   if (total <= 0) {
@@ -144,7 +168,7 @@ function calculateSegmentPositions(
     }
 
     const length = Math.max(1, Math.round(barRatio * barWidth));
-    const char = segment.char || DEFAULT_CHARS[i % DEFAULT_CHARS.length] || '█';
+    const char = segment.char || defaultChar(segment, i);
 
     positions.push({
       segment,
@@ -256,12 +280,14 @@ export const StackedBarChart = React.memo<StackedBarChartProps>(
       showLabels = true,
       showValues = true,
       format = (value: number, displayMode: StackedBarChartMode) =>
-        displayMode === 'percentage' ? `${value.toFixed(1)}%` : `${value.toFixed(0)}`
+        displayMode === 'percentage' ? formatPercent(value / 100) : formatCompact(value),
+      legend = false
     } = props;
 
     // Use auto-width hook for terminal width detection
     const autoWidth = useAutoWidth();
     const effectiveWidth = calculateEffectiveWidth(width, autoWidth.width);
+    const theme = useChartTheme();
 
     // Handle empty or invalid data
     if (!data || data.length === 0) {
@@ -278,7 +304,10 @@ export const StackedBarChart = React.memo<StackedBarChartProps>(
     const barWidth = typeof effectiveWidth === 'number' ? effectiveWidth : 40;
 
     // Calculate segment positions
-    const positions = calculateSegmentPositions(data, barWidth, mode, max);
+    const patterns = props.patterns ?? theme.patterns;
+    const positions = calculateSegmentPositions(data, barWidth, mode, max, (_, index) =>
+      patterns ? fillPattern(theme, index) : theme.glyphs.segment
+    );
     if (positions.length === 0) {
       return null;
     }
@@ -289,23 +318,219 @@ export const StackedBarChart = React.memo<StackedBarChartProps>(
     // Render value line
     const valueLine = showValues ? renderValueLine(positions, barWidth, format, mode) : null;
 
+    // Segments without a color take the theme palette color for their index
+    const segmentColors = positions.map((pos, index) => pos.segment.color || paletteColor(theme, index));
+
     // Render bar segments
     const barElements = positions.map((pos, index) => {
       const segmentBar = pos.char.repeat(pos.length);
-      return pos.segment.color ? (
-        <Text key={`segment-${index}`} color={pos.segment.color}>
+      return (
+        <Text key={`segment-${index}`} {...colorProps(segmentColors[index])}>
           {segmentBar}
         </Text>
-      ) : (
-        <Text key={`segment-${index}`}>{segmentBar}</Text>
       );
     });
 
+    const legendLayout = resolveLegendLayout(legend);
+    const legendItems = positions.map((pos, index) => ({
+      name: pos.segment.label,
+      marker: pos.char,
+      ...(segmentColors[index] ? { color: segmentColors[index] } : {}),
+    }));
+
     return (
       <Box flexDirection="column">
-        {showLabels && labelLine && <Text>{labelLine}</Text>}
+        {showLabels && labelLine && <Text {...theme.label}>{labelLine}</Text>}
         <Box>{barElements}</Box>
         {showValues && valueLine && <Text>{valueLine}</Text>}
+        {legendLayout && <Legend items={legendItems} layout={legendLayout} />}
+      </Box>
+    );
+  }
+);
+
+/**
+ * A single row (category) of a multi-row stacked bar chart
+ */
+export interface StackedBarRow {
+  /** The label displayed in the left column */
+  label: string;
+  /** Segments of this row's bar; segments with the same label share a color and legend entry */
+  segments: StackedBarSegment[];
+}
+
+/**
+ * Props for the MultiStackedBarChart component
+ */
+export interface MultiStackedBarChartProps {
+  /** Rows to display, one stacked bar per row */
+  data: StackedBarRow[];
+
+  /**
+   * Display mode for the chart
+   * - 'percentage': Every row is a 100% stacked bar (default)
+   * - 'absolute': Rows are scaled to a common max so bar lengths are comparable
+   * @default 'percentage'
+   */
+  mode?: StackedBarChartMode;
+
+  /**
+   * Maximum value for scaling (only used in 'absolute' mode)
+   * - 'auto': Uses the largest row total
+   * - number: Fixed maximum value for consistent scaling
+   * @default 'auto'
+   */
+  max?: 'auto' | number;
+
+  /**
+   * Total width constraint for the chart (including the label column)
+   * - 'auto': Use 40 characters for the bars
+   * - 'full': Use full terminal width
+   * - number: Fixed width
+   */
+  width?: 'auto' | 'full' | number;
+
+  /**
+   * Segment legend below the bars
+   * - true / 'horizontal': Entries side by side (default)
+   * - 'vertical': One entry per line
+   * - false: No legend
+   */
+  legend?: ChartLegendOption;
+
+  /**
+   * Whether to tell segment labels apart by fill pattern ('█', '▓', '▒', '░', ...) as well
+   * as by color, for readers with color vision deficiency and monochrome output.
+   * Segments with their own `char` keep it.
+   * @default the theme's setting (on for the monochrome theme)
+   */
+  patterns?: boolean;
+}
+
+/**
+ * A multi-row stacked bar chart component with one stacked bar per category.
+ *
+ * Bars are aligned after a shared label column. Segments are matched across rows
+ * by label, so each segment label keeps one color (its first explicit color, or
+ * a theme palette color) and appears once in the legend. In 'absolute' mode all
+ * rows are scaled against a common max.
+ *
+ * @example
+ * ```tsx
+ * <MultiStackedBarChart
+ *   data={[
+ *     { label: 'api', segments: [{ label: 'pass', value: 40, color: 'green' }, { label: 'fail', value: 2, color: 'red' }] },
+ *     { label: 'web', segments: [{ label: 'pass', value: 25 }, { label: 'fail', value: 5 }] },
+ *   ]}
+ *   mode="absolute"
+ *   width={60}
+ * />
+ * ```
+ *
+ * @param props - Component properties
+ * @returns React element containing the rendered chart, or null for empty/invalid data
+ */
+export const MultiStackedBarChart = React.memo<MultiStackedBarChartProps>(
+  function MultiStackedBarChart(props: MultiStackedBarChartProps): React.ReactElement | null {
+    const {
+      data,
+      mode = 'percentage',
+      max = 'auto',
+      width = 'auto',
+      legend = true
+    } = props;
+
+    // Use auto-width hook for terminal width detection
+    const autoWidth = useAutoWidth();
+    const effectiveWidth = calculateEffectiveWidth(width, autoWidth.width);
+    const theme = useChartTheme();
+
+    // Handle empty or invalid data
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const totals = data.map(row => calculateTotal(row.segments ?? []));
+    const maxTotal = Math.max(...totals);
+    if (maxTotal <= 0) {
+      return null;
+    }
+
+    // Assign one color per segment label, in order of first appearance (none with an empty palette)
+    const segmentColors = new Map<string, string>();
+    for (const row of data) {
+      for (const segment of row.segments ?? []) {
+        if (segment.color && !segmentColors.has(segment.label)) {
+          segmentColors.set(segment.label, segment.color);
+        }
+      }
+    }
+    const legendLabels: string[] = [];
+    const patterns = props.patterns ?? theme.patterns;
+    for (const row of data) {
+      for (const segment of row.segments ?? []) {
+        if (!legendLabels.includes(segment.label)) {
+          legendLabels.push(segment.label);
+          const color = paletteColor(theme, legendLabels.length - 1);
+          if (color && !segmentColors.has(segment.label)) {
+            segmentColors.set(segment.label, color);
+          }
+        }
+      }
+    }
+
+    // Patterns follow the segment label, like colors
+    const segmentChar = (segment: StackedBarSegment) =>
+      patterns ? fillPattern(theme, legendLabels.indexOf(segment.label)) : theme.glyphs.segment;
+
+    // Shared label column and bar width
+    const maxLabelWidth = Math.max(...data.map(row => measureWidth(row.label)));
+    const layout = typeof effectiveWidth === 'number'
+      ? calculateLayout({ totalWidth: effectiveWidth - 1, labelWidth: maxLabelWidth, valueWidth: 0, minBarWidth: 1 })
+      : { labelWidth: maxLabelWidth, barWidth: AUTO_BAR_WIDTH, valueWidth: 0 };
+
+    // A common max keeps absolute bars comparable across rows
+    const commonMax = max === 'auto' ? maxTotal : max;
+
+    const rows = data.map((row, rowIndex) => {
+      const label = truncateText(row.label, layout.labelWidth);
+      const labelPart = label + ' '.repeat(Math.max(0, layout.labelWidth - measureWidth(label)));
+      const positions = totals[rowIndex]! > 0
+        ? calculateSegmentPositions(row.segments, layout.barWidth, mode, commonMax, segmentChar)
+        : [];
+
+      // Rounding may overshoot the bar width; clip segments at the edge
+      const segmentElements = positions.map((pos, index) => {
+        const length = Math.max(0, Math.min(pos.length, layout.barWidth - pos.startPos));
+        return (
+          <Text key={`segment-${index}`} {...colorProps(segmentColors.get(pos.segment.label))}>
+            {pos.char.repeat(length)}
+          </Text>
+        );
+      });
+
+      return (
+        <Text key={`${row.label}-${rowIndex}`}>
+          {hasTextStyle(theme.label) ? <Text {...theme.label}>{labelPart}</Text> : labelPart}{' '}
+          {segmentElements}
+        </Text>
+      );
+    });
+
+    const legendLayout = resolveLegendLayout(legend);
+    const legendItems = legendLabels.map(label => {
+      const color = segmentColors.get(label);
+      return {
+        name: label,
+        ...(color ? { color } : {}),
+        marker: patterns ? fillPattern(theme, legendLabels.indexOf(label)) : theme.glyphs.segment,
+      };
+    });
+
+    return (
+      <Box flexDirection="column">
+        {rows}
+        {legendLayout && <Legend items={legendItems} layout={legendLayout} />}
       </Box>
     );
   }
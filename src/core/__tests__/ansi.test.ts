@@ -5,17 +5,25 @@ import {
   blue1, blue5, blue8,
   green1, green5, green8,
   orange,
+  gradientColorCode,
+  GRADIENT_RAMPS,
   stripAnsi,
   ANSI,
+  bold,
+  colorize,
 } from '../ansi';
 
 describe('ansi', () => {
   describe('color depth detection', () => {
     const originalEnv = process.env;
+    const tty = { isTTY: true };
 
     beforeEach(() => {
-      // Reset environment for each test
+      // Reset environment for each test, without the overrides and CI variables of the test run
       process.env = { ...originalEnv };
+      for (const name of ['FORCE_COLOR_DEPTH', 'FORCE_COLOR', 'NO_COLOR', 'CI', 'GITHUB_ACTIONS', 'GITLAB_CI']) {
+        delete process.env[name];
+      }
       resetColorDepthCache();
     });
 
@@ -26,45 +34,45 @@ describe('ansi', () => {
 
     it('should detect 24-bit color when COLORTERM is truecolor', () => {
       process.env.COLORTERM = 'truecolor';
-      expect(getColorDepth()).toBe(8);
+      expect(getColorDepth(tty)).toBe(8);
     });
 
     it('should detect 24-bit color when COLORTERM is 24bit', () => {
       process.env.COLORTERM = '24bit';
-      expect(getColorDepth()).toBe(8);
+      expect(getColorDepth(tty)).toBe(8);
     });
 
     it('should detect 256-color when TERM includes 256color', () => {
       process.env.TERM = 'xterm-256color';
       delete process.env.COLORTERM;
-      expect(getColorDepth()).toBe(4);
+      expect(getColorDepth(tty)).toBe(4);
     });
 
     it('should detect 256-color when TERM includes 256', () => {
       process.env.TERM = 'rxvt-unicode-256';
       delete process.env.COLORTERM;
-      expect(getColorDepth()).toBe(4);
+      expect(getColorDepth(tty)).toBe(4);
     });
 
     it('should detect 24-bit for iTerm.app', () => {
       process.env.TERM_PROGRAM = 'iTerm.app';
       delete process.env.COLORTERM;
       delete process.env.TERM;
-      expect(getColorDepth()).toBe(8);
+      expect(getColorDepth(tty)).toBe(8);
     });
 
     it('should detect 24-bit for vscode', () => {
       process.env.TERM_PROGRAM = 'vscode';
       delete process.env.COLORTERM;
       delete process.env.TERM;
-      expect(getColorDepth()).toBe(8);
+      expect(getColorDepth(tty)).toBe(8);
     });
 
     it('should default to 16-color when no color info is available', () => {
       delete process.env.COLORTERM;
       delete process.env.TERM;
       delete process.env.TERM_PROGRAM;
-      expect(getColorDepth()).toBe(1);
+      expect(getColorDepth(tty)).toBe(1);
     });
 
     it('should respect FORCE_COLOR_DEPTH environment variable', () => {
@@ -78,6 +86,10 @@ describe('ansi', () => {
       process.env.FORCE_COLOR_DEPTH = '8';
       resetColorDepthCache();
       expect(getColorDepth()).toBe(8);
+
+      process.env.FORCE_COLOR_DEPTH = '0';
+      resetColorDepthCache();
+      expect(getColorDepth(tty)).toBe(0);
     });
 
     it('should ignore invalid FORCE_COLOR_DEPTH values', () => {
@@ -85,7 +97,58 @@ describe('ansi', () => {
       delete process.env.COLORTERM;
       delete process.env.TERM;
       delete process.env.TERM_PROGRAM;
-      expect(getColorDepth()).toBe(1);
+      expect(getColorDepth(tty)).toBe(1);
+    });
+
+    it('should disable colors when NO_COLOR is set', () => {
+      process.env.COLORTERM = 'truecolor';
+      process.env.NO_COLOR = '1';
+      expect(getColorDepth(tty)).toBe(0);
+
+      process.env.NO_COLOR = '';
+      expect(getColorDepth(tty)).toBe(8);
+    });
+
+    it('should map FORCE_COLOR levels to color depths', () => {
+      const depths = ['0', '1', '2', '3', '4', 'true', 'false', ''].map(level => {
+        process.env.FORCE_COLOR = level;
+        return getColorDepth({ isTTY: false });
+      });
+      expect(depths).toEqual([0, 1, 4, 8, 8, 1, 0, 1]);
+    });
+
+    it('should let FORCE_COLOR take precedence over NO_COLOR and ignore invalid values', () => {
+      process.env.NO_COLOR = '1';
+      process.env.FORCE_COLOR = '2';
+      expect(getColorDepth(tty)).toBe(4);
+
+      process.env.FORCE_COLOR = 'yes';
+      expect(getColorDepth(tty)).toBe(0);
+    });
+
+    it('should disable colors when output is not a terminal', () => {
+      process.env.COLORTERM = 'truecolor';
+      expect(getColorDepth({ isTTY: false })).toBe(0);
+      expect(getColorDepth({})).toBe(0);
+    });
+
+    it('should disable colors for dumb terminals', () => {
+      process.env.TERM = 'dumb';
+      process.env.COLORTERM = 'truecolor';
+      expect(getColorDepth(tty)).toBe(0);
+    });
+
+    it('should detect colors of CI providers whose logs render them', () => {
+      process.env.CI = 'true';
+      process.env.GITHUB_ACTIONS = 'true';
+      expect(getColorDepth({ isTTY: false })).toBe(8);
+
+      delete process.env.GITHUB_ACTIONS;
+      process.env.GITLAB_CI = 'true';
+      expect(getColorDepth({ isTTY: false })).toBe(1);
+
+      delete process.env.GITLAB_CI;
+      expect(getColorDepth({ isTTY: false })).toBe(0);
     });
   });
 
@@ -219,6 +282,76 @@ describe('ansi', () => {
     });
   });
 
+  describe('gradientColorCode', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      resetColorDepthCache();
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      resetColorDepthCache();
+    });
+
+    it('should return foreground and background RGB codes for 24-bit terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '8';
+      expect(gradientColorCode('red', 0)).toBe('\u001b[38;2;255;200;200m');
+      expect(gradientColorCode('red', 0, 'background')).toBe('\u001b[48;2;255;200;200m');
+    });
+
+    it('should return 256-color palette codes for 256-color terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '4';
+      expect(gradientColorCode('green', 7)).toBe('\u001b[38;5;28m');
+      expect(gradientColorCode('green', 7, 'background')).toBe('\u001b[48;5;28m');
+    });
+
+    it('should return basic codes for 16-color terminals', () => {
+      process.env.FORCE_COLOR_DEPTH = '1';
+      expect(gradientColorCode('blue', 0)).toBe(ANSI.BRIGHT_BLUE);
+      expect(gradientColorCode('blue', 7)).toBe(ANSI.BLUE);
+      expect(gradientColorCode('blue', 7, 'background')).toBe('\u001b[44m');
+    });
+
+    it('should clamp out-of-range levels', () => {
+      process.env.FORCE_COLOR_DEPTH = '8';
+      expect(gradientColorCode('red', -3)).toBe(gradientColorCode('red', 0));
+      expect(gradientColorCode('red', 42)).toBe(gradientColorCode('red', 7));
+    });
+
+    it('should accept a custom ramp at every color depth', () => {
+      const ramp = {
+        rgb: Array.from({ length: 8 }, (_, i) => [i, i, i] as const),
+        ansi256: [232, 233, 234, 235, 236, 237, 238, 239],
+        ansi16: [90, 37] as const,
+      };
+      process.env.FORCE_COLOR_DEPTH = '8';
+      expect(gradientColorCode(ramp, 3)).toBe('\u001b[38;2;3;3;3m');
+      resetColorDepthCache();
+      process.env.FORCE_COLOR_DEPTH = '4';
+      expect(gradientColorCode(ramp, 3, 'background')).toBe('\u001b[48;5;235m');
+      resetColorDepthCache();
+      process.env.FORCE_COLOR_DEPTH = '1';
+      expect(gradientColorCode(ramp, 0)).toBe('\u001b[90m');
+      expect(gradientColorCode(ramp, 7, 'background')).toBe('\u001b[47m');
+    });
+
+    it('should match the built-in ramps for scheme names', () => {
+      process.env.FORCE_COLOR_DEPTH = '8';
+      expect(gradientColorCode(GRADIENT_RAMPS.blue, 5)).toBe(gradientColorCode('blue', 5));
+    });
+
+    it('should return no code and keep text plain when colors are disabled', () => {
+      process.env.FORCE_COLOR_DEPTH = '0';
+      expect(gradientColorCode('red', 3)).toBe('');
+      expect(red5('x')).toBe('x');
+      expect(orange('x')).toBe('x');
+      expect(colorize('x', ANSI.BOLD)).toBe('x');
+      expect(bold('x')).toBe('x');
+    });
+  });
+
   describe('stripAnsi', () => {
     it('should remove ANSI color codes', () => {
       const colored = `${ANSI.RED}test${ANSI.RESET}`;
@@ -13,6 +13,7 @@
  * - 24-bit (truecolor): Full RGB color support with smooth gradients
  * - 256-color: Limited gradient support using 256-color palette
  * - 16-color: Basic colors only, no gradients
+ * - No color: Plain text without escape sequences (NO_COLOR, pipes, dumb terminals)
  * 
  * @example
  * ```typescript
@@ -32,20 +33,116 @@
 /**
  * Color depth levels supported by terminals
  */
-export type ColorDepth = 1 | 4 | 8; // 16-color, 256-color, 24-bit
+export type ColorDepth = 0 | 1 | 4 | 8; // no color, 16-color, 256-color, 24-bit
 
 /**
- * Detect terminal color depth based on environment variables
+ * Output stream whose color support is detected (only whether it is a terminal matters)
  */
-export function getColorDepth(): ColorDepth {
+export interface ColorStream {
+  isTTY?: boolean;
+}
+
+/**
+ * A 24-bit color as [red, green, blue], each 0-255
+ */
+export type RGBColor = readonly [number, number, number];
+
+/**
+ * Available gradient color schemes
+ */
+export type GradientScheme = 'red' | 'blue' | 'green';
+
+/**
+ * Number of levels in each gradient
+ */
+export const GRADIENT_LEVELS = 8;
+
+/**
+ * Color depth of each FORCE_COLOR level (0-3)
+ */
+const FORCE_COLOR_DEPTHS: readonly ColorDepth[] = [0, 1, 4, 8];
+
+/**
+ * CI providers whose logs render colors although output is not a terminal
+ */
+const CI_COLOR_DEPTHS: ReadonlyArray<readonly [string, ColorDepth]> = [
+  ['GITHUB_ACTIONS', 8],
+  ['GITEA_ACTIONS', 8],
+  ['CIRCLECI', 8],
+  ['GITLAB_CI', 1],
+  ['TRAVIS', 1],
+  ['APPVEYOR', 1],
+  ['BUILDKITE', 1],
+  ['DRONE', 1],
+];
+
+/**
+ * Parses FORCE_COLOR: '0'-'3' select a level (higher levels are capped),
+ * '' and 'true' mean 16 colors and 'false' means no color
+ */
+function parseForceColor(value: string): ColorDepth | undefined {
+  if (value === '' || value === 'true') {
+    return 1;
+  }
+  if (value === 'false') {
+    return 0;
+  }
+  const level = parseInt(value, 10);
+  return level >= 0 ? FORCE_COLOR_DEPTHS[Math.min(level, 3)] : undefined;
+}
+
+/**
+ * Detect terminal color depth based on environment variables and the output stream.
+ *
+ * In order of precedence:
+ * - FORCE_COLOR_DEPTH (0, 1, 4 or 8) or FORCE_COLOR (0-3) select a depth
+ * - NO_COLOR (any non-empty value) and TERM=dumb disable colors
+ * - CI providers whose logs render colors (GitHub Actions, GitLab CI, ...) get their depth
+ * - Output that is not a terminal (a pipe or file) gets no color
+ * - COLORTERM, TERM and TERM_PROGRAM tell 24-bit and 256-color terminals apart
+ *
+ * @param stream - Stream the output is written to (default: process.stdout)
+ * @returns Detected color depth (0 when colors must not be used)
+ */
+export function getColorDepth(stream: ColorStream | undefined = process.stdout): ColorDepth {
   // Allow override for testing
   if (process.env.FORCE_COLOR_DEPTH) {
     const depth = parseInt(process.env.FORCE_COLOR_DEPTH, 10);
-    if (depth === 1 || depth === 4 || depth === 8) {
+    if (depth === 0 || depth === 1 || depth === 4 || depth === 8) {
       return depth;
     }
   }
 
+  // FORCE_COLOR applies even when output is not a terminal
+  if (process.env.FORCE_COLOR !== undefined) {
+    const forced = parseForceColor(process.env.FORCE_COLOR);
+    if (forced !== undefined) {
+      return forced;
+    }
+  }
+
+  // https://no-color.org
+  if (process.env.NO_COLOR) {
+    return 0;
+  }
+
+  if (process.env.TERM === 'dumb') {
+    return 0;
+  }
+
+  // CI logs are piped but rendered with colors by some providers
+  if (process.env.CI !== undefined) {
+    const provider = CI_COLOR_DEPTHS.find(([name]) => process.env[name] !== undefined);
+    if (provider) {
+      return provider[1];
+    }
+  }
+
+  // Redirected to a file or pipe
+  if (stream && !stream.isTTY) {
+    return 0;
+  }
+
   // 24-bit (truecolor) support
   if (process.env.COLORTERM === 'truecolor' || process.env.COLORTERM === '24bit') {
     return 8;
@@ -73,7 +170,7 @@ let cachedColorDepth: ColorDepth | null = null;
 /**
  * Get cached color depth
  */
-function getCachedColorDepth(): ColorDepth {
+export function getCachedColorDepth(): ColorDepth {
   if (cachedColorDepth === null) {
     cachedColorDepth = getColorDepth();
   }
@@ -126,10 +223,110 @@ const PALETTE_256 = {
 } as const;
 
 /**
- * Apply ANSI color to text
+ * 24-bit RGB values for gradient colors (light to dark)
+ */
+const GRADIENT_RGB: Record<GradientScheme, readonly RGBColor[]> = {
+  red: [
+    [255, 200, 200], // Light red #FFC8C8
+    [255, 180, 180], // Soft red #FFB4B4
+    [255, 160, 160], // Medium light red #FFA0A0
+    [255, 140, 140], // Medium red #FF8C8C
+    [255, 120, 120], // Medium red #FF7878
+    [255, 100, 100], // Strong red #FF6464
+    [255, 80, 80], // Vivid red #FF5050
+    [220, 50, 50], // Deep red #DC3232
+  ],
+  blue: [
+    [200, 200, 255], // Light blue #C8C8FF
+    [180, 180, 255], // Soft blue #B4B4FF
+    [160, 160, 255], // Medium light blue #A0A0FF
+    [140, 140, 255], // Medium blue #8C8CFF
+    [120, 120, 255], // Strong blue #7878FF
+    [100, 100, 255], // Vivid blue #6464FF
+    [80, 80, 255], // Deep blue #5050FF
+    [50, 50, 220], // Dark blue #3232DC
+  ],
+  green: [
+    [200, 255, 200], // Light green #C8FFC8
+    [180, 255, 180], // Soft green #B4FFB4
+    [160, 255, 160], // Medium light green #A0FFA0
+    [140, 255, 140], // Medium green #8CFF8C
+    [120, 255, 120], // Strong green #78FF78
+    [100, 255, 100], // Vivid green #64FF64
+    [80, 220, 80], // Deep green #50DC50
+    [50, 180, 50], // Dark green #32B432
+  ],
+};
+
+/**
+ * 16-color SGR foreground codes for gradient fallbacks
+ * (bright variant for the lighter half, normal variant for the darker half)
+ */
+const GRADIENT_16: Record<GradientScheme, readonly [number, number]> = {
+  red: [91, 31],
+  blue: [94, 34],
+  green: [92, 32],
+};
+
+/**
+ * A gradient of GRADIENT_LEVELS colors at every supported color depth
+ */
+export interface GradientRamp {
+  /** 24-bit colors, from the lowest to the highest level */
+  rgb: readonly RGBColor[];
+  /** 256-color palette codes, from the lowest to the highest level */
+  ansi256: readonly number[];
+  /** 16-color SGR foreground codes for the lower and the upper half of the levels */
+  ansi16: readonly [number, number];
+  /** Colors the levels were sampled from; when set, colors between the levels are interpolated (see scaleColorCode) */
+  stops?: readonly RGBColor[];
+}
+
+/**
+ * Built-in gradient ramps for each color scheme
+ */
+export const GRADIENT_RAMPS: Record<GradientScheme, GradientRamp> = {
+  red: { rgb: GRADIENT_RGB.red, ansi256: PALETTE_256.RED_GRADIENT, ansi16: GRADIENT_16.red },
+  blue: { rgb: GRADIENT_RGB.blue, ansi256: PALETTE_256.BLUE_GRADIENT, ansi16: GRADIENT_16.blue },
+  green: { rgb: GRADIENT_RGB.green, ansi256: PALETTE_256.GREEN_GRADIENT, ansi16: GRADIENT_16.green },
+};
+
+/**
+ * Gets the escape sequence for a gradient color, degrading to the terminal's color depth
+ * @param scheme - Gradient color scheme, or a custom ramp
+ * @param level - Gradient level from 0 (lightest) to 7 (darkest), clamped
+ * @param layer - Whether to color the foreground (text) or background
+ * @returns ANSI escape sequence selecting the color (empty when colors are disabled)
+ */
+export function gradientColorCode(
+  scheme: GradientScheme | GradientRamp,
+  level: number,
+  layer: 'foreground' | 'background' = 'foreground'
+): string {
+  const ramp = typeof scheme === 'string' ? GRADIENT_RAMPS[scheme] : scheme;
+  const index = Math.max(0, Math.min(GRADIENT_LEVELS - 1, Math.floor(level)));
+  const depth = getCachedColorDepth();
+  const prefix = layer === 'background' ? 48 : 38;
+
+  if (depth === 0) {
+    return '';
+  } else if (depth === 8) {
+    const [r, g, b] = ramp.rgb[index]!;
+    return `\u001b[${prefix};2;${r};${g};${b}m`;
+  } else if (depth === 4) {
+    return `\u001b[${prefix};5;${ramp.ansi256[index]}m`;
+  }
+
+  const [bright, normal] = ramp.ansi16;
+  const code = index < GRADIENT_LEVELS / 2 ? bright : normal;
+  return `\u001b[${layer === 'background' ? code + 10 : code}m`;
+}
+
+/**
+ * Apply ANSI color to text (the text stays plain when colors are disabled)
  */
 export function colorize(text: string, color: string): string {
-  return `${color}${text}${ANSI.RESET}`;
+  return getCachedColorDepth() === 0 ? text : `${color}${text}${ANSI.RESET}`;
 }
 
 /**
@@ -179,287 +376,119 @@ export function orange(text: string): string {
  * Subtle red gradient colors for smooth transitions
  */
 export function red1(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;200;200m'); // Light red #FFC8C8
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[0]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_RED);
+  return colorize(text, gradientColorCode('red', 0));
 }
 
 export function red2(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;180;180m'); // Soft red #FFB4B4
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[1]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_RED);
+  return colorize(text, gradientColorCode('red', 1));
 }
 
 export function red3(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;160;160m'); // Medium light red #FFA0A0
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[2]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_RED);
+  return colorize(text, gradientColorCode('red', 2));
 }
 
 export function red4(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;140;140m'); // Medium red #FF8C8C
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[3]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_RED);
+  return colorize(text, gradientColorCode('red', 3));
 }
 
 export function red5(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;120;120m'); // Medium red #FF7878
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[4]}m`);
-  }
-  return colorize(text, ANSI.RED);
+  return colorize(text, gradientColorCode('red', 4));
 }
 
 export function red6(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;100;100m'); // Strong red #FF6464
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[5]}m`);
-  }
-  return colorize(text, ANSI.RED);
+  return colorize(text, gradientColorCode('red', 5));
 }
 
 export function red7(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;255;80;80m'); // Vivid red #FF5050
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[6]}m`);
-  }
-  return colorize(text, ANSI.RED);
+  return colorize(text, gradientColorCode('red', 6));
 }
 
 export function red8(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;220;50;50m'); // Deep red #DC3232
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.RED_GRADIENT[7]}m`);
-  }
-  return colorize(text, ANSI.RED);
+  return colorize(text, gradientColorCode('red', 7));
 }
 
 /**
  * Blue gradient colors for smooth transitions
  */
 export function blue1(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;200;200;255m'); // Light blue #C8C8FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[0]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_BLUE);
+  return colorize(text, gradientColorCode('blue', 0));
 }
 
 export function blue2(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;180;180;255m'); // Soft blue #B4B4FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[1]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_BLUE);
+  return colorize(text, gradientColorCode('blue', 1));
 }
 
 export function blue3(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;160;160;255m'); // Medium light blue #A0A0FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[2]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_BLUE);
+  return colorize(text, gradientColorCode('blue', 2));
 }
 
 export function blue4(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;140;140;255m'); // Medium blue #8C8CFF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[3]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_BLUE);
+  return colorize(text, gradientColorCode('blue', 3));
 }
 
 export function blue5(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;120;120;255m'); // Strong blue #7878FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[4]}m`);
-  }
-  return colorize(text, ANSI.BLUE);
+  return colorize(text, gradientColorCode('blue', 4));
 }
 
 export function blue6(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;100;100;255m'); // Vivid blue #6464FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[5]}m`);
-  }
-  return colorize(text, ANSI.BLUE);
+  return colorize(text, gradientColorCode('blue', 5));
 }
 
 export function blue7(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;80;80;255m'); // Deep blue #5050FF
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[6]}m`);
-  }
-  return colorize(text, ANSI.BLUE);
+  return colorize(text, gradientColorCode('blue', 6));
 }
 
 export function blue8(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;50;50;220m'); // Dark blue #3232DC
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.BLUE_GRADIENT[7]}m`);
-  }
-  return colorize(text, ANSI.BLUE);
+  return colorize(text, gradientColorCode('blue', 7));
 }
 
 /**
  * Green gradient colors for smooth transitions
  */
 export function green1(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;200;255;200m'); // Light green #C8FFC8
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[0]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_GREEN);
+  return colorize(text, gradientColorCode('green', 0));
 }
 
 export function green2(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;180;255;180m'); // Soft green #B4FFB4
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[1]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_GREEN);
+  return colorize(text, gradientColorCode('green', 1));
 }
 
 export function green3(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;160;255;160m'); // Medium light green #A0FFA0
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[2]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_GREEN);
+  return colorize(text, gradientColorCode('green', 2));
 }
 
 export function green4(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;140;255;140m'); // Medium green #8CFF8C
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[3]}m`);
-  }
-  return colorize(text, ANSI.BRIGHT_GREEN);
+  return colorize(text, gradientColorCode('green', 3));
 }
 
 export function green5(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;120;255;120m'); // Strong green #78FF78
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[4]}m`);
-  }
-  return colorize(text, ANSI.GREEN);
+  return colorize(text, gradientColorCode('green', 4));
 }
 
 export function green6(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;100;255;100m'); // Vivid green #64FF64
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[5]}m`);
-  }
-  return colorize(text, ANSI.GREEN);
+  return colorize(text, gradientColorCode('green', 5));
 }
 
 export function green7(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;80;220;80m'); // Deep green #50DC50
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[6]}m`);
-  }
-  return colorize(text, ANSI.GREEN);
+  return colorize(text, gradientColorCode('green', 6));
 }
 
 export function green8(text: string): string {
-  const depth = getCachedColorDepth();
-  
-  if (depth === 8) {
-    return colorize(text, '\u001b[38;2;50;180;50m'); // Dark green #32B432
-  } else if (depth === 4) {
-    return colorize(text, `\u001b[38;5;${PALETTE_256.GREEN_GRADIENT[7]}m`);
-  }
-  return colorize(text, ANSI.GREEN);
+  return colorize(text, gradientColorCode('green', 7));
 }
 
 /**
  * Apply bold styling
  */
 export function bold(text: string): string {
-  return `${ANSI.BOLD}${text}${ANSI.RESET}`;
+  return colorize(text, ANSI.BOLD);
 }
 
 /**
  * Apply dim styling
  */
 export function dim(text: string): string {
-  return `${ANSI.DIM}${text}${ANSI.RESET}`;
+  return colorize(text, ANSI.DIM);
 }
 
 /**
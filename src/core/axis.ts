@@ -0,0 +1,153 @@
+/**
+ * Axis labelling utilities shared by grid-based charts (LineGraph, ScatterPlot).
+ *
+ * These helpers produce plain, fixed-width strings for the Y-axis label column
+ * and the X-axis label line so that components only need to add styling.
+ */
+
+import { formatCompact } from '../format.js';
+
+/**
+ * Formats a numeric axis label with `formatCompact` (e.g. 15k, 0.25), padded to the given width
+ */
+export function formatAxisLabel(value: number, maxLabelWidth: number): string {
+  return formatCompact(value).padStart(maxLabelWidth);
+}
+
+/**
+ * Calculates the width of the Y-axis label column.
+ * Uses the provided labels when present, otherwise the min/max labels.
+ */
+export function calculateYAxisLabelWidth(
+  min: number,
+  max: number,
+  yLabels?: (string | number)[]
+): number {
+  if (yLabels && yLabels.length > 0) {
+    let width = 0;
+    for (const label of yLabels) {
+      const labelStr = typeof label === 'number' ? formatAxisLabel(label, 1) : String(label);
+      width = Math.max(width, labelStr.length);
+    }
+    return width;
+  }
+
+  return Math.max(formatAxisLabel(max, 1).length, formatAxisLabel(min, 1).length);
+}
+
+/**
+ * Builds the Y-axis label for each row (top to bottom).
+ * - Numbers: positioned at the row matching their value within [min, max]
+ * - Strings: distributed evenly from top to bottom
+ * - No labels: max on the top row and min on the bottom row
+ *
+ * `toUnit` maps a value to its 0..1 position for non-linear scales
+ * (defaults to linear interpolation between min and max). `align` pads labels
+ * on the left ('right', for an axis left of the graph) or on the right ('left').
+ */
+export function buildYAxisLabels(
+  height: number,
+  labelWidth: number,
+  min: number,
+  max: number,
+  yLabels?: (string | number)[],
+  toUnit?: (value: number) => number,
+  align: 'left' | 'right' = 'right'
+): string[] {
+  // Initialize all rows with empty labels
+  const labels: string[] = Array.from({ length: height }, () => ' '.repeat(labelWidth));
+  const pad = (text: string) => (align === 'left' ? text.padEnd(labelWidth) : text.padStart(labelWidth));
+
+  if (yLabels && yLabels.length > 0) {
+    // Check if all labels are numbers
+    const allNumbers = yLabels.every(l => typeof l === 'number');
+
+    if (allNumbers) {
+      // Position-based placement for numbers
+      for (const label of yLabels) {
+        const value = label as number;
+        // Skip labels outside yDomain range
+        if (value < min || value > max) {
+          continue;
+        }
+        // Calculate which row this value corresponds to
+        const normalizedPos = max === min
+          ? 0.5
+          : toUnit ? toUnit(value) : (value - min) / (max - min);
+        const row = Math.round((1 - normalizedPos) * (height - 1));
+        if (row >= 0 && row < height) {
+          labels[row] = pad(formatAxisLabel(value, 1));
+        }
+      }
+    } else {
+      // Even distribution for strings
+      for (let i = 0; i < yLabels.length; i++) {
+        const row = yLabels.length === 1
+          ? 0
+          : Math.round((i / (yLabels.length - 1)) * (height - 1));
+        if (row >= 0 && row < height) {
+          labels[row] = pad(String(yLabels[i]));
+        }
+      }
+    }
+  } else if (height > 0) {
+    // Default: show min/max only
+    labels[0] = pad(formatAxisLabel(max, 1));
+    labels[height - 1] = pad(formatAxisLabel(min, 1));
+  }
+
+  return labels;
+}
+
+/**
+ * Builds the X-axis label line with each label centered on its position.
+ * - Numbers: positioned by value within `domain`, or within the min/max of
+ *   the labels themselves when no domain is given
+ * - Strings (or a single label): distributed evenly across the width
+ *
+ * `format` converts numeric labels to text (default: String).
+ */
+export function buildXAxisLabelLine(
+  xLabels: (string | number)[],
+  width: number,
+  domain?: [number, number],
+  format: (value: number) => string = String
+): string {
+  const labelLine: string[] = Array(width).fill(' ');
+  const labelCount = xLabels.length;
+
+  const placeLabel = (labelStr: string, pos: number) => {
+    const startPos = Math.max(0, Math.min(width - labelStr.length, pos - Math.floor(labelStr.length / 2)));
+    for (let i = 0; i < labelStr.length && startPos + i < width; i++) {
+      labelLine[startPos + i] = labelStr[i]!;
+    }
+  };
+
+  // Check if all labels are numbers (for position-based placement)
+  const allNumbers = xLabels.every(l => typeof l === 'number');
+
+  if (allNumbers && (labelCount > 1 || domain)) {
+    // Position-based placement for numbers
+    const numLabels = xLabels as number[];
+    const [minLabel, maxLabel] = domain ?? [Math.min(...numLabels), Math.max(...numLabels)];
+    const range = maxLabel - minLabel;
+
+    for (const label of numLabels) {
+      if (domain && (label < minLabel || label > maxLabel)) {
+        continue;
+      }
+      const normalizedPos = range > 0 ? (label - minLabel) / range : 0;
+      placeLabel(format(label), Math.round(normalizedPos * (width - 1)));
+    }
+  } else {
+    // Even distribution for strings (or single label)
+    for (let i = 0; i < labelCount; i++) {
+      const pos = labelCount === 1
+        ? 0
+        : Math.round((i / (labelCount - 1)) * (width - 1));
+      placeLabel(String(xLabels[i]), pos);
+    }
+  }
+
+  return labelLine.join('');
+}
@@ -0,0 +1,327 @@
+/**
+ * Drawing canvas primitives for building custom terminal charts.
+ *
+ * A canvas is a fixed-size grid of character cells, each with an optional color.
+ * Drawing happens in "pixel" coordinates: for `Canvas` one pixel is one cell,
+ * for `BrailleCanvas` each cell holds a 2x4 braille dot matrix. Later drawing
+ * operations overwrite earlier ones (last write wins for characters and colors).
+ *
+ * @example
+ * ```tsx
+ * const canvas = new BrailleCanvas(20, 5);
+ * canvas.line(0, 19, 39, 0, 'cyan');
+ * canvas.text(0, 0, 'peak', 'yellow');
+ *
+ * return <Box flexDirection="column">{canvas.render()}</Box>;
+ * ```
+ */
+
+import React from 'react';
+import { Text } from 'ink';
+import { getCachedColorDepth } from './ansi.js';
+
+/**
+ * A single cell on the canvas containing a character and color
+ */
+export interface CanvasCell {
+  /** Character displayed in this cell (space when empty) */
+  char: string;
+  /** Ink color name or hex code, undefined for the default color */
+  color: string | undefined;
+}
+
+/**
+ * Options for drawing rectangles
+ */
+export interface CanvasRectOptions {
+  /** Whether to fill the rectangle or only draw its outline (default: false) */
+  fill?: boolean;
+  /** Color for the rectangle */
+  color?: string;
+}
+
+/**
+ * Braille dot bit flags indexed by [column][row] within a 2x4 cell.
+ * Combined with BRAILLE_BASE to form a character (U+2800 - U+28FF).
+ */
+const BRAILLE_DOT_BITS: [[number, number, number, number], [number, number, number, number]] = [
+  [0x01, 0x02, 0x04, 0x40], // Left column, top to bottom
+  [0x08, 0x10, 0x20, 0x80], // Right column, top to bottom
+];
+
+/**
+ * Code point of the empty braille pattern (U+2800)
+ */
+const BRAILLE_BASE = 0x2800;
+
+/**
+ * Character-cell canvas where each pixel maps to exactly one cell.
+ *
+ * Coordinates start at the top-left corner (0, 0). Fractional coordinates are
+ * rounded to the nearest pixel or cell, and drawing outside the canvas bounds
+ * is silently ignored.
+ */
+export class Canvas {
+  protected readonly cells: CanvasCell[][];
+
+  /**
+   * @param width - Width in terminal columns
+   * @param height - Height in terminal rows
+   * @param pixelChar - Character used by setPixel (default: '█')
+   */
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    private readonly pixelChar: string = '█'
+  ) {
+    this.cells = Array.from({ length: Math.max(0, height) }, () =>
+      Array.from({ length: Math.max(0, width) }, () => ({ char: ' ', color: undefined }))
+    );
+  }
+
+  /**
+   * Width of the drawable area in pixels
+   */
+  public get pixelWidth(): number {
+    return this.width;
+  }
+
+  /**
+   * Height of the drawable area in pixels
+   */
+  public get pixelHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Returns the cell at the given cell coordinates, or undefined when out of bounds
+   */
+  public getCell(x: number, y: number): CanvasCell | undefined {
+    return this.cells[y]?.[x];
+  }
+
+  /**
+   * Writes a character and color into a single cell
+   */
+  public setCell(x: number, y: number, char: string, color?: string): void {
+    const cell = this.getCell(Math.round(x), Math.round(y));
+    if (cell) {
+      cell.char = char;
+      cell.color = color;
+    }
+  }
+
+  /**
+   * Sets a single pixel
+   */
+  public setPixel(x: number, y: number, color?: string): void {
+    this.setCell(x, y, this.pixelChar, color);
+  }
+
+  /**
+   * Draws a straight line between two pixels (Bresenham's algorithm)
+   */
+  public line(x0: number, y0: number, x1: number, y1: number, color?: string): void {
+    let x = Math.round(x0);
+    let y = Math.round(y0);
+    const endX = Math.round(x1);
+    const endY = Math.round(y1);
+    const dx = Math.abs(endX - x);
+    const dy = -Math.abs(endY - y);
+    const sx = x < endX ? 1 : -1;
+    const sy = y < endY ? 1 : -1;
+    let err = dx + dy;
+
+    for (;;) {
+      this.setPixel(x, y, color);
+      if (x === endX && y === endY) {
+        break;
+      }
+      const e2 = 2 * err;
+      if (e2 >= dy) {
+        err += dy;
+        x += sx;
+      }
+      if (e2 <= dx) {
+        err += dx;
+        y += sy;
+      }
+    }
+  }
+
+  /**
+   * Draws a rectangle in pixel coordinates, either outlined or filled
+   */
+  public rect(x: number, y: number, width: number, height: number, options: CanvasRectOptions = {}): void {
+    const left = Math.round(x);
+    const top = Math.round(y);
+    const right = left + Math.round(width) - 1;
+    const bottom = top + Math.round(height) - 1;
+    if (right < left || bottom < top) {
+      return;
+    }
+    const { fill = false, color } = options;
+
+    if (fill) {
+      // Only visit pixels inside the canvas
+      for (let py = Math.max(top, 0); py <= Math.min(bottom, this.pixelHeight - 1); py++) {
+        for (let px = Math.max(left, 0); px <= Math.min(right, this.pixelWidth - 1); px++) {
+          this.setPixel(px, py, color);
+        }
+      }
+      return;
+    }
+
+    this.line(left, top, right, top, color);
+    this.line(left, bottom, right, bottom, color);
+    this.line(left, top, left, bottom, color);
+    this.line(right, top, right, bottom, color);
+  }
+
+  /**
+   * Writes text starting at the given cell coordinates (not pixels).
+   * Text is clipped at the right edge of the canvas.
+   */
+  public text(x: number, y: number, value: string, color?: string): void {
+    const chars = Array.from(value);
+    const start = Math.round(x);
+    for (let i = 0; i < chars.length; i++) {
+      this.setCell(start + i, y, chars[i]!, color);
+    }
+  }
+
+  /**
+   * Resets every cell to an empty space with no color
+   */
+  public clear(): void {
+    for (const row of this.cells) {
+      for (const cell of row) {
+        cell.char = ' ';
+        cell.color = undefined;
+      }
+    }
+  }
+
+  /**
+   * Returns the plain text of each row (without colors)
+   */
+  public toStrings(): string[] {
+    return this.cells.map(row => row.map(cell => cell.char).join(''));
+  }
+
+  /**
+   * Renders a single row as colored Ink Text segments.
+   * Adjacent cells with the same color are merged into one segment.
+   */
+  public renderRow(y: number): React.ReactElement[] {
+    return renderColoredCells(this.cells[y] ?? []);
+  }
+
+  /**
+   * Renders all rows as Ink Text elements, top to bottom
+   */
+  public render(): React.ReactElement[] {
+    return this.cells.map((_, y) => <Text key={y}>{this.renderRow(y)}</Text>);
+  }
+}
+
+/**
+ * High-resolution canvas where each cell is a 2x4 braille dot matrix.
+ *
+ * Pixel coordinates are twice the width and four times the height of the
+ * cell grid. Dots drawn into the same cell are merged; the cell color is
+ * taken from the most recent drawing operation.
+ */
+export class BrailleCanvas extends Canvas {
+  private readonly dots: number[][];
+
+  /**
+   * @param width - Width in terminal columns (pixel width is width * 2)
+   * @param height - Height in terminal rows (pixel height is height * 4)
+   */
+  constructor(width: number, height: number) {
+    super(width, height);
+    this.dots = Array.from({ length: Math.max(0, height) }, () => Array<number>(Math.max(0, width)).fill(0));
+  }
+
+  public override get pixelWidth(): number {
+    return this.width * 2;
+  }
+
+  public override get pixelHeight(): number {
+    return this.height * 4;
+  }
+
+  /**
+   * Sets a single braille dot
+   */
+  public override setPixel(x: number, y: number, color?: string): void {
+    const px = Math.round(x);
+    const py = Math.round(y);
+    // Negated so that NaN coordinates are ignored as well
+    if (!(px >= 0 && px < this.pixelWidth && py >= 0 && py < this.pixelHeight)) {
+      return;
+    }
+    const cellX = Math.floor(px / 2);
+    const cellY = Math.floor(py / 4);
+    const rowDots = this.dots[cellY]!;
+    rowDots[cellX]! |= BRAILLE_DOT_BITS[(px % 2) as 0 | 1][py % 4]!;
+    super.setCell(cellX, cellY, String.fromCharCode(BRAILLE_BASE + rowDots[cellX]!), color);
+  }
+
+  /**
+   * Writes a character into a cell, discarding any braille dots it held
+   */
+  public override setCell(x: number, y: number, char: string, color?: string): void {
+    const cellX = Math.round(x);
+    const cellY = Math.round(y);
+    const rowDots = this.dots[cellY];
+    if (rowDots && cellX >= 0 && cellX < rowDots.length) {
+      rowDots[cellX] = 0;
+    }
+    super.setCell(cellX, cellY, char, color);
+  }
+
+  public override clear(): void {
+    super.clear();
+    for (const row of this.dots) {
+      row.fill(0);
+    }
+  }
+}
+
+/**
+ * Renders a row of cells as colored Ink Text segments
+ */
+function renderColoredCells(cells: CanvasCell[]): React.ReactElement[] {
+  const segments: React.ReactElement[] = [];
+  let currentColor: string | undefined;
+  let currentText = '';
+  let segmentIndex = 0;
+
+  const pushSegment = () => {
+    if (!currentText) {
+      return;
+    }
+    segments.push(
+      currentColor && getCachedColorDepth() !== 0
+        ? <Text key={segmentIndex++} color={currentColor}>{currentText}</Text>
+        : <Text key={segmentIndex++}>{currentText}</Text>
+    );
+  };
+
+  for (const cell of cells) {
+    if (cell.color !== currentColor) {
+      pushSegment();
+      currentColor = cell.color;
+      currentText = cell.char;
+    } else {
+      currentText += cell.char;
+    }
+  }
+
+  // Push the last segment
+  pushSegment();
+
+  return segments;
+}
@@ -0,0 +1,252 @@
+import {
+  getCachedColorDepth,
+  gradientColorCode,
+  GRADIENT_LEVELS,
+  type GradientRamp,
+  type RGBColor,
+} from './ansi.js';
+
+/**
+ * Perceptually uniform color schemes (dark to light), readable with color vision deficiency
+ * - 'viridis': Purple, blue, green, yellow
+ * - 'magma': Black, purple, orange, pale yellow
+ * - 'cividis': Blue, gray, yellow (optimized for red-green deficiency)
+ */
+export type PerceptualScheme = 'viridis' | 'magma' | 'cividis';
+
+/**
+ * User-defined gradient as colors (hex codes or color names) from the lowest to the highest value
+ */
+export type GradientStops = string[];
+
+/**
+ * Stops sampled evenly from the matplotlib colormaps
+ */
+export const PERCEPTUAL_STOPS: Record<PerceptualScheme, GradientStops> = {
+  viridis: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55964', '#fb8761', '#fec287', '#fcfdbf'],
+  cividis: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8779', '#a69d75', '#c4b56c', '#fee838'],
+};
+
+/**
+ * The 16 terminal colors by SGR foreground code (xterm defaults)
+ */
+const ANSI_16_RGB: ReadonlyArray<readonly [number, RGBColor]> = [
+  [30, [0, 0, 0]],
+  [31, [205, 0, 0]],
+  [32, [0, 205, 0]],
+  [33, [205, 205, 0]],
+  [34, [0, 0, 238]],
+  [35, [205, 0, 205]],
+  [36, [0, 205, 205]],
+  [37, [229, 229, 229]],
+  [90, [127, 127, 127]],
+  [91, [255, 0, 0]],
+  [92, [0, 255, 0]],
+  [93, [255, 255, 0]],
+  [94, [92, 92, 255]],
+  [95, [255, 0, 255]],
+  [96, [0, 255, 255]],
+  [97, [255, 255, 255]],
+];
+
+/**
+ * Color names accepted as gradient stops: Ink's terminal colors plus common CSS names
+ */
+const NAMED_COLORS: Record<string, RGBColor> = {
+  black: [0, 0, 0],
+  red: [205, 0, 0],
+  green: [0, 205, 0],
+  yellow: [205, 205, 0],
+  blue: [0, 0, 238],
+  magenta: [205, 0, 205],
+  cyan: [0, 205, 205],
+  white: [229, 229, 229],
+  gray: [127, 127, 127],
+  grey: [127, 127, 127],
+  blackbright: [127, 127, 127],
+  redbright: [255, 0, 0],
+  greenbright: [0, 255, 0],
+  yellowbright: [255, 255, 0],
+  bluebright: [92, 92, 255],
+  magentabright: [255, 0, 255],
+  cyanbright: [0, 255, 255],
+  whitebright: [255, 255, 255],
+  orange: [255, 165, 0],
+  gold: [255, 215, 0],
+  purple: [128, 0, 128],
+  violet: [238, 130, 238],
+  indigo: [75, 0, 130],
+  pink: [255, 192, 203],
+  brown: [165, 42, 42],
+  maroon: [128, 0, 0],
+  olive: [128, 128, 0],
+  teal: [0, 128, 128],
+  navy: [0, 0, 128],
+};
+
+/**
+ * Channel values of the 6x6x6 cube in the 256-color palette
+ */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Squared distance between two colors
+ */
+function distance(a: RGBColor, b: RGBColor): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * Parses a color given as '#rgb', '#rrggbb' or a color name (case-insensitive).
+ *
+ * @param color - Hex code or name such as 'orange' or 'cyanBright'
+ * @returns The color as [red, green, blue]
+ * @throws {TypeError} When the color cannot be parsed
+ */
+export function parseColor(color: string): RGBColor {
+  const value = color.trim().toLowerCase();
+  const named = NAMED_COLORS[value];
+  if (named) {
+    return named;
+  }
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(value)?.[1];
+  if (hex) {
+    const digits = hex.length === 3 ? hex.split('').map(digit => digit + digit) : hex.match(/../g)!;
+    return [parseInt(digits[0]!, 16), parseInt(digits[1]!, 16), parseInt(digits[2]!, 16)];
+  }
+
+  throw new TypeError(`Unknown color "${color}", expected a hex code like "#ff8800" or a color name`);
+}
+
+/**
+ * Interpolates linearly between evenly spaced color stops.
+ *
+ * @param stops - Colors from position 0 to position 1 (at least one)
+ * @param position - Position from 0 to 1, clamped
+ * @returns Interpolated color with rounded channels
+ */
+export function interpolateColor(stops: readonly RGBColor[], position: number): RGBColor {
+  const scaled = Math.max(0, Math.min(1, position)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(scaled));
+  if (index < 0) {
+    return stops[0]!;
+  }
+  const fraction = scaled - index;
+  const from = stops[index]!;
+  const to = stops[index + 1]!;
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * fraction),
+    Math.round(from[1] + (to[1] - from[1]) * fraction),
+    Math.round(from[2] + (to[2] - from[2]) * fraction),
+  ];
+}
+
+/**
+ * Quantizes a color to the nearest entry of the 256-color palette's color cube
+ * or grayscale ramp.
+ *
+ * @returns Palette code from 16 to 255
+ */
+export function rgbToAnsi256(color: RGBColor): number {
+  const nearestLevel = (channel: number) =>
+    CUBE_LEVELS.reduce((best, level, index) =>
+      Math.abs(level - channel) < Math.abs(CUBE_LEVELS[best]! - channel) ? index : best, 0);
+  const [r, g, b] = color.map(nearestLevel) as [number, number, number];
+  const cube: RGBColor = [CUBE_LEVELS[r]!, CUBE_LEVELS[g]!, CUBE_LEVELS[b]!];
+
+  // Grayscale ramp: 232 (8) to 255 (238) in steps of 10
+  const grayIndex = Math.max(0, Math.min(23, Math.round(((color[0] + color[1] + color[2]) / 3 - 8) / 10)));
+  const grayLevel = 8 + grayIndex * 10;
+
+  return distance(color, [grayLevel, grayLevel, grayLevel]) < distance(color, cube)
+    ? 232 + grayIndex
+    : 16 + 36 * r + 6 * g + b;
+}
+
+/**
+ * Quantizes a color to the nearest of the 16 terminal colors.
+ *
+ * @returns SGR foreground code (30-37 or 90-97)
+ */
+export function rgbToAnsi16(color: RGBColor): number {
+  let best = ANSI_16_RGB[0]!;
+  for (const entry of ANSI_16_RGB) {
+    if (distance(color, entry[1]) < distance(color, best[1])) {
+      best = entry;
+    }
+  }
+  return best[0];
+}
+
+/**
+ * Creates a gradient ramp from color stops: GRADIENT_LEVELS colors interpolated
+ * in truecolor, quantized to the 256-color palette and to 16 colors.
+ *
+ * @param stops - Hex codes or color names from the lowest to the highest value (at least one)
+ * @returns Ramp usable as a color scheme by Sparkline, Heatmap and themes
+ * @throws {TypeError} When there are no stops or a stop cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const ramp = createGradientRamp(['#2c7bb6', 'white', '#d7191c']);
+ * ```
+ */
+export function createGradientRamp(stops: GradientStops): GradientRamp {
+  if (stops.length === 0) {
+    throw new TypeError('A gradient needs at least one color stop');
+  }
+  const colors = stops.map(parseColor);
+  const rgb = Array.from({ length: GRADIENT_LEVELS }, (_, level) =>
+    interpolateColor(colors, level / (GRADIENT_LEVELS - 1))
+  );
+
+  return {
+    rgb,
+    ansi256: rgb.map(rgbToAnsi256),
+    ansi16: [rgbToAnsi16(interpolateColor(colors, 0.25)), rgbToAnsi16(interpolateColor(colors, 0.75))],
+    stops: colors,
+  };
+}
+
+/**
+ * Ramps of the perceptual color schemes
+ */
+export const PERCEPTUAL_RAMPS: Record<PerceptualScheme, GradientRamp> = {
+  viridis: createGradientRamp(PERCEPTUAL_STOPS.viridis),
+  magma: createGradientRamp(PERCEPTUAL_STOPS.magma),
+  cividis: createGradientRamp(PERCEPTUAL_STOPS.cividis),
+};
+
+/**
+ * Gets the escape sequence for a position on a ramp, degrading to the terminal's color depth.
+ *
+ * Ramps with stops are continuous: the exact color is interpolated in truecolor
+ * and quantized to the nearest palette entry on 256-color terminals. Other ramps
+ * use the level containing the position. Without colors (depth 0) it is empty.
+ *
+ * @param ramp - Gradient ramp
+ * @param position - Position from 0 (lowest) to 1 (highest), clamped
+ * @param layer - Whether to color the foreground (text) or background
+ * @returns ANSI escape sequence selecting the color
+ */
+export function scaleColorCode(
+  ramp: GradientRamp,
+  position: number,
+  layer: 'foreground' | 'background' = 'foreground'
+): string {
+  const clamped = Math.max(0, Math.min(1, position));
+  const depth = getCachedColorDepth();
+
+  if (!ramp.stops || depth <= 1) {
+    return gradientColorCode(ramp, Math.min(GRADIENT_LEVELS - 1, Math.floor(clamped * GRADIENT_LEVELS)), layer);
+  }
+
+  const prefix = layer === 'background' ? 48 : 38;
+  const color = interpolateColor(ramp.stops, clamped);
+  if (depth === 8) {
+    return `\u001b[${prefix};2;${color[0]};${color[1]};${color[2]}m`;
+  }
+  return `\u001b[${prefix};5;${rgbToAnsi256(color)}m`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Fixed-capacity FIFO buffer. Once full, each push overwrites the oldest item,
+ * so pushing is O(1) and never reallocates.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new RingBuffer<number>(3);
+ * [1, 2, 3, 4].forEach(value => buffer.push(value));
+ * buffer.toArray(); // [2, 3, 4]
+ * ```
+ */
+export class RingBuffer<T> {
+  readonly capacity: number;
+  private readonly items: Array<T | undefined>;
+  private start = 0;
+  private count = 0;
+
+  /**
+   * @param capacity - Maximum number of items kept (positive integer)
+   */
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new RangeError(`RingBuffer capacity must be a positive integer, got ${capacity}`);
+    }
+    this.capacity = capacity;
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  /**
+   * Number of items currently stored
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Appends an item, dropping the oldest one when the buffer is full
+   */
+  push(item: T): void {
+    const end = (this.start + this.count) % this.capacity;
+    this.items[end] = item;
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Returns the item at a position counted from the oldest item (0),
+   * or undefined when out of range. Negative indices count from the newest item.
+   */
+  at(index: number): T | undefined {
+    const position = index < 0 ? this.count + index : index;
+    if (!Number.isInteger(position) || position < 0 || position >= this.count) {
+      return undefined;
+    }
+    return this.items[(this.start + position) % this.capacity];
+  }
+
+  /**
+   * Copies the items into a new array, oldest first
+   */
+  toArray(): T[] {
+    const result = new Array<T>(this.count);
+    for (let i = 0; i < this.count; i++) {
+      result[i] = this.items[(this.start + i) % this.capacity]!;
+    }
+    return result;
+  }
+
+  /**
+   * Removes all items
+   */
+  clear(): void {
+    this.items.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+  }
+}
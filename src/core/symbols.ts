@@ -5,6 +5,8 @@
  * data into visual sparkline representations using block drawing and braille patterns.
  */
 
+import { extent } from '../scale.js';
+
 /**
  * Block drawing characters for sparkline rendering.
  * 
@@ -116,8 +118,7 @@ export function valuesToSymbols(
     return values.map(value => getSymbol(value, mode));
   }
   
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  const [min, max] = extent(values);
   const range = max - min;
   
   // Handle case where all values are the same
@@ -132,4 +133,67 @@ export function valuesToSymbols(
     const normalized = (value - min) / range;
     return getSymbol(normalized, mode);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Converts values into multiple rows of block characters stacked vertically.
+ * 
+ * Each column is filled from the bottom up with full blocks (█), and the topmost
+ * partially filled cell uses the matching partial glyph from BLOCK_SYMBOLS. This
+ * gives `rows * 8` levels of vertical resolution instead of 8. With `rows = 1`
+ * the output matches `valuesToSymbols(values, 'block', ...)`.
+ * 
+ * @param values - Array of numeric values to convert
+ * @param rows - Number of terminal rows to stack (minimum 1)
+ * @param preNormalized - Whether values are already normalized to 0-1 range
+ * @returns Array of rows ordered top to bottom, each containing one symbol per value
+ * 
+ * @example
+ * ```typescript
+ * valuesToBlockRows([0, 0.5, 1], 2, true)
+ * // [[' ', ' ', '█'],
+ * //  ['▁', '█', '█']]
+ * ```
+ */
+export function valuesToBlockRows(
+  values: number[],
+  rows: number,
+  preNormalized: boolean = false
+): string[][] {
+  const rowCount = Math.max(1, Math.floor(rows));
+  if (values.length === 0) {
+    return Array.from({ length: rowCount }, () => []);
+  }
+
+  const levelsPerRow = BLOCK_SYMBOLS.length;
+  const totalLevels = rowCount * levelsPerRow;
+
+  let normalizedValues: number[];
+  if (preNormalized) {
+    normalizedValues = values;
+  } else {
+    const [min, max] = extent(values);
+    const range = max - min;
+    // Uniform values sit at the middle of the range, matching valuesToSymbols
+    normalizedValues = range === 0
+      ? values.map(() => 0.5)
+      : values.map(value => (value - min) / range);
+  }
+
+  // Number of filled eighths per column (always at least one, like '▁')
+  const filledLevels = normalizedValues.map(value => {
+    const clamped = Math.max(0, Math.min(1, value));
+    return Math.floor(clamped * (totalLevels - 1)) + 1;
+  });
+
+  const result: string[][] = [];
+  for (let row = rowCount - 1; row >= 0; row--) {
+    const rowSymbols = filledLevels.map(level => {
+      const cellLevel = Math.max(0, Math.min(levelsPerRow, level - row * levelsPerRow));
+      return cellLevel === 0 ? ' ' : BLOCK_SYMBOLS[cellLevel - 1]!;
+    });
+    result.push(rowSymbols);
+  }
+
+  return result;
+}
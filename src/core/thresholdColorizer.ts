@@ -1,28 +1,71 @@
 import { 
   red, red1, red2, red3, red4, red5, red6, red7, red8,
   blue1, blue2, blue3, blue4, blue5, blue6, blue7, blue8,
-  green1, green2, green3, green4, green5, green6, green7, green8
+  green1, green2, green3, green4, green5, green6, green7, green8,
+  colorize, gradientColorCode, GRADIENT_LEVELS
 } from './ansi.js';
+import type { GradientRamp, GradientScheme } from './ansi.js';
+import {
+  createGradientRamp,
+  PERCEPTUAL_RAMPS,
+  scaleColorCode,
+  type GradientStops,
+  type PerceptualScheme
+} from './colorScale.js';
 
 /**
- * Color scheme type for threshold highlighting
+ * Color scheme type for threshold highlighting: a built-in gradient, a perceptual
+ * palette, or custom color stops
  */
-export type ColorScheme = 'red' | 'blue' | 'green';
+export type ColorScheme = GradientScheme | PerceptualScheme | GradientStops;
+
+/**
+ * Checks whether a color scheme is one of the built-in red, blue or green gradients
+ */
+function isGradientScheme(colorScheme: ColorScheme): colorScheme is GradientScheme {
+  return colorScheme === 'red' || colorScheme === 'blue' || colorScheme === 'green';
+}
+
+/**
+ * Resolves a perceptual palette or custom stops to a ramp
+ */
+function resolveRamp(colorScheme: PerceptualScheme | GradientStops): GradientRamp {
+  return typeof colorScheme === 'string' ? PERCEPTUAL_RAMPS[colorScheme] : createGradientRamp(colorScheme);
+}
+
+/**
+ * Options overriding the built-in colors of a ThresholdColorizer
+ */
+export interface ThresholdColorizerOptions {
+  /** Ramp used instead of the color scheme's built-in gradient */
+  ramp?: GradientRamp;
+  /** Escape sequence for single threshold highlighting (default: bright red) */
+  highlight?: string;
+}
 
 /**
  * Threshold colorizer for applying gradient highlighting to symbols
  */
 export class ThresholdColorizer {
   private readonly gradientColors: ((text: string) => string)[];
+  private readonly ramp: GradientRamp | undefined;
 
-  constructor(private readonly colorScheme: ColorScheme = 'red') {
-    this.gradientColors = this.getGradientColors(colorScheme);
+  constructor(
+    private readonly colorScheme: ColorScheme = 'red',
+    private readonly options: ThresholdColorizerOptions = {}
+  ) {
+    this.ramp = options.ramp ?? (isGradientScheme(colorScheme) ? undefined : resolveRamp(colorScheme));
+    const ramp = this.ramp;
+    this.gradientColors = ramp
+      ? Array.from({ length: GRADIENT_LEVELS }, (_, level) =>
+          (text: string) => colorize(text, gradientColorCode(ramp, level)))
+      : this.getGradientColors(isGradientScheme(colorScheme) ? colorScheme : 'red');
   }
 
   /**
    * Gets gradient color functions based on color scheme
    */
-  private getGradientColors(colorScheme: ColorScheme): ((text: string) => string)[] {
+  private getGradientColors(colorScheme: GradientScheme): ((text: string) => string)[] {
     switch (colorScheme) {
       case 'blue':
         return [blue1, blue2, blue3, blue4, blue5, blue6, blue7, blue8];
@@ -38,11 +81,16 @@ export class ThresholdColorizer {
    * Applies single threshold highlighting
    */
   private applySingleThreshold(symbol: string, value: number, threshold: number): string {
-    return value > threshold ? red(symbol) : symbol;
+    if (value <= threshold) {
+      return symbol;
+    }
+    return this.options.highlight ? colorize(symbol, this.options.highlight) : red(symbol);
   }
 
   /**
-   * Applies multiple threshold highlighting with gradient
+   * Applies multiple threshold highlighting with gradient.
+   * Continuous ramps (with stops) spread the thresholds over the whole scale;
+   * other ramps use one level per threshold.
    */
   private applyMultipleThresholds(symbol: string, value: number, thresholds: number[]): string {
     const sortedThresholds = [...thresholds].sort((a, b) => a - b);
@@ -51,13 +99,16 @@ export class ThresholdColorizer {
     let colorIndex = -1;
     for (let i = sortedThresholds.length - 1; i >= 0; i--) {
       if (value > sortedThresholds[i]!) {
-        colorIndex = Math.min(i, this.gradientColors.length - 1);
+        colorIndex = i;
         break;
       }
     }
     
+    if (colorIndex >= 0 && this.ramp?.stops) {
+      return colorize(symbol, scaleColorCode(this.ramp, (colorIndex + 1) / sortedThresholds.length));
+    }
     if (colorIndex >= 0) {
-      return this.gradientColors[colorIndex]!(symbol);
+      return this.gradientColors[Math.min(colorIndex, this.gradientColors.length - 1)]!(symbol);
     }
     
     return symbol; // Below all thresholds
@@ -66,15 +117,15 @@ export class ThresholdColorizer {
   /**
    * Applies threshold highlighting to symbols array
    * @param symbols - Array of symbol characters
-   * @param data - Original data values
+   * @param data - Original data values (null for missing values, which are not highlighted)
    * @param threshold - Single threshold value or array of thresholds
    * @returns Highlighted symbols as a single string
    */
-  public applyHighlighting(symbols: string[], data: number[], threshold: number | number[]): string {
+  public applyHighlighting(symbols: string[], data: Array<number | null>, threshold: number | number[]): string {
     const highlightedSymbols = symbols.map((symbol, index) => {
       const originalValue = data[Math.floor((index / symbols.length) * data.length)];
       
-      if (originalValue === undefined) {
+      if (originalValue === undefined || originalValue === null) {
         return symbol;
       }
       
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { darkTheme, plainChartTheme, type ChartTheme } from '../theme.js';
+import { getCachedColorDepth } from './ansi.js';
+
+/**
+ * Context carrying the theme of the surrounding ChartThemeProvider
+ */
+export const ChartThemeContext = createContext<ChartTheme>(darkTheme);
+
+/**
+ * Hook returning the active chart theme
+ *
+ * @returns Theme of the nearest ChartThemeProvider, or darkTheme outside any provider
+ * (without colors when colors are disabled, see getColorDepth)
+ */
+export function useChartTheme(): ChartTheme {
+  const theme = useContext(ChartThemeContext);
+  return getCachedColorDepth() === 0 ? plainChartTheme(theme) : theme;
+}
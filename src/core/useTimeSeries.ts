@@ -0,0 +1,178 @@
+import { useRef, useCallback, useSyncExternalStore } from 'react';
+import { RingBuffer } from './ringBuffer.js';
+import { toTimestamp, type TimeValue } from '../time.js';
+
+/**
+ * Options for the useTimeSeries hook
+ */
+export interface UseTimeSeriesOptions {
+  /** Maximum number of samples kept; older samples are dropped */
+  capacity: number;
+  /** Samples present before the first push (only the newest `capacity` are kept) */
+  initialValues?: number[];
+}
+
+/**
+ * Return type for the useTimeSeries hook
+ */
+export interface UseTimeSeriesResult {
+  /** Samples in the window, oldest first. Same array instance until the next push or clear. */
+  values: number[];
+  /** Time of each sample in milliseconds (push time unless given), parallel to `values` */
+  timestamps: number[];
+  /** Appends a sample, dropping the oldest one when the window is full. Stable across renders. */
+  push: (value: number, timestamp?: TimeValue) => void;
+  /** Removes all samples. Stable across renders. */
+  clear: () => void;
+}
+
+/**
+ * Arrays handed to React for one state of the window
+ */
+interface TimeSeriesSnapshot {
+  values: number[];
+  timestamps: number[];
+}
+
+/**
+ * Sliding window of samples read by React through useSyncExternalStore.
+ *
+ * Samples live in ring buffers. The snapshot arrays are copied from them only when
+ * read after a change, and subscribers are notified once per microtask, so a burst
+ * of pushes copies the window once.
+ */
+class TimeSeriesStore {
+  readonly capacity: number;
+  private readonly values: RingBuffer<number>;
+  private readonly timestamps: RingBuffer<number>;
+  private readonly listeners = new Set<() => void>();
+  private snapshot: TimeSeriesSnapshot | null = null;
+  private notifyScheduled = false;
+
+  /**
+   * @param capacity - Maximum number of samples kept
+   * @param initial - Samples to start with (only the newest `capacity` are kept)
+   */
+  constructor(capacity: number, initial: TimeSeriesSnapshot) {
+    this.capacity = capacity;
+    this.values = new RingBuffer<number>(capacity);
+    this.timestamps = new RingBuffer<number>(capacity);
+    const start = Math.max(0, initial.values.length - capacity);
+    for (let i = start; i < initial.values.length; i++) {
+      this.values.push(initial.values[i]!);
+      this.timestamps.push(initial.timestamps[i]!);
+    }
+  }
+
+  /**
+   * Appends a sample, dropping the oldest one when the window is full
+   */
+  push(value: number, timestamp: number): void {
+    this.values.push(value);
+    this.timestamps.push(timestamp);
+    this.changed();
+  }
+
+  /**
+   * Removes all samples
+   */
+  clear(): void {
+    this.values.clear();
+    this.timestamps.clear();
+    this.changed();
+  }
+
+  /**
+   * Registers a listener called after changes, returning its unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current window, the same arrays until the next change
+   */
+  getSnapshot = (): TimeSeriesSnapshot => {
+    if (this.snapshot === null) {
+      this.snapshot = { values: this.values.toArray(), timestamps: this.timestamps.toArray() };
+    }
+    return this.snapshot;
+  };
+
+  /**
+   * Drops the cached snapshot and schedules one notification for the current burst of changes
+   */
+  private changed(): void {
+    this.snapshot = null;
+    if (this.notifyScheduled) {
+      return;
+    }
+    this.notifyScheduled = true;
+    queueMicrotask(() => {
+      this.notifyScheduled = false;
+      this.listeners.forEach(listener => listener());
+    });
+  }
+}
+
+/**
+ * Hook that keeps a sliding window of streaming samples for live charts
+ *
+ * Samples are stored in a ring buffer, so `push` is O(1) and never copies the
+ * window. The `values` and `timestamps` arrays are built when the window is
+ * next read, and several pushes in a row (e.g. from a fast event source) cause
+ * a single update. Unchanged windows keep their array identity, so memoized
+ * charts skip re-rendering.
+ *
+ * @example
+ * ```tsx
+ * function Rps() {
+ *   const { values, timestamps, push } = useTimeSeries({ capacity: 60 });
+ *
+ *   useEffect(() => {
+ *     const interval = setInterval(() => push(readRps()), 1000);
+ *     return () => clearInterval(interval);
+ *   }, [push]);
+ *
+ *   return (
+ *     <>
+ *       <Sparkline data={values} width={60} />
+ *       <LineGraph data={[{ values, timestamps }]} height={5} />
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @param options - Window capacity and initial samples
+ * @returns Current window and functions to update it
+ */
+export function useTimeSeries(options: UseTimeSeriesOptions): UseTimeSeriesResult {
+  const { capacity, initialValues } = options;
+  const safeCapacity = Number.isFinite(capacity) ? Math.max(1, Math.floor(capacity)) : 1;
+
+  const storeRef = useRef<TimeSeriesStore | null>(null);
+  if (storeRef.current === null) {
+    const values = initialValues ?? [];
+    const now = Date.now();
+    storeRef.current = new TimeSeriesStore(safeCapacity, { values, timestamps: values.map(() => now) });
+  } else if (storeRef.current.capacity !== safeCapacity) {
+    // Resize the window, keeping the newest samples
+    storeRef.current = new TimeSeriesStore(safeCapacity, storeRef.current.getSnapshot());
+  }
+
+  const push = useCallback((value: number, timestamp?: TimeValue) => {
+    storeRef.current!.push(value, timestamp === undefined ? Date.now() : toTimestamp(timestamp));
+  }, []);
+
+  const clear = useCallback(() => {
+    storeRef.current!.clear();
+  }, []);
+
+  const store = storeRef.current;
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  return { values: snapshot.values, timestamps: snapshot.timestamps, push, clear };
+}
@@ -0,0 +1,173 @@
+/**
+ * Strategy for reducing long series to the available resolution
+ * - 'lttb': Largest-Triangle-Three-Buckets, keeps the visually significant points
+ *   (peaks and troughs) while following the overall shape
+ * - 'minmax': Minimum and maximum of each bucket (in original order), an envelope
+ *   that never hides a spike
+ * - 'mean': Average of each bucket, smooths noise
+ */
+export type DownsampleStrategy = 'lttb' | 'minmax' | 'mean';
+
+/**
+ * A sample as [x, y]; x is the sample index or its timestamp
+ */
+export type SamplePoint = [x: number, y: number];
+
+/**
+ * Splits points (sorted by x) into `buckets` groups of equal x range.
+ * Empty buckets are omitted.
+ */
+function bucketByX(points: SamplePoint[], buckets: number): SamplePoint[][] {
+  const first = points[0]![0];
+  const range = points[points.length - 1]![0] - first;
+  const groups: SamplePoint[][] = Array.from({ length: buckets }, () => []);
+
+  for (const point of points) {
+    const index = range > 0 ? Math.min(buckets - 1, Math.floor(((point[0] - first) / range) * buckets)) : 0;
+    groups[index]!.push(point);
+  }
+
+  return groups.filter(group => group.length > 0);
+}
+
+/**
+ * Downsamples points with Largest-Triangle-Three-Buckets.
+ *
+ * The first and last points are kept; every bucket in between contributes the
+ * point forming the largest triangle with the previously selected point and the
+ * average of the next bucket.
+ *
+ * @param points - Samples sorted by x
+ * @param threshold - Number of points to keep (at least 3 for bucketing to apply)
+ * @returns Selected points in original order
+ */
+export function downsampleLTTB(points: SamplePoint[], threshold: number): SamplePoint[] {
+  const target = Math.floor(threshold);
+  if (target >= points.length || target <= 0) {
+    return points.slice();
+  }
+  if (target === 1) {
+    return [points[0]!];
+  }
+  if (target === 2) {
+    return [points[0]!, points[points.length - 1]!];
+  }
+
+  const sampled: SamplePoint[] = [points[0]!];
+  // Bucket size for the points between the first and the last one
+  const every = (points.length - 2) / (target - 2);
+  let selected = 0;
+
+  for (let bucket = 0; bucket < target - 2; bucket++) {
+    // Average of the next bucket (the last point for the final bucket)
+    const nextStart = Math.floor((bucket + 1) * every) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * every) + 1, points.length);
+    let averageX = 0;
+    let averageY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      averageX += points[i]![0];
+      averageY += points[i]![1];
+    }
+    const nextCount = nextEnd - nextStart;
+    if (nextCount > 0) {
+      averageX /= nextCount;
+      averageY /= nextCount;
+    } else {
+      [averageX, averageY] = points[points.length - 1]!;
+    }
+
+    // Point of the current bucket with the largest triangle area
+    const [selectedX, selectedY] = points[selected]!;
+    const start = Math.floor(bucket * every) + 1;
+    const end = Math.floor((bucket + 1) * every) + 1;
+    let maxArea = -1;
+    let maxIndex = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (selectedX - averageX) * (points[i]![1] - selectedY) -
+        (selectedX - points[i]![0]) * (averageY - selectedY)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        maxIndex = i;
+      }
+    }
+
+    sampled.push(points[maxIndex]!);
+    selected = maxIndex;
+  }
+
+  sampled.push(points[points.length - 1]!);
+  return sampled;
+}
+
+/**
+ * Downsamples points to the minimum and maximum of each bucket.
+ *
+ * @param points - Samples sorted by x
+ * @param buckets - Number of buckets of equal x range
+ * @returns Up to two points per bucket (one when min and max coincide), in original order
+ */
+export function downsampleMinMax(points: SamplePoint[], buckets: number): SamplePoint[] {
+  const count = Math.floor(buckets);
+  if (points.length <= count * 2 || count <= 0) {
+    return points.slice();
+  }
+
+  return bucketByX(points, count).flatMap(group => {
+    let min = group[0]!;
+    let max = group[0]!;
+    for (const point of group) {
+      if (point[1] < min[1]) min = point;
+      if (point[1] > max[1]) max = point;
+    }
+    if (min === max) {
+      return [min];
+    }
+    return min[0] <= max[0] ? [min, max] : [max, min];
+  });
+}
+
+/**
+ * Downsamples points to the average of each bucket.
+ *
+ * @param points - Samples sorted by x
+ * @param buckets - Number of buckets of equal x range
+ * @returns One point per non-empty bucket at the bucket's mean x and y
+ */
+export function downsampleMean(points: SamplePoint[], buckets: number): SamplePoint[] {
+  const count = Math.floor(buckets);
+  if (points.length <= count || count <= 0) {
+    return points.slice();
+  }
+
+  return bucketByX(points, count).map(group => {
+    let sumX = 0;
+    let sumY = 0;
+    for (const [x, y] of group) {
+      sumX += x;
+      sumY += y;
+    }
+    return [sumX / group.length, sumY / group.length] as SamplePoint;
+  });
+}
+
+/**
+ * Downsamples points for `columns` output columns with the given strategy.
+ * 'minmax' keeps up to two points per column, the other strategies about one.
+ *
+ * @param points - Samples sorted by x
+ * @param columns - Available horizontal resolution
+ * @param strategy - Downsampling strategy
+ * @returns Reduced points in original order (all points when they already fit)
+ */
+export function downsample(points: SamplePoint[], columns: number, strategy: DownsampleStrategy): SamplePoint[] {
+  switch (strategy) {
+    case 'lttb':
+      return downsampleLTTB(points, columns);
+    case 'minmax':
+      return downsampleMinMax(points, columns);
+    case 'mean':
+      return downsampleMean(points, columns);
+  }
+}
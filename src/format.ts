@@ -0,0 +1,181 @@
+/**
+ * SI prefixes for thousands, millions, ... (index = power of 1000)
+ */
+const SI_PREFIXES = ['', 'k', 'M', 'G', 'T', 'P', 'E'];
+
+/**
+ * IEC binary units for bytes (index = power of 1024)
+ */
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB', 'EiB'];
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Formats a number with a fixed number of significant digits, without trailing
+ * zeros or exponent notation (e.g. 0.25 → "0.25", 2.345 → "2.35", 1234 → "1230").
+ *
+ * @param value - The number to format
+ * @param digits - Number of significant digits (default: 3)
+ * @returns Formatted string
+ */
+export function formatSignificant(value: number, digits: number = 3): string {
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+  // Number() drops trailing zeros and the exponent that toPrecision uses for large values
+  const precision = Math.max(1, Math.min(21, Math.round(digits)));
+  const rounded = Number(value.toPrecision(precision));
+  // String() switches to exponent notation below 1e-6, so write small values out with toFixed
+  if (rounded !== 0 && Math.abs(rounded) < 1e-6) {
+    const decimals = precision - 1 - Math.floor(Math.log10(Math.abs(rounded)));
+    return rounded.toFixed(Math.min(100, decimals)).replace(/\.?0+$/, '');
+  }
+  return String(rounded);
+}
+
+/**
+ * Scales a value by powers of `base` and formats it with significant digits,
+ * moving to the next unit when rounding reaches the base (e.g. 999.9k → 1M)
+ */
+function formatScaled(value: number, base: number, unitCount: number, digits: number): [string, number] {
+  let exponent = 0;
+  while (exponent < unitCount - 1 && Math.abs(value) >= Math.pow(base, exponent + 1)) {
+    exponent++;
+  }
+
+  let text = formatSignificant(value / Math.pow(base, exponent), digits);
+  if (Math.abs(Number(text)) >= base && exponent < unitCount - 1) {
+    exponent++;
+    text = formatSignificant(value / Math.pow(base, exponent), digits);
+  }
+  return [text, exponent];
+}
+
+/**
+ * Formats a number with SI suffixes for thousands and above (1500 → "1.5k", 2.3e6 → "2.3M").
+ * Values below 1000 keep their significant digits without a suffix.
+ *
+ * @param value - The number to format
+ * @param digits - Number of significant digits (default: 3)
+ * @returns Formatted string
+ */
+export function formatSI(value: number, digits: number = 3): string {
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+  const [text, exponent] = formatScaled(value, 1000, SI_PREFIXES.length, digits);
+  return text + SI_PREFIXES[exponent]!;
+}
+
+/**
+ * Formats a byte count with binary (IEC) units (1536 → "1.5 KiB", 3145728 → "3 MiB").
+ *
+ * @param bytes - Number of bytes
+ * @param digits - Number of significant digits (default: 3)
+ * @returns Formatted string
+ */
+export function formatBytes(bytes: number, digits: number = 3): string {
+  if (!Number.isFinite(bytes)) {
+    return String(bytes);
+  }
+  const [text, exponent] = formatScaled(bytes, 1024, BYTE_UNITS.length, digits);
+  return `${text} ${BYTE_UNITS[exponent]!}`;
+}
+
+/**
+ * Formats a duration in milliseconds using the largest fitting unit:
+ * "850ms", "1.5s", "2m 30s", "1h 5m", "2d 3h". Durations that round up to
+ * the next unit move on to it (59.96s → "1m", 59m 59.6s → "1h").
+ *
+ * @param milliseconds - Duration in milliseconds
+ * @param digits - Significant digits for milliseconds and seconds (default: 3)
+ * @returns Formatted string
+ */
+export function formatDuration(milliseconds: number, digits: number = 3): string {
+  if (!Number.isFinite(milliseconds)) {
+    return String(milliseconds);
+  }
+  if (milliseconds < 0) {
+    return `-${formatDuration(-milliseconds, digits)}`;
+  }
+  if (milliseconds < SECOND) {
+    const text = formatSignificant(milliseconds, digits);
+    return Number(text) < SECOND ? `${text}ms` : formatDuration(SECOND, digits);
+  }
+  if (milliseconds < MINUTE) {
+    const text = formatSignificant(milliseconds / SECOND, digits);
+    return Number(text) < MINUTE / SECOND ? `${text}s` : formatDuration(MINUTE, digits);
+  }
+
+  // Two whole units, e.g. minutes and seconds, rounded at the smaller unit.
+  // The units are picked after rounding, so that 59m 59.6s is not shown as 60m.
+  const [major, minor, majorSuffix, minorSuffix] = milliseconds < HOUR - SECOND / 2
+    ? [MINUTE, SECOND, 'm', 's']
+    : milliseconds < DAY - MINUTE / 2
+      ? [HOUR, MINUTE, 'h', 'm']
+      : [DAY, HOUR, 'd', 'h'];
+  const totalMinor = Math.round(milliseconds / minor);
+  const perMajor = major / minor;
+  const majorCount = Math.floor(totalMinor / perMajor);
+  const minorCount = totalMinor % perMajor;
+  return minorCount > 0
+    ? `${majorCount}${majorSuffix} ${minorCount}${minorSuffix}`
+    : `${majorCount}${majorSuffix}`;
+}
+
+/**
+ * Formats a ratio as a percentage (0.125 → "12.5%").
+ *
+ * @param ratio - The ratio to format (1 = 100%)
+ * @param decimals - Number of decimal places (default: 1)
+ * @returns Formatted string
+ */
+export function formatPercent(ratio: number, decimals: number = 1): string {
+  if (!Number.isFinite(ratio)) {
+    return `${ratio}%`;
+  }
+  return `${(ratio * 100).toFixed(decimals)}%`;
+}
+
+/**
+ * Formats a number with locale-aware digit grouping (12345.6 → "12,345.6" in en-US).
+ *
+ * @param value - The number to format
+ * @param locale - Locale(s) passed to Intl.NumberFormat (default: runtime locale)
+ * @param maximumFractionDigits - Maximum number of decimals (default: 2)
+ * @returns Formatted string
+ */
+export function formatGrouped(
+  value: number,
+  locale?: string | string[],
+  maximumFractionDigits: number = 2
+): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+}
+
+/**
+ * Values from this magnitude on are abbreviated by formatCompact
+ */
+const COMPACT_THRESHOLD = 10000;
+
+/**
+ * Default formatter for chart values and axis labels: integers below 10,000 in full
+ * (1234 → "1234"), other values below 10,000 with 3 significant digits but all of
+ * their integer digits (0.25 → "0.25", 1234.5 → "1235") and larger values with
+ * SI suffixes (15000 → "15k").
+ *
+ * @param value - The number to format
+ * @returns Formatted string
+ */
+export function formatCompact(value: number): string {
+  if (Number.isInteger(value) && Math.abs(value) < COMPACT_THRESHOLD) {
+    return String(value);
+  }
+  const integerDigits = Math.abs(value) >= 1 ? Math.floor(Math.log10(Math.abs(value))) + 1 : 1;
+  const text = formatSignificant(value, Math.max(3, integerDigits));
+  // Values that round up to 10,000 switch to the suffixed form as well
+  return Math.abs(Number(text)) >= COMPACT_THRESHOLD ? formatSI(value) : text;
+}
@@ -1,26 +1,130 @@
 // Main Components
 export { Sparkline } from './components/Sparkline.js';
 export { BarChart } from './components/BarChart.js';
-export { StackedBarChart } from './components/StackedBarChart.js';
+export { GroupedBarChart } from './components/GroupedBarChart.js';
+export { StackedBarChart, MultiStackedBarChart } from './components/StackedBarChart.js';
 export { LineGraph } from './components/LineGraph.js';
+export { ScatterPlot } from './components/ScatterPlot.js';
+export { Heatmap } from './components/Heatmap.js';
+export { Histogram } from './components/Histogram.js';
+export { Legend } from './components/Legend.js';
+export { ChartThemeProvider } from './components/ChartThemeProvider.js';
 
 // Component Types
 export type { SparklineProps } from './components/Sparkline.js';
-export type { BarChartProps, BarChartData } from './components/BarChart.js';
+export type { BarChartProps, BarChartData, BarChartOrientation } from './components/BarChart.js';
+export type {
+  GroupedBarChartProps,
+  GroupedBarChartGroup,
+  GroupedBarChartSeries
+} from './components/GroupedBarChart.js';
 export type {
   StackedBarChartProps,
   StackedBarSegment,
-  StackedBarChartMode
+  StackedBarChartMode,
+  MultiStackedBarChartProps,
+  StackedBarRow
 } from './components/StackedBarChart.js';
-export type { LineGraphProps, LineGraphSeries } from './components/LineGraph.js';
+export type {
+  LineGraphProps,
+  LineGraphSeries,
+  LineGraphMode,
+  LineGraphFill,
+  LineGraphAxis,
+  LineGraphReferenceLine,
+  LineGraphBand,
+  LineGraphMarker,
+  LineGraphAnnotation
+} from './components/LineGraph.js';
+export type {
+  ScatterPlotProps,
+  ScatterPlotSeries,
+  ScatterPoint,
+  ScatterPlotOverlap
+} from './components/ScatterPlot.js';
+export type { HeatmapProps, HeatmapMode } from './components/Heatmap.js';
+export type { HistogramProps, HistogramOrientation } from './components/Histogram.js';
+export type {
+  LegendProps,
+  LegendItem,
+  LegendLayout,
+  ChartLegendOption
+} from './components/Legend.js';
+export type { ChartThemeProviderProps } from './components/ChartThemeProvider.js';
 
 // Hooks
 export { useAutoWidth } from './core/useAutoWidth.js';
 export type { UseAutoWidthResult } from './core/useAutoWidth.js';
+export { useTimeSeries } from './core/useTimeSeries.js';
+export type { UseTimeSeriesOptions, UseTimeSeriesResult } from './core/useTimeSeries.js';
+export { useChartTheme } from './core/useChartTheme.js';
+export { RingBuffer } from './core/ringBuffer.js';
+
+// Canvas (for building custom charts)
+export { Canvas, BrailleCanvas } from './core/canvas.js';
+export type { CanvasCell, CanvasRectOptions } from './core/canvas.js';
 
 // Core Utilities (for advanced usage)
+export {
+  ticks,
+  nice,
+  scaleLog,
+  scaleSymlog,
+  scalePow,
+  createScale,
+  logDomainMin,
+  scaleTicks,
+  scaleNice
+} from './scale.js';
+export type { ScaleType } from './scale.js';
+export { timeInterval, timeTicks, timeTickFormat, toTimestamp } from './time.js';
+export type { TimeInterval, TimeUnit, TimeValue } from './time.js';
+export {
+  formatCompact,
+  formatSI,
+  formatBytes,
+  formatDuration,
+  formatPercent,
+  formatSignificant,
+  formatGrouped
+} from './format.js';
+export {
+  downsample,
+  downsampleLTTB,
+  downsampleMinMax,
+  downsampleMean
+} from './downsample.js';
+export type { DownsampleStrategy, SamplePoint } from './downsample.js';
+export { fillMissing, isMissing, presentRuns } from './missing.js';
+export type { MissingDataMode, MaybeValue } from './missing.js';
+export { computeBins, MAX_BINS } from './binning.js';
+export type { Bin, BinOptions, BinRule } from './binning.js';
+export {
+  darkTheme,
+  lightTheme,
+  highContrastTheme,
+  monochromeTheme,
+  CHART_THEMES,
+  COLORBLIND_SAFE_PALETTE,
+  createChartTheme,
+  paletteColor,
+  fillPattern,
+  pointMarker,
+  plainChartTheme,
+  visibleColor
+} from './theme.js';
+export type {
+  ChartTheme,
+  ChartThemeName,
+  ChartThemeOverrides,
+  NamedColorScheme,
+  ChartTextStyle,
+  ChartGlyphs
+} from './theme.js';
+
 export { 
   valuesToSymbols, 
+  valuesToBlockRows,
   getSymbol, 
   BLOCK_SYMBOLS, 
   BRAILLE_SYMBOLS 
@@ -34,7 +138,23 @@ export {
   bold, 
   dim,
   colorize,
+  gradientColorCode,
   hasAnsi,
   stripAnsi,
-  ANSI 
-} from './core/ansi.js';
\ No newline at end of file
+  ANSI,
+  GRADIENT_RAMPS,
+  getColorDepth
+} from './core/ansi.js';
+export type { ColorDepth, ColorStream, GradientRamp, RGBColor } from './core/ansi.js';
+export {
+  createGradientRamp,
+  parseColor,
+  interpolateColor,
+  rgbToAnsi256,
+  rgbToAnsi16,
+  scaleColorCode,
+  PERCEPTUAL_STOPS,
+  PERCEPTUAL_RAMPS
+} from './core/colorScale.js';
+export type { GradientStops, PerceptualScheme } from './core/colorScale.js';
+export type { ColorScheme } from './core/thresholdColorizer.js';
\ No newline at end of file
@@ -0,0 +1,98 @@
+/**
+ * How missing values (null, undefined, NaN or ±Infinity) are drawn
+ * - 'gap': Left empty, breaking lines (default)
+ * - 'interpolate': Filled linearly between the nearest values on both sides
+ * - 'hold': Filled with the last value before the gap
+ *
+ * Missing values before the first or after the last value stay missing with
+ * 'interpolate', and before the first value with 'hold'.
+ */
+export type MissingDataMode = 'gap' | 'interpolate' | 'hold';
+
+/**
+ * A data value that may be missing
+ */
+export type MaybeValue = number | null | undefined;
+
+/**
+ * Checks whether a value is missing (null, undefined or non-finite)
+ */
+export function isMissing(value: MaybeValue): value is null | undefined {
+  return value === null || value === undefined || !Number.isFinite(value);
+}
+
+/**
+ * Fills missing values according to a mode.
+ *
+ * @param values - Values with possible gaps
+ * @param mode - How to fill gaps
+ * @param positions - X position of each value (default: its index), used by 'interpolate'
+ * @returns New array where every remaining missing value is null
+ *
+ * @example
+ * ```typescript
+ * fillMissing([1, null, 3], 'interpolate'); // [1, 2, 3]
+ * fillMissing([1, NaN, 3], 'hold');          // [1, 1, 3]
+ * fillMissing([1, undefined, 3], 'gap');     // [1, null, 3]
+ * ```
+ */
+export function fillMissing(
+  values: MaybeValue[],
+  mode: MissingDataMode,
+  positions?: number[]
+): Array<number | null> {
+  const filled = values.map(value => (isMissing(value) ? null : value));
+  if (mode === 'gap') {
+    return filled;
+  }
+
+  let previous = -1;
+  for (let i = 0; i < filled.length; i++) {
+    if (filled[i] === null) {
+      continue;
+    }
+    if (previous >= 0 && i - previous > 1) {
+      const start = filled[previous]!;
+      const end = filled[i]!;
+      const x0 = positions?.[previous] ?? previous;
+      const x1 = positions?.[i] ?? i;
+      for (let gap = previous + 1; gap < i; gap++) {
+        const fraction = x1 > x0 ? ((positions?.[gap] ?? gap) - x0) / (x1 - x0) : 0;
+        filled[gap] = mode === 'hold' ? start : start + fraction * (end - start);
+      }
+    }
+    previous = i;
+  }
+
+  // 'hold' also carries the last value to the end
+  if (mode === 'hold' && previous >= 0) {
+    filled.fill(filled[previous]!, previous + 1);
+  }
+
+  return filled;
+}
+
+/**
+ * Splits values into runs of consecutive present values.
+ *
+ * @param values - Values where missing entries are null
+ * @returns Runs as index ranges [start, end) in original order
+ */
+export function presentRuns(values: Array<number | null>): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  let start = -1;
+
+  values.forEach((value, index) => {
+    if (value !== null && start < 0) {
+      start = index;
+    } else if (value === null && start >= 0) {
+      runs.push([start, index]);
+      start = -1;
+    }
+  });
+  if (start >= 0) {
+    runs.push([start, values.length]);
+  }
+
+  return runs;
+}
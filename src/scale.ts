@@ -56,4 +56,361 @@ export function quantize(domain: number[], steps: number): (value: number) => nu
     
     return quantized;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Thresholds for choosing 10, 5 or 2 times a power of ten as tick step
+ */
+const E10 = Math.sqrt(50);
+const E5 = Math.sqrt(10);
+const E2 = Math.sqrt(2);
+
+/**
+ * Computes the integer range and increment of ticks within [start, stop].
+ * A negative increment means ticks are i / -increment, which avoids
+ * floating point error for steps below 1 (0.1 * 3 !== 0.3).
+ */
+function tickSpec(start: number, stop: number, count: number): [number, number, number] {
+  const step = (stop - start) / Math.max(1, count);
+  const power = Math.floor(Math.log10(step));
+  const error = step / Math.pow(10, power);
+  const factor = error >= E10 ? 10 : error >= E5 ? 5 : error >= E2 ? 2 : 1;
+
+  let i1: number;
+  let i2: number;
+  let increment: number;
+  if (power < 0) {
+    increment = Math.pow(10, -power) / factor;
+    i1 = Math.round(start * increment);
+    i2 = Math.round(stop * increment);
+    if (i1 / increment < start) ++i1;
+    if (i2 / increment > stop) --i2;
+    increment = -increment;
+  } else {
+    increment = Math.pow(10, power) * factor;
+    i1 = Math.round(start / increment);
+    i2 = Math.round(stop / increment);
+    if (i1 * increment < start) ++i1;
+    if (i2 * increment > stop) --i2;
+  }
+  return [i1, i2, increment];
+}
+
+/**
+ * Reads [min, max] from a domain array, in ascending order
+ */
+function domainExtent(domain: number[]): [number, number] {
+  const first = domain[0] ?? 0;
+  const last = domain.length === 1 ? first : domain[1] ?? 0;
+  return first <= last ? [first, last] : [last, first];
+}
+
+/**
+ * Generates human-readable tick values within a domain.
+ *
+ * Ticks are multiples of 1, 2 or 5 times a power of ten, chosen so that
+ * roughly `count` ticks fall within the domain (like d3's `ticks`).
+ *
+ * @param domain - Array representing the input range [min, max]
+ * @param count - Approximate number of ticks (default: 5)
+ * @returns Ascending tick values within the domain
+ *
+ * @example
+ * ```typescript
+ * ticks([0, 100], 4)     // [0, 20, 40, 60, 80, 100]
+ * ticks([3.7, 96.2], 4)  // [20, 40, 60, 80]
+ * ticks([0, 1], 5)       // [0, 0.2, 0.4, 0.6, 0.8, 1]
+ * ```
+ */
+export function ticks(domain: number[], count: number = 5): number[] {
+  if (domain.length === 0) {
+    return [];
+  }
+
+  const [min, max] = domainExtent(domain);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || count <= 0) {
+    return [];
+  }
+  if (min === max) {
+    return [min];
+  }
+
+  const [i1, i2, increment] = tickSpec(min, max, count);
+  if (!(i2 >= i1)) {
+    return [];
+  }
+
+  const result: number[] = [];
+  for (let i = i1; i <= i2; i++) {
+    result.push(increment < 0 ? i / -increment : i * increment);
+  }
+  return result;
+}
+
+/**
+ * Extends a domain so that both ends are round tick values.
+ *
+ * The step is chosen like in `ticks`, so `ticks(nice(domain, count), count)`
+ * starts and ends exactly at the domain bounds.
+ *
+ * @param domain - Array representing the input range [min, max]
+ * @param count - Approximate number of ticks the domain will be divided into (default: 10)
+ * @returns The extended domain as [min, max]
+ *
+ * @example
+ * ```typescript
+ * nice([3.7, 96.2], 4)  // [0, 100]
+ * nice([0.13, 0.87])    // [0.1, 0.9]
+ * ```
+ */
+export function nice(domain: number[], count: number = 10): [number, number] {
+  if (domain.length === 0) {
+    return [0, 0];
+  }
+
+  let [start, stop] = domainExtent(domain);
+  if (!Number.isFinite(start) || !Number.isFinite(stop) || start === stop || count <= 0) {
+    return [start, stop];
+  }
+
+  // Rounding the bounds can change the step, so repeat until it settles
+  let previousIncrement: number | undefined;
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const increment = tickSpec(start, stop, count)[2];
+    if (increment === previousIncrement || increment === 0 || !Number.isFinite(increment)) {
+      break;
+    }
+    if (increment > 0) {
+      start = Math.floor(start / increment) * increment;
+      stop = Math.ceil(stop / increment) * increment;
+    } else {
+      start = Math.ceil(start * increment) / increment;
+      stop = Math.floor(stop * increment) / increment;
+    }
+    previousIncrement = increment;
+  }
+  return [start, stop];
+}
+
+/**
+ * Scale applied to values before they are mapped onto a chart
+ * - 'linear': Proportional mapping (default)
+ * - 'log': Logarithmic, for positive data spanning orders of magnitude
+ * - 'symlog': Symmetric log, compresses large magnitudes but supports zero and negatives
+ * - 'sqrt': Power scale with exponent 0.5
+ * - { type: 'pow', exponent }: Power scale with a custom exponent
+ */
+export type ScaleType = 'linear' | 'log' | 'symlog' | 'sqrt' | { type: 'pow'; exponent: number };
+
+/**
+ * Creates a normalizer that maps transformed values from a domain to [0, 1]
+ */
+function transformedNormalize(
+  domain: number[],
+  transform: (value: number) => number
+): (value: number) => number {
+  if (domain.length === 0) {
+    return () => 0;
+  }
+
+  const min = transform(domain[0] ?? 0);
+  const max = transform(domain.length === 1 ? domain[0] ?? 0 : domain[1] ?? 0);
+
+  if (min === max || !Number.isFinite(min) || !Number.isFinite(max)) {
+    return () => 0;
+  }
+
+  const range = max - min;
+
+  return (value: number): number => {
+    return (transform(value) - min) / range;
+  };
+}
+
+/**
+ * Creates a logarithmic normalization function mapping a positive domain to [0, 1].
+ *
+ * Equal ratios map to equal distances, so 1, 10, 100 and 1000 are evenly spaced.
+ * The logarithm base does not affect the normalized result.
+ *
+ * @param domain - Array representing the input range [min, max]; both bounds must be positive,
+ *   otherwise every value maps to 0
+ * @returns A function that normalizes values (non-positive values map to -Infinity)
+ */
+export function scaleLog(domain: number[]): (value: number) => number {
+  return transformedNormalize(domain, value => (value > 0 ? Math.log(value) : -Infinity));
+}
+
+/**
+ * Creates a symmetric log normalization function mapping a domain to [0, 1].
+ *
+ * Uses sign(x) * log(1 + |x| / constant), which is close to linear around zero
+ * and logarithmic for large magnitudes, so zero and negative values are supported.
+ *
+ * @param domain - Array representing the input range [min, max]
+ * @param constant - Size of the linear region around zero (default: 1)
+ * @returns A function that normalizes values to [0, 1] range
+ */
+export function scaleSymlog(domain: number[], constant: number = 1): (value: number) => number {
+  return transformedNormalize(domain, value => Math.sign(value) * Math.log1p(Math.abs(value) / constant));
+}
+
+/**
+ * Creates a power normalization function mapping a domain to [0, 1].
+ *
+ * Uses sign(x) * |x|^exponent; exponents below 1 (e.g. 0.5 for a square root scale)
+ * expand small values, exponents above 1 expand large values.
+ *
+ * @param domain - Array representing the input range [min, max]
+ * @param exponent - Power applied to values (default: 1, equivalent to `normalize`)
+ * @returns A function that normalizes values to [0, 1] range
+ */
+export function scalePow(domain: number[], exponent: number = 1): (value: number) => number {
+  return transformedNormalize(domain, value => Math.sign(value) * Math.pow(Math.abs(value), exponent));
+}
+
+/**
+ * Creates the normalization function for a scale type
+ *
+ * @param scale - Scale type
+ * @param domain - Array representing the input range [min, max]
+ * @returns A function that normalizes values to [0, 1] range
+ */
+export function createScale(scale: ScaleType, domain: number[]): (value: number) => number {
+  if (scale === 'log') {
+    return scaleLog(domain);
+  }
+  if (scale === 'symlog') {
+    return scaleSymlog(domain);
+  }
+  if (scale === 'sqrt') {
+    return scalePow(domain, 0.5);
+  }
+  if (typeof scale === 'object') {
+    return scalePow(domain, scale.exponent);
+  }
+  return normalize(domain);
+}
+
+/**
+ * Calculates [min, max] of the values in a single pass. Unlike spreading into
+ * Math.min/Math.max, this handles arrays of any length.
+ *
+ * @param values - Data values
+ * @returns [min, max], or [Infinity, -Infinity] for an empty array
+ */
+export function extent(values: readonly number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) {
+      min = value;
+    }
+    if (value > max) {
+      max = value;
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * Calculates the lower bound of a logarithmic domain for data that should start
+ * at a round value: the largest power of ten not above the smallest positive value.
+ *
+ * @param values - Data values
+ * @returns Lower domain bound, or 1 when no value is positive
+ */
+export function logDomainMin(values: number[]): number {
+  const positive = values.filter(value => value > 0 && Number.isFinite(value));
+  if (positive.length === 0) {
+    return 1;
+  }
+  return Math.pow(10, Math.floor(Math.log10(extent(positive)[0])));
+}
+
+/**
+ * Generates powers of ten within [min, max] (both positive), thinned to at most
+ * count values. Thinning keeps the largest power so the top of the domain is labeled.
+ */
+function powerOfTenTicks(min: number, max: number, count: number): number[] {
+  const first = Math.ceil(Math.log10(min));
+  const last = Math.floor(Math.log10(max));
+  const every = Math.max(1, Math.ceil((last - first + 1) / Math.max(1, count)));
+  const result: number[] = [];
+  for (let exponent = last; exponent >= first; exponent -= every) {
+    result.unshift(Math.pow(10, exponent));
+  }
+  return result;
+}
+
+/**
+ * Generates human-readable tick values for a scale type.
+ * Log scales use powers of ten, symlog scales use zero and signed powers of ten
+ * (starting at 1), other scales use `ticks`.
+ *
+ * @param scale - Scale type
+ * @param domain - Array representing the input range [min, max]
+ * @param count - Approximate number of ticks (default: 5)
+ * @returns Ascending tick values within the domain
+ *
+ * @example
+ * ```typescript
+ * scaleTicks('log', [1, 5000])        // [1, 10, 100, 1000]
+ * scaleTicks('symlog', [-100, 100])   // [-100, -1, 0, 1, 100]
+ * ```
+ */
+export function scaleTicks(scale: ScaleType, domain: number[], count: number = 5): number[] {
+  if (scale !== 'log' && scale !== 'symlog') {
+    return ticks(domain, count);
+  }
+  if (domain.length === 0) {
+    return [];
+  }
+
+  const [min, max] = domainExtent(domain);
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    return [];
+  }
+
+  if (scale === 'log') {
+    return max > 0 ? powerOfTenTicks(Math.max(min, Number.MIN_VALUE), max, count) : [];
+  }
+
+  // Split the tick budget between both signs when the domain crosses zero
+  const sideCount = min <= -1 && max >= 1 ? Math.max(1, Math.floor((count - 1) / 2)) : count;
+  const negative = min <= -1 ? powerOfTenTicks(Math.max(1, -max), -min, sideCount).map(value => -value).reverse() : [];
+  const zero = min <= 0 && max >= 0 ? [0] : [];
+  const positive = max >= 1 ? powerOfTenTicks(Math.max(1, min), max, sideCount) : [];
+  return [...negative, ...zero, ...positive];
+}
+
+/**
+ * Extends a domain so that both ends are round values for a scale type.
+ * Log scales round outward to powers of ten (symlog scales do so for bounds
+ * beyond ±1), other scales use `nice`.
+ *
+ * @param scale - Scale type
+ * @param domain - Array representing the input range [min, max]
+ * @param count - Approximate number of ticks (default: 10)
+ * @returns The extended domain as [min, max]
+ */
+export function scaleNice(scale: ScaleType, domain: number[], count: number = 10): [number, number] {
+  if (scale !== 'log' && scale !== 'symlog') {
+    return nice(domain, count);
+  }
+  if (domain.length === 0) {
+    return [0, 0];
+  }
+
+  const [min, max] = domainExtent(domain);
+  const floorPower = (value: number) => Math.pow(10, Math.floor(Math.log10(value)));
+  const ceilPower = (value: number) => Math.pow(10, Math.ceil(Math.log10(value)));
+
+  if (scale === 'log') {
+    return min > 0 && max > 0 ? [floorPower(min), ceilPower(max)] : [min, max];
+  }
+  return [
+    min < -1 ? -ceilPower(-min) : min,
+    max > 1 ? ceilPower(max) : max,
+  ];
+}
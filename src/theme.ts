@@ -0,0 +1,408 @@
+import { ANSI, getCachedColorDepth, GRADIENT_RAMPS, type GradientRamp, type GradientScheme } from './core/ansi.js';
+import { createGradientRamp, PERCEPTUAL_RAMPS, type PerceptualScheme } from './core/colorScale.js';
+import type { ColorScheme } from './core/thresholdColorizer.js';
+
+/**
+ * Color schemes that can be referenced by name
+ */
+export type NamedColorScheme = GradientScheme | PerceptualScheme;
+
+/**
+ * Ink text style for a chart element
+ */
+export interface ChartTextStyle {
+  /** Ink color name or hex (default: the terminal's default color) */
+  color?: string;
+  /** Whether the text is dimmed */
+  dimColor?: boolean;
+}
+
+/**
+ * Characters used to draw chart elements when no character is given explicitly
+ */
+export interface ChartGlyphs {
+  /** Bars of BarChart, GroupedBarChart and Histogram */
+  bar: string;
+  /** Segments of StackedBarChart and MultiStackedBarChart */
+  segment: string;
+  /** ScatterPlot points */
+  point: string;
+  /** LineGraph area fills */
+  area: string;
+  /** LineGraph reference lines */
+  referenceLine: string;
+  /** LineGraph bands */
+  band: string;
+  /** LineGraph markers */
+  marker: string;
+  /** Fills telling bars, segments and areas apart when patterns are enabled, used in order */
+  fillPatterns: string[];
+  /** Point markers telling scatter and line series apart when patterns are enabled, used in order */
+  pointMarkers: string[];
+}
+
+/**
+ * Colors and glyphs shared by all chart components
+ */
+export interface ChartTheme {
+  /**
+   * Colors, in order, for LineGraph and ScatterPlot series, GroupedBarChart series and
+   * (Multi)StackedBarChart segments without their own color (empty: no color)
+   */
+  palette: string[];
+  /** Axis lines and tick labels */
+  axis: ChartTextStyle;
+  /** Category labels and legend names */
+  label: ChartTextStyle;
+  /** Missing values */
+  muted: ChartTextStyle;
+  /** Color of reference lines, bands and markers (undefined: the terminal's default color) */
+  overlayColor: string | undefined;
+  /** Gradient used for each color scheme by Sparkline thresholds and Heatmap cells */
+  gradients: Record<NamedColorScheme, GradientRamp>;
+  /** Escape sequence for Sparkline single threshold highlighting */
+  highlight: string;
+  /** Default characters */
+  glyphs: ChartGlyphs;
+  /** Whether series are told apart by glyph patterns as well as by color */
+  patterns: boolean;
+}
+
+/**
+ * Names of the built-in themes
+ */
+export type ChartThemeName = 'dark' | 'light' | 'highContrast' | 'monochrome';
+
+/**
+ * Partial theme; nested styles, gradients and glyphs are merged key by key
+ */
+export interface ChartThemeOverrides {
+  palette?: string[];
+  axis?: ChartTextStyle;
+  label?: ChartTextStyle;
+  muted?: ChartTextStyle;
+  overlayColor?: string | undefined;
+  gradients?: Partial<Record<NamedColorScheme, GradientRamp>>;
+  highlight?: string;
+  glyphs?: Partial<ChartGlyphs>;
+  patterns?: boolean;
+}
+
+const DEFAULT_GLYPHS: ChartGlyphs = {
+  bar: '▆',
+  segment: '█',
+  point: '●',
+  area: '█',
+  referenceLine: '┄',
+  band: '░',
+  marker: '┆',
+  fillPatterns: ['█', '▓', '▒', '░'],
+  pointMarkers: ['●', '■', '▲', '◆', '✕', '+'],
+};
+
+/**
+ * Okabe-Ito palette: categorical colors that stay distinguishable with the common
+ * color vision deficiencies (black omitted for dark backgrounds)
+ */
+export const COLORBLIND_SAFE_PALETTE: string[] = [
+  '#E69F00', // orange
+  '#56B4E9', // sky blue
+  '#009E73', // bluish green
+  '#F0E442', // yellow
+  '#0072B2', // blue
+  '#D55E00', // vermillion
+  '#CC79A7', // reddish purple
+];
+
+/**
+ * Theme for dark terminal backgrounds (the default)
+ */
+export const darkTheme: ChartTheme = {
+  palette: COLORBLIND_SAFE_PALETTE,
+  axis: { dimColor: true },
+  label: {},
+  muted: { dimColor: true },
+  overlayColor: 'gray',
+  gradients: { ...GRADIENT_RAMPS, ...PERCEPTUAL_RAMPS },
+  highlight: ANSI.BRIGHT_RED,
+  glyphs: DEFAULT_GLYPHS,
+  patterns: false,
+};
+
+/**
+ * Theme for light terminal backgrounds, with darker gradients that stay visible on white
+ * (the colorblind-safe palette starts with its darker colors and drops yellow)
+ */
+export const lightTheme: ChartTheme = {
+  palette: ['#0072B2', '#D55E00', '#009E73', '#CC79A7', '#E69F00', '#56B4E9'],
+  axis: { color: 'gray' },
+  label: {},
+  muted: { color: 'gray' },
+  overlayColor: 'gray',
+  gradients: {
+    red: {
+      rgb: [
+        [240, 150, 150],
+        [235, 125, 125],
+        [230, 100, 100],
+        [220, 80, 80],
+        [205, 60, 60],
+        [190, 40, 40],
+        [165, 25, 25],
+        [135, 15, 15],
+      ],
+      ansi256: [174, 168, 167, 161, 160, 124, 88, 52],
+      ansi16: [91, 31],
+    },
+    blue: {
+      rgb: [
+        [150, 170, 240],
+        [125, 145, 230],
+        [100, 120, 220],
+        [80, 100, 210],
+        [60, 80, 195],
+        [40, 60, 180],
+        [25, 40, 155],
+        [15, 25, 125],
+      ],
+      ansi256: [111, 75, 69, 63, 62, 26, 20, 18],
+      ansi16: [94, 34],
+    },
+    green: {
+      rgb: [
+        [140, 210, 140],
+        [115, 195, 115],
+        [90, 180, 90],
+        [70, 165, 70],
+        [50, 150, 50],
+        [35, 130, 35],
+        [25, 110, 25],
+        [15, 85, 15],
+      ],
+      ansi256: [114, 77, 71, 70, 34, 28, 22, 22],
+      ansi16: [92, 32],
+    },
+    ...PERCEPTUAL_RAMPS,
+  },
+  highlight: ANSI.RED,
+  glyphs: DEFAULT_GLYPHS,
+  patterns: false,
+};
+
+/**
+ * Theme with bright colors, saturated gradients and heavy glyphs
+ */
+export const highContrastTheme: ChartTheme = {
+  palette: ['cyanBright', 'magentaBright', 'yellowBright', 'greenBright', 'blueBright', 'redBright'],
+  axis: { color: 'white' },
+  label: { color: 'whiteBright' },
+  muted: { color: 'white' },
+  overlayColor: 'white',
+  gradients: {
+    red: {
+      rgb: [
+        [255, 255, 0],
+        [255, 220, 0],
+        [255, 185, 0],
+        [255, 150, 0],
+        [255, 115, 0],
+        [255, 80, 0],
+        [255, 40, 0],
+        [255, 0, 0],
+      ],
+      ansi256: [226, 220, 214, 208, 202, 202, 196, 196],
+      ansi16: [93, 91],
+    },
+    blue: {
+      rgb: [
+        [0, 255, 255],
+        [0, 220, 255],
+        [0, 185, 255],
+        [0, 150, 255],
+        [0, 115, 255],
+        [0, 80, 255],
+        [0, 40, 255],
+        [0, 0, 255],
+      ],
+      ansi256: [51, 45, 39, 33, 27, 27, 21, 21],
+      ansi16: [96, 94],
+    },
+    green: {
+      rgb: [
+        [255, 255, 0],
+        [220, 255, 0],
+        [185, 255, 0],
+        [150, 255, 0],
+        [115, 255, 0],
+        [80, 255, 0],
+        [40, 255, 0],
+        [0, 255, 0],
+      ],
+      ansi256: [226, 190, 154, 118, 118, 82, 46, 46],
+      ansi16: [93, 92],
+    },
+    ...PERCEPTUAL_RAMPS,
+  },
+  highlight: ANSI.BOLD + ANSI.BRIGHT_RED,
+  glyphs: {
+    ...DEFAULT_GLYPHS,
+    bar: '█',
+    referenceLine: '━',
+    band: '▒',
+    marker: '┃',
+  },
+  patterns: false,
+};
+
+/**
+ * Gray ramp from dim to bright, shared by all color schemes of the monochrome theme
+ */
+const GRAY_RAMP: GradientRamp = {
+  rgb: [
+    [88, 88, 88],
+    [112, 112, 112],
+    [136, 136, 136],
+    [160, 160, 160],
+    [184, 184, 184],
+    [208, 208, 208],
+    [232, 232, 232],
+    [255, 255, 255],
+  ],
+  ansi256: [240, 242, 244, 246, 248, 250, 252, 255],
+  ansi16: [90, 97],
+};
+
+/**
+ * Theme without hues: gray gradients, bold highlighting, and uncolored series told apart by patterns
+ */
+export const monochromeTheme: ChartTheme = {
+  palette: [],
+  axis: { dimColor: true },
+  label: {},
+  muted: { dimColor: true },
+  overlayColor: undefined,
+  gradients: { red: GRAY_RAMP, blue: GRAY_RAMP, green: GRAY_RAMP, viridis: GRAY_RAMP, magma: GRAY_RAMP, cividis: GRAY_RAMP },
+  highlight: ANSI.BOLD,
+  glyphs: DEFAULT_GLYPHS,
+  patterns: true,
+};
+
+/**
+ * Built-in themes by name
+ */
+export const CHART_THEMES: Record<ChartThemeName, ChartTheme> = {
+  dark: darkTheme,
+  light: lightTheme,
+  highContrast: highContrastTheme,
+  monochrome: monochromeTheme,
+};
+
+/**
+ * Creates a theme by overriding parts of a base theme.
+ *
+ * @param overrides - Values to replace; axis, label, muted, gradients and glyphs are merged key by key
+ * @param base - Theme to start from (default: darkTheme)
+ * @returns New theme
+ *
+ * @example
+ * ```typescript
+ * const theme = createChartTheme({ palette: ['#ff8800', '#0088ff'], glyphs: { bar: '█' } }, lightTheme);
+ * ```
+ */
+export function createChartTheme(overrides: ChartThemeOverrides, base: ChartTheme = darkTheme): ChartTheme {
+  return {
+    ...base,
+    ...overrides,
+    axis: { ...base.axis, ...overrides.axis },
+    label: { ...base.label, ...overrides.label },
+    muted: { ...base.muted, ...overrides.muted },
+    gradients: { ...base.gradients, ...overrides.gradients },
+    glyphs: { ...base.glyphs, ...overrides.glyphs },
+  };
+}
+
+/**
+ * Picks the color for the item at `index` from the theme palette, cycling through it
+ *
+ * @returns Palette color, or undefined when the palette is empty
+ */
+export function paletteColor(theme: ChartTheme, index: number): string | undefined {
+  return theme.palette.length > 0 ? theme.palette[index % theme.palette.length] : undefined;
+}
+
+/**
+ * Picks the fill pattern for the item at `index`, cycling through the theme's fill patterns
+ *
+ * @returns Fill glyph, or the theme's segment glyph when there are no fill patterns
+ */
+export function fillPattern(theme: ChartTheme, index: number): string {
+  const { fillPatterns } = theme.glyphs;
+  return fillPatterns.length > 0 ? fillPatterns[index % fillPatterns.length]! : theme.glyphs.segment;
+}
+
+/**
+ * Picks the point marker for the item at `index`, cycling through the theme's point markers
+ *
+ * @returns Marker glyph, or the theme's point glyph when there are no point markers
+ */
+export function pointMarker(theme: ChartTheme, index: number): string {
+  const { pointMarkers } = theme.glyphs;
+  return pointMarkers.length > 0 ? pointMarkers[index % pointMarkers.length]! : theme.glyphs.point;
+}
+
+/**
+ * Checks whether a text style changes anything, so unstyled text can stay a plain string
+ */
+export function hasTextStyle(style: ChartTextStyle): boolean {
+  return Boolean(style.color || style.dimColor);
+}
+
+/**
+ * Drops a color when colors are disabled (color depth 0, see getColorDepth), so text stays plain
+ */
+export function visibleColor(color: string | undefined): string | undefined {
+  return getCachedColorDepth() === 0 ? undefined : color;
+}
+
+/**
+ * Ink props for an optional color, omitting `color` when there is none or colors are disabled
+ */
+export function colorProps(color: string | undefined): ChartTextStyle {
+  const visible = visibleColor(color);
+  return visible ? { color: visible } : {};
+}
+
+/**
+ * Plain variants by base theme, so that each theme keeps one plain instance
+ */
+const plainThemes = new WeakMap<ChartTheme, ChartTheme>();
+
+/**
+ * Variant of a theme for output without colors: no palette, text styles or overlay
+ * color, and patterns so that series stay distinguishable. Returns the same
+ * object for the same base theme.
+ */
+export function plainChartTheme(theme: ChartTheme): ChartTheme {
+  let plain = plainThemes.get(theme);
+  if (!plain) {
+    plain = { ...theme, palette: [], axis: {}, label: {}, muted: {}, overlayColor: undefined, patterns: true };
+    plainThemes.set(theme, plain);
+  }
+  return plain;
+}
+
+/**
+ * Resolves a color scheme to the theme's ramp for a named scheme, or a ramp built from custom stops.
+ * Invalid stops fall back to the theme's 'red' ramp with a warning instead of throwing during render.
+ */
+export function resolveGradient(theme: ChartTheme, colorScheme: ColorScheme): GradientRamp {
+  if (typeof colorScheme === 'string') {
+    return theme.gradients[colorScheme];
+  }
+  try {
+    return createGradientRamp(colorScheme);
+  } catch (error) {
+    console.warn(`${(error as Error).message}, falling back to the default color scheme`);
+    return theme.gradients.red;
+  }
+}
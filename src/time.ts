@@ -0,0 +1,209 @@
+import { ticks } from './scale.js';
+
+/**
+ * Calendar unit of a time tick interval
+ */
+export type TimeUnit = 'millisecond' | 'second' | 'minute' | 'hour' | 'day';
+
+/**
+ * Spacing between time ticks, e.g. { unit: 'minute', step: 15 } for quarter hours
+ */
+export interface TimeInterval {
+  unit: TimeUnit;
+  step: number;
+}
+
+/**
+ * A point in time: milliseconds since the epoch or a Date
+ */
+export type TimeValue = number | Date;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Candidate calendar intervals in ascending order with their approximate duration
+ */
+const TIME_INTERVALS: Array<[TimeInterval, number]> = [
+  [{ unit: 'second', step: 1 }, SECOND],
+  [{ unit: 'second', step: 5 }, 5 * SECOND],
+  [{ unit: 'second', step: 15 }, 15 * SECOND],
+  [{ unit: 'second', step: 30 }, 30 * SECOND],
+  [{ unit: 'minute', step: 1 }, MINUTE],
+  [{ unit: 'minute', step: 5 }, 5 * MINUTE],
+  [{ unit: 'minute', step: 15 }, 15 * MINUTE],
+  [{ unit: 'minute', step: 30 }, 30 * MINUTE],
+  [{ unit: 'hour', step: 1 }, HOUR],
+  [{ unit: 'hour', step: 3 }, 3 * HOUR],
+  [{ unit: 'hour', step: 6 }, 6 * HOUR],
+  [{ unit: 'hour', step: 12 }, 12 * HOUR],
+  [{ unit: 'day', step: 1 }, DAY],
+  [{ unit: 'day', step: 2 }, 2 * DAY],
+  [{ unit: 'day', step: 7 }, 7 * DAY],
+];
+
+/**
+ * Default Intl.DateTimeFormat options for tick labels of each unit
+ */
+const TICK_FORMAT_OPTIONS: Record<TimeUnit, Intl.DateTimeFormatOptions> = {
+  millisecond: { minute: '2-digit', second: '2-digit' },
+  second: { hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' },
+  minute: { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' },
+  hour: { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' },
+  day: { month: 'short', day: 'numeric' },
+};
+
+/**
+ * Converts a time value to milliseconds since the epoch
+ */
+export function toTimestamp(value: TimeValue): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Returns the finite [start, end] of a time domain in ascending order
+ */
+function timeExtent(domain: TimeValue[]): [number, number] | null {
+  const times = domain.map(toTimestamp).filter(Number.isFinite);
+  if (times.length === 0) {
+    return null;
+  }
+  return [Math.min(...times), Math.max(...times)];
+}
+
+/**
+ * Chooses the calendar interval for about `count` ticks over a time domain:
+ * the smallest interval of 1/5/15/30 seconds or minutes, 1/3/6/12 hours or
+ * 1/2/7 days that yields at most `count` steps. Longer ranges use 1-2-5
+ * multiples of days, shorter ones milliseconds.
+ *
+ * @param domain - Time range [start, end]
+ * @param count - Approximate number of ticks (default: 5)
+ * @returns The tick interval
+ */
+export function timeInterval(domain: TimeValue[], count: number = 5): TimeInterval {
+  const extent = timeExtent(domain);
+  const target = extent ? (extent[1] - extent[0]) / Math.max(1, count) : 0;
+
+  if (target < SECOND) {
+    return { unit: 'millisecond', step: 1 };
+  }
+
+  const match = TIME_INTERVALS.find(([, duration]) => duration >= target);
+  if (match) {
+    return match[0];
+  }
+
+  const dayTicks = ticks([0, target * Math.max(1, count) / DAY], count);
+  const step = dayTicks.length > 1 ? dayTicks[1]! - dayTicks[0]! : 1;
+  return { unit: 'day', step: Math.max(1, Math.round(step)) };
+}
+
+/**
+ * Rounds a timestamp down to the start of its interval in local time
+ */
+function floorTime(time: number, interval: TimeInterval): Date {
+  const date = new Date(time);
+  const { unit, step } = interval;
+
+  if (unit === 'second') {
+    date.setMilliseconds(0);
+    date.setSeconds(Math.floor(date.getSeconds() / step) * step);
+  } else if (unit === 'minute') {
+    date.setSeconds(0, 0);
+    date.setMinutes(Math.floor(date.getMinutes() / step) * step);
+  } else if (unit === 'hour') {
+    date.setMinutes(0, 0, 0);
+    date.setHours(Math.floor(date.getHours() / step) * step);
+  } else if (unit === 'day') {
+    date.setHours(0, 0, 0, 0);
+    if (step === 7) {
+      // Weeks start on Sunday
+      date.setDate(date.getDate() - date.getDay());
+    } else if (step > 1) {
+      // Count days from the epoch rather than the month, so that the ticks keep the
+      // same spacing and phase across month boundaries
+      const epochDay = Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY);
+      date.setDate(date.getDate() - (((epochDay % step) + step) % step));
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Advances a date by one interval in local time (so days stay aligned across DST changes)
+ */
+function offsetTime(date: Date, interval: TimeInterval): void {
+  const { unit, step } = interval;
+  if (unit === 'second') {
+    date.setSeconds(date.getSeconds() + step);
+  } else if (unit === 'minute') {
+    date.setMinutes(date.getMinutes() + step);
+  } else if (unit === 'hour') {
+    date.setHours(date.getHours() + step);
+  } else if (unit === 'day') {
+    date.setDate(date.getDate() + step);
+  } else {
+    date.setMilliseconds(date.getMilliseconds() + step);
+  }
+}
+
+/**
+ * Generates time ticks at calendar boundaries (local time) within a domain.
+ *
+ * @param domain - Time range [start, end] as timestamps or Dates
+ * @param count - Approximate number of ticks (default: 5)
+ * @returns Ascending tick timestamps in milliseconds
+ *
+ * @example
+ * ```typescript
+ * const start = new Date(2024, 0, 1, 9, 50);
+ * const end = new Date(2024, 0, 1, 11, 10);
+ * timeTicks([start, end], 4);   // 10:00, 10:30, 11:00 as timestamps
+ * ```
+ */
+export function timeTicks(domain: TimeValue[], count: number = 5): number[] {
+  const extent = timeExtent(domain);
+  if (!extent || count <= 0) {
+    return [];
+  }
+
+  const [start, end] = extent;
+  const interval = timeInterval(extent, count);
+  if (interval.unit === 'millisecond') {
+    return ticks(extent, count);
+  }
+
+  const result: number[] = [];
+  const date = floorTime(start, interval);
+  while (date.getTime() <= end) {
+    if (date.getTime() >= start) {
+      result.push(date.getTime());
+    }
+    offsetTime(date, interval);
+  }
+  return result;
+}
+
+/**
+ * Creates a tick label formatter for an interval using Intl.DateTimeFormat:
+ * times of day (HH:mm, with seconds below one minute and milliseconds below one
+ * second) for intervals below a day, month and day otherwise.
+ *
+ * @param interval - Tick interval, e.g. from `timeInterval`
+ * @param locale - Locale(s) passed to Intl.DateTimeFormat (default: runtime locale)
+ * @returns A function formatting timestamps
+ */
+export function timeTickFormat(
+  interval: TimeInterval,
+  locale?: string | string[]
+): (time: number) => string {
+  const formatter = new Intl.DateTimeFormat(locale, TICK_FORMAT_OPTIONS[interval.unit]);
+  if (interval.unit === 'millisecond') {
+    return (time: number) => `${formatter.format(time)}.${String(new Date(time).getMilliseconds()).padStart(3, '0')}`;
+  }
+  return (time: number) => formatter.format(time);
+}